@@ -1,59 +1,121 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { AppMode, ItineraryResponse } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppMode, GeoPoint, Itinerary, ItineraryResponse, ItineraryStop, SavedTrip, TripRequest } from './types';
 import { generateGroundedItinerary, analyzeComplexLogistics } from './services/geminiService';
-import LiveSession from './components/LiveSession';
+import { formatDuration, itineraryToProse, replaceDayStops, rewriteChangedDays, routeStops, stopPlaceQuery } from './services/itinerary';
+import { createMatrixSource, optimizeDayStops } from './services/routeOptimizer';
+import { RouteLeg } from './services/routeTimeline';
+import { TRANSFER_ICONS, applyTripSkeleton, buildTripPrompt, createDefaultTripRequest, describeTripRoute, tripTravelers } from './services/tripPlanner';
+import { saveTrip } from './services/tripStorage';
+import { hasTravelerProfile, loadTravelerProfile } from './services/travelerProfile';
+import { liveDraftInterests, liveDraftToTripRequest } from './services/liveTripTools';
+import { SharedTrip, buildShareUrl, decodeSharedTrip, sharedTripFromHash, sharedTripToFile } from './services/tripShare';
+import { downloadFile, exportFileName } from './services/exporters';
+import { LOCALES, Locale } from './services/i18n';
+import LiveSession, { LivePlanRequest } from './components/LiveSession';
 import ItineraryResult from './components/ItineraryResult';
-import ChatBot from './components/ChatBot';
-
-const CITIES = ["Bangkok", "Chiang Mai", "Phuket", "Krabi", "Ayutthaya"];
+import ChatBot, { PlanEdit } from './components/ChatBot';
+import TripBuilder from './components/TripBuilder';
+import MyTrips from './components/MyTrips';
+import RouteTimeline from './components/RouteTimeline';
+import CostSheet from './components/CostSheet';
+import Phrasebook from './components/Phrasebook';
+import Settings from './components/Settings';
+import { useI18n } from './components/I18nProvider';
 
 export default function App() {
+  const { locale, info, setLocale, t } = useI18n();
   const [mode, setMode] = useState<AppMode>(AppMode.LIVE);
   
   // Planner State
-  const [destination, setDestination] = useState(CITIES[0]);
+  const [tripRequest, setTripRequest] = useState<TripRequest>(createDefaultTripRequest);
   const [interests, setInterests] = useState("");
   const [loading, setLoading] = useState(false);
   const [itinerary, setItinerary] = useState<ItineraryResponse | null>(null);
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const [savedTripId, setSavedTripId] = useState<string | null>(null); // Library entry the current plan was saved as
   const [useComplexThinking, setUseComplexThinking] = useState(false);
   
-  const [liveTranscript, setLiveTranscript] = useState<string | null>(null);
+  const [livePlanRequest, setLivePlanRequest] = useState<LivePlanRequest | null>(null);
   const [userLocation, setUserLocation] = useState<GeolocationCoordinates | undefined>(undefined);
   
   // Map & Route State
   const mapRef = useRef<any>(null); // Ref for the gmp-map element
   const [mapInstance, setMapInstance] = useState<google.maps.Map | null>(null);
-  const [routeInfo, setRouteInfo] = useState<{ distance: string; duration: string; stops: number } | null>(null);
+  // Totals for the card on the map and each leg for the timeline, for the route they were fetched for
+  const [routeInfo, setRouteInfo] = useState<{ key: string; distance: string; duration: string; legs: RouteLeg[] } | null>(null);
+  const routeRequestRef = useRef(0); // Bumped per Directions request so late answers are dropped
   const directionsServiceRef = useRef<google.maps.DirectionsService | null>(null);
   const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
+  const [routePaths, setRoutePaths] = useState<Record<number, GeoPoint[]>>({}); // Per day, for exports
+  const [optimizingRoute, setOptimizingRoute] = useState(false);
+  // Last optimization of the selected day: travel time before/after and the stops to undo to
+  const [routeOptimization, setRouteOptimization] = useState<{ day: number; reordered: boolean; beforeSeconds: number; afterSeconds: number; previousStops: ItineraryStop[]; previousText: string } | null>(null);
+  // Plans as they were before each chat reply that edited them, most recent last
+  const [chatEdits, setChatEdits] = useState<{ replyId: string; before: Itinerary; beforeText: string; after: Itinerary }[]>([]);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+      return () => generationAbortRef.current?.abort();
+  }, []);
+
+  const generateItinerary = async (promptText: string, request?: TripRequest) => {
+      generationAbortRef.current?.abort();
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
 
-  const generateItinerary = async (promptText: string) => {
       setLoading(true);
       setItinerary(null);
+      setSelectedDay(null);
+      setSavedTripId(null);
+      setChatEdits([]);
       setRouteInfo(null);
+      setRoutePaths({});
+      setRouteOptimization(null);
       if (directionsRendererRef.current) {
           directionsRendererRef.current.setMap(null);
       }
 
+      const showResult = (response: ItineraryResponse) => {
+          const result = request ? { ...response, itinerary: applyTripSkeleton(response.itinerary, request) } : response;
+          setItinerary(result);
+          setSelectedDay(prev => prev ?? result.itinerary.days[0]?.day ?? null);
+      };
+      const streamOptions = {
+          signal: controller.signal,
+          locale,
+          onUpdate: (partial: ItineraryResponse) => {
+              if (!controller.signal.aborted) showResult(partial);
+          },
+      };
+
       try {
         if (useComplexThinking) {
             const extendedPrompt = `${promptText} Provide a deeply analyzed logistical plan considering traffic, weather patterns, and cultural timing. Explain your reasoning.`;
-            const text = await analyzeComplexLogistics(extendedPrompt);
-            setItinerary({ text });
+            showResult(await analyzeComplexLogistics(extendedPrompt, streamOptions));
         } else {
             const extendedPrompt = `${promptText} Include specific restaurant names, attraction ticket prices, and open hours using Google Maps.`;
-            const result = await generateGroundedItinerary(extendedPrompt, userLocation);
-            setItinerary(result);
+            showResult(await generateGroundedItinerary(extendedPrompt, userLocation, streamOptions));
         }
       } catch (error) {
+        // Cancelled: keep whatever had streamed in so far
+        if (controller.signal.aborted) return;
         console.error(error);
-        alert("Failed to generate itinerary. Please try again.");
+        alert(t('planner.generateFailed'));
       } finally {
-        setLoading(false);
+        if (generationAbortRef.current === controller) {
+            generationAbortRef.current = null;
+            setLoading(false);
+        }
       }
   };
 
+  const handleCancelGeneration = () => {
+      generationAbortRef.current?.abort();
+      generationAbortRef.current = null;
+      setLoading(false);
+  };
+
   const handleGenerate = async () => {
       if (navigator.geolocation && !userLocation) {
          navigator.geolocation.getCurrentPosition(
@@ -62,40 +124,174 @@ export default function App() {
          );
       }
 
-      let prompt = `Plan a 1-day itinerary for a tourist in ${destination}. Also suggest a list of popular tourist attractions in ${destination} with brief descriptions and estimated time needed to visit.`;
-      if (interests) prompt += ` Focus on these interests: ${interests}.`;
-      
-      await generateItinerary(prompt);
+      await generateTrip(tripRequest, interests);
   };
 
-  const handlePlanFromLive = (transcript: string) => {
-      setLiveTranscript(transcript);
+  const generateTrip = (request: TripRequest, focus: string, conversation?: string) => {
+      let prompt = buildTripPrompt(request);
+      if (focus) prompt += ` Focus on these interests: ${focus}.`;
+      if (conversation) prompt += `\nThe traveler talked the trip over with a tour guide; use any other wishes they mentioned.\nCONVERSATION TRANSCRIPT:\n${conversation}`;
+      return generateItinerary(prompt, request);
+  };
+
+  const handlePlanFromLive = (request: LivePlanRequest) => {
+      setLivePlanRequest(request);
       setMode(AppMode.PLANNER);
   };
 
-  const handleSaveItinerary = () => {
-      if (!itinerary) return;
+  // Resolves to whether the plan was saved
+  const handleSaveItinerary = async (): Promise<boolean> => {
+      if (!itinerary) return false;
       
       try {
-          const savedItem = {
-              id: Date.now(),
-              destination,
+          // Saving again updates the same library entry (and keeps its name) instead of piling up copies
+          const saved = await saveTrip({
+              name: savedTripId ? undefined : describeTripRoute(tripRequest),
+              trip: tripRequest,
               interests,
-              text: itinerary.text,
-              groundingChunks: itinerary.groundingChunks,
-              created: new Date().toISOString()
-          };
-          
-          const existingData = localStorage.getItem('thai_guide_saved_trips');
-          const history = existingData ? JSON.parse(existingData) : [];
-          history.unshift(savedItem);
-          
-          localStorage.setItem('thai_guide_saved_trips', JSON.stringify(history.slice(0, 10))); // Keep last 10
+              response: itinerary,
+          }, savedTripId || undefined);
+          setSavedTripId(saved.id);
+          return true;
+      } catch (e) {
+          console.error("Failed to save trip", e);
+          alert(t('planner.saveFailed'));
+          return false;
+      }
+  };
+
+  const updateDayStops = (dayNumber: number, stops: ItineraryStop[]) => {
+      setItinerary(prev => prev && { ...prev, itinerary: replaceDayStops(prev.itinerary, dayNumber, stops) });
+  };
+
+  // A reordered or chat-edited day no longer matches the model's write-up, so its part of the
+  // prose (and with it narration, exports and shares) is rewritten; the rest stays as written
+  const withEditedPlan = (response: ItineraryResponse, plan: Itinerary): ItineraryResponse =>
+      ({ ...response, itinerary: plan, text: rewriteChangedDays(response.text, response.itinerary, plan, info.dayLabel) });
+
+  const updateItinerary = (update: (itinerary: Itinerary) => Itinerary) => {
+      setItinerary(prev => prev && { ...prev, itinerary: update(prev.itinerary) });
+  };
+
+  const handleToggleStopFixed = (stopId: string) => {
+      const day = itinerary?.itinerary.days.find(d => d.stops.some(s => s.id === stopId));
+      if (!day) return;
+      updateDayStops(day.day, day.stops.map(s => s.id === stopId ? { ...s, fixed: !s.fixed || undefined } : s));
+  };
+
+  const handleOptimizeRoute = async () => {
+      const day = itinerary?.itinerary.days.find(d => d.day === selectedDay);
+      if (!itinerary || !day) return;
+      setOptimizingRoute(true);
+      try {
+          const result = await optimizeDayStops(day.stops, createMatrixSource());
+          if (!result) return;
+          const previousText = itinerary.text;
+          if (result.stops !== day.stops) {
+              setItinerary(prev => prev && withEditedPlan(prev, replaceDayStops(prev.itinerary, day.day, result.stops)));
+          }
+          setRouteOptimization({
+              day: day.day,
+              reordered: result.stops !== day.stops,
+              beforeSeconds: result.before.travelSeconds,
+              afterSeconds: result.after.travelSeconds,
+              previousStops: day.stops,
+              previousText,
+          });
       } catch (e) {
-          console.error("Failed to save to local storage", e);
+          console.error("Route optimization failed", e);
+          alert(t('map.optimizeFailed'));
+      } finally {
+          setOptimizingRoute(false);
       }
   };
 
+  const handleUndoOptimization = () => {
+      if (!routeOptimization) return;
+      const { day, previousStops, previousText } = routeOptimization;
+      setItinerary(prev => prev && { ...prev, itinerary: replaceDayStops(prev.itinerary, day, previousStops), text: previousText });
+      setRouteOptimization(null);
+  };
+
+  // Somsri changed the plan from the chat: one undo step per reply, however many edits it made
+  const handleChatPlanEdit = (edit: PlanEdit) => {
+      // The prose that went with the plan being edited, for undo
+      const beforeText = itinerary?.itinerary === edit.before ? itinerary.text : itineraryToProse(edit.before, info.dayLabel);
+      setChatEdits(prev => {
+          const last = prev[prev.length - 1];
+          if (last?.replyId === edit.replyId) return [...prev.slice(0, -1), { ...last, after: edit.after }];
+          return [...prev, { replyId: edit.replyId, before: edit.before, beforeText, after: edit.after }];
+      });
+      setItinerary(prev => prev && withEditedPlan(prev, edit.after));
+      setRouteOptimization(null);
+  };
+
+  const latestChatEdit = chatEdits[chatEdits.length - 1];
+  // Only while the plan is still exactly what that reply left, so undo never drops later changes
+  const undoableChatReplyId = latestChatEdit && itinerary?.itinerary === latestChatEdit.after ? latestChatEdit.replyId : null;
+
+  const handleUndoChatEdit = (replyId: string) => {
+      if (!latestChatEdit || latestChatEdit.replyId !== replyId) return;
+      setItinerary(prev => prev && { ...prev, itinerary: latestChatEdit.before, text: latestChatEdit.beforeText });
+      setChatEdits(prev => prev.slice(0, -1));
+      setRouteOptimization(null);
+  };
+
+  // Shows an existing plan (saved or shared) in the planner without generating anything
+  const openPlan = (plan: SharedTrip, savedId: string | null) => {
+      generationAbortRef.current?.abort();
+      generationAbortRef.current = null;
+      setLoading(false);
+      setRouteOptimization(null);
+      setRoutePaths({});
+      setChatEdits([]);
+      setItinerary(plan.response);
+      setSelectedDay(plan.response.itinerary.days[0]?.day ?? null);
+      setSavedTripId(savedId);
+      if (plan.trip) setTripRequest(plan.trip);
+      setInterests(plan.interests);
+      setMode(AppMode.PLANNER);
+  };
+
+  const handleOpenTrip = (saved: SavedTrip) => openPlan(saved, saved.id);
+
+  const currentSharedTrip = (): SharedTrip | null => itinerary && {
+      name: itinerary.itinerary.title,
+      trip: tripRequest,
+      interests,
+      response: itinerary,
+  };
+
+  const handleShare = async (as: 'link' | 'file') => {
+      const shared = currentSharedTrip();
+      if (!shared) return;
+      if (as === 'file') {
+          downloadFile(exportFileName(shared.response.itinerary, 'trip.json'), sharedTripToFile(shared), 'application/json');
+          return;
+      }
+      const url = await buildShareUrl(shared);
+      if (navigator.share) {
+          await navigator.share({ title: shared.name, url });
+      } else {
+          await navigator.clipboard.writeText(url);
+      }
+  };
+
+  // Opening a share link (#trip=...) shows the trip; the hash is cleared so a reload doesn't reopen it
+  useEffect(() => {
+      const openFromHash = async () => {
+          const encoded = sharedTripFromHash(window.location.hash);
+          if (!encoded) return;
+          history.replaceState(null, '', window.location.pathname + window.location.search);
+          const shared = await decodeSharedTrip(encoded);
+          if (shared) openPlan(shared, null);
+          else alert(t('share.brokenLink'));
+      };
+      openFromHash();
+      window.addEventListener('hashchange', openFromHash);
+      return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
   // Handle Map Update from Itinerary Place Selection
   const handlePlaceUpdate = (location: google.maps.LatLng) => {
       if (mapInstance) {
@@ -106,6 +302,14 @@ export default function App() {
 
   // Initialize Map Instance with robust cleanup
   useEffect(() => {
+      // The map element unmounts outside the planner, so drop the stale instance and renderer
+      if (mode !== AppMode.PLANNER && mapInstance) {
+          directionsRendererRef.current?.setMap(null);
+          directionsRendererRef.current = null;
+          setMapInstance(null);
+          return;
+      }
+
       let timeoutId: number;
       if (mode === AppMode.PLANNER && !mapInstance) {
          const checkMap = () => {
@@ -122,16 +326,24 @@ export default function App() {
       };
   }, [mode, mapInstance]);
 
-  // Plot Route when Itinerary Changes
+  // Each day is routed on its own, through its stops in their planned order. The route only
+  // depends on which places those are, so cost, pin or prose edits don't re-request it.
+  const selectedDayStops = itinerary?.itinerary.days.find(d => d.day === selectedDay)?.stops;
+  const selectedRouteStops = useMemo(() => selectedDayStops ? routeStops(selectedDayStops) : [], [selectedDayStops]);
+  const routeKey = useMemo(() => `${selectedDay}|${selectedRouteStops.map(stopPlaceQuery).join('|')}`, [selectedDay, selectedRouteStops]);
+  const currentRouteInfo = routeInfo?.key === routeKey ? routeInfo : null;
+
+  // Plot the selected day's route when its places change
   useEffect(() => {
-      if (!itinerary || !itinerary.groundingChunks || !mapInstance) return;
+      const requestId = ++routeRequestRef.current;
+      // Wait for the stream to finish so we don't request directions for every partial plan
+      if (!mapInstance || loading || selectedDay === null) return;
+      directionsRendererRef.current?.setMap(null);
+      setRouteInfo(null);
 
-      const places = itinerary.groundingChunks
-          .filter(c => c.maps?.title)
-          .map(c => c.maps!.title);
-      
-      // Deduplicate nearby sequential items to avoid tiny hops? For now keep all unique.
-      const uniquePlaces = Array.from(new Set(places));
+      const dayNumber = selectedDay;
+      const key = routeKey;
+      const uniquePlaces = selectedRouteStops.map(stopPlaceQuery);
 
       if (uniquePlaces.length < 2) return;
 
@@ -157,48 +369,61 @@ export default function App() {
           waypoints: waypoints,
           travelMode: google.maps.TravelMode.DRIVING, // Driving usually gives best tour connection logic
       }, (result: any, status: any) => {
+          // A newer request (another day, or the stops changed) owns the map now
+          if (requestId !== routeRequestRef.current) return;
           if (status === 'OK' && result) {
               directionsRendererRef.current?.setDirections(result);
               
-              // Calculate totals
-              let totalDist = 0;
-              let totalDur = 0;
-              const legs = result.routes[0].legs;
-              for (let i = 0; i < legs.length; i++) {
-                  totalDist += legs[i].distance?.value || 0;
-                  totalDur += legs[i].duration?.value || 0;
-              }
+              // Keep every leg for the timeline, and the totals for the card
+              const legs: RouteLeg[] = result.routes[0].legs.map((leg: any) => ({
+                  distanceMeters: leg.distance?.value || 0,
+                  durationSeconds: leg.duration?.value || 0,
+              }));
+              const totalDist = legs.reduce((sum, leg) => sum + leg.distanceMeters, 0);
+              const totalDur = legs.reduce((sum, leg) => sum + leg.durationSeconds, 0);
 
               // Format
               const distKm = (totalDist / 1000).toFixed(1);
               const durHours = Math.floor(totalDur / 3600);
               const durMins = Math.round((totalDur % 3600) / 60);
               
+              const path: GeoPoint[] = (result.routes[0].overview_path || []).map((p: any) => ({ lat: p.lat(), lng: p.lng() }));
+              setRoutePaths(prev => ({ ...prev, [dayNumber]: path }));
+
               setRouteInfo({
+                  key,
                   distance: `${distKm} km`,
                   duration: durHours > 0 ? `${durHours}h ${durMins}m` : `${durMins}m`,
-                  stops: uniquePlaces.length
+                  legs,
               });
           } else {
               console.warn("Directions request failed", status);
           }
       });
 
-  }, [itinerary, mapInstance]);
+  }, [routeKey, mapInstance, loading]);
 
   useEffect(() => {
-    if (liveTranscript && mode === AppMode.PLANNER) {
-        const prompt = `Based on the following conversation with a tour guide, extract the user's destination preference and interests, and create a detailed 1-day itinerary.
+    if (livePlanRequest && mode === AppMode.PLANNER) {
+        // Somsri recorded the trip with her tools: plan it like a request from the trip builder
+        const request = liveDraftToTripRequest(livePlanRequest.draft);
+        if (request) {
+            const liveInterests = liveDraftInterests(livePlanRequest.draft);
+            setTripRequest(request);
+            setInterests(liveInterests);
+            generateTrip(request, liveInterests, livePlanRequest.transcript);
+        } else {
+            const prompt = `Based on the following conversation with a tour guide, extract the user's destination preference and interests, and create a detailed 1-day itinerary.
         
         CONVERSATION TRANSCRIPT:
-        ${liveTranscript}
+        ${livePlanRequest.transcript}
         
         If the destination is unclear, suggest a plan for Bangkok.`;
-        
-        generateItinerary(prompt);
-        setLiveTranscript(null);
+            generateItinerary(prompt);
+        }
+        setLivePlanRequest(null);
     }
-  }, [liveTranscript, mode]);
+  }, [livePlanRequest, mode]);
 
 
   return (
@@ -219,7 +444,7 @@ export default function App() {
                 className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.LIVE ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
             >
                 <span className="text-2xl">🎙️</span>
-                <span className="hidden lg:block font-medium">Live Guide</span>
+                <span className="hidden lg:block font-medium">{t('nav.live')}</span>
             </button>
 
             <button 
@@ -227,7 +452,15 @@ export default function App() {
                 className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.PLANNER ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
             >
                 <span className="text-2xl">🗺️</span>
-                <span className="hidden lg:block font-medium">Trip Planner</span>
+                <span className="hidden lg:block font-medium">{t('nav.planner')}</span>
+            </button>
+
+            <button 
+                onClick={() => setMode(AppMode.TRIPS)}
+                className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.TRIPS ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
+            >
+                <span className="text-2xl">🧳</span>
+                <span className="hidden lg:block font-medium">{t('nav.trips')}</span>
             </button>
             
             <button 
@@ -235,13 +468,41 @@ export default function App() {
                 className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.CHAT ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
             >
                 <span className="text-2xl">💬</span>
-                <span className="hidden lg:block font-medium">Local Chat</span>
+                <span className="hidden lg:block font-medium">{t('nav.chat')}</span>
+            </button>
+
+            <button 
+                onClick={() => setMode(AppMode.PHRASEBOOK)}
+                className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.PHRASEBOOK ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
+            >
+                <span className="text-2xl">📖</span>
+                <span className="hidden lg:block font-medium">{t('nav.phrasebook')}</span>
+            </button>
+
+            <button 
+                onClick={() => setMode(AppMode.SETTINGS)}
+                className={`flex-1 md:flex-none p-4 md:px-6 md:py-4 flex items-center gap-4 transition-all duration-300 ${mode === AppMode.SETTINGS ? 'bg-indigo-800/50 text-amber-400 border-l-4 border-amber-400' : 'hover:bg-indigo-800/30 text-indigo-300'}`}
+            >
+                <span className="text-2xl">⚙️</span>
+                <span className="hidden lg:block font-medium">{t('nav.settings')}</span>
             </button>
         </div>
         
-        <div className="hidden md:block mt-auto p-6 opacity-50">
+        <div className="hidden md:block mt-auto px-4 lg:px-6 pt-6">
+            <label className="sr-only" htmlFor="app-language">{t('settings.language')}</label>
+            <select
+                id="app-language"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="w-full px-2 py-2 bg-indigo-800/50 border border-indigo-700 rounded-lg text-indigo-100 text-sm focus:ring-2 focus:ring-amber-400 outline-none"
+            >
+                {LOCALES.map(info => <option key={info.code} value={info.code}>{info.name}</option>)}
+            </select>
+        </div>
+
+        <div className="hidden md:block p-6 opacity-50">
              <img src="/flat-gabriel.svg" className="w-16 h-16 mx-auto mb-2 grayscale opacity-50" />
-             <p className="text-xs text-center font-light text-indigo-300">Powered by Gemini 2.5</p>
+             <p className="text-xs text-center font-light text-indigo-300">{t('nav.poweredBy')}</p>
         </div>
       </nav>
 
@@ -252,8 +513,8 @@ export default function App() {
             <div className="h-full flex flex-col">
                 {/* Header */}
                 <header className="p-8 pb-0">
-                    <h1 className="text-4xl font-bold text-indigo-950 mb-2">Create Your Journey</h1>
-                    <p className="text-slate-500 font-light">Discover Thailand with AI-powered personalized itineraries.</p>
+                    <h1 className="text-4xl font-bold text-indigo-950 mb-2">{t('planner.title')}</h1>
+                    <p className="text-slate-500 font-light">{t('planner.subtitle')}</p>
                 </header>
 
                 {/* Split View: Inputs/Result & Map */}
@@ -262,28 +523,22 @@ export default function App() {
                     {/* Left Column: Controls & Text Results */}
                     <div className="flex-1 flex flex-col gap-6 overflow-y-auto pr-2 lg:max-w-2xl">
                         <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-4 transition-all hover:shadow-md">
-                            <div>
-                                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Destination</label>
-                                <div className="relative">
-                                    <select 
-                                        value={destination} 
-                                        onChange={(e) => setDestination(e.target.value)}
-                                        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none appearance-none text-lg font-medium text-indigo-900"
-                                    >
-                                        {CITIES.map(c => <option key={c} value={c}>{c}</option>)}
-                                    </select>
-                                    <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">▼</div>
-                                </div>
-                            </div>
-                            <div>
-                                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Interests</label>
+                            <TripBuilder value={tripRequest} onChange={setTripRequest} />
+                            <div className="md:col-span-2">
+                                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('planner.interests')}</label>
                                 <input 
                                     type="text"
-                                    placeholder="e.g. Spicy food, Old temples"
+                                    placeholder={t('planner.interestsPlaceholder')}
                                     value={interests}
                                     onChange={(e) => setInterests(e.target.value)}
                                     className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-lg"
                                 />
+                                <button
+                                    onClick={() => setMode(AppMode.SETTINGS)}
+                                    className="mt-2 text-xs text-slate-400 hover:text-indigo-600 transition-colors"
+                                >
+                                    👤 {hasTravelerProfile(loadTravelerProfile()) ? t('planner.profileUsed') : t('planner.profileMissing')}
+                                </button>
                             </div>
                             
                             <div className="md:col-span-2 pt-2 flex items-center gap-4">
@@ -298,20 +553,30 @@ export default function App() {
                                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                                             </svg>
-                                            <span>Somsri is Thinking...</span>
+                                            <span>{t('planner.thinking')}</span>
                                         </>
                                     ) : (
                                         <>
                                             <span className="text-xl">✨</span>
-                                            <span>Generate Plan</span>
+                                            <span>{t('planner.generate')}</span>
                                         </>
                                     )}
                                 </button>
+
+                                {loading && (
+                                    <button
+                                        onClick={handleCancelGeneration}
+                                        className="p-4 rounded-xl border bg-white border-slate-200 text-slate-500 hover:bg-red-50 hover:text-red-600 hover:border-red-200 font-medium transition-all"
+                                        title={t('planner.cancelTitle')}
+                                    >
+                                        {t('common.cancel')}
+                                    </button>
+                                )}
                                 
                                 <button 
                                     onClick={() => setUseComplexThinking(!useComplexThinking)}
                                     className={`p-4 rounded-xl border transition-all ${useComplexThinking ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-400 hover:bg-slate-50'}`}
-                                    title="Enable Deep Thinking Mode"
+                                    title={t('planner.deepThinking')}
                                 >
                                     🧠
                                 </button>
@@ -320,11 +585,27 @@ export default function App() {
 
                         {itinerary && (
                             <div className="animate-slide-up pb-10">
+                                {currentRouteInfo && !loading && <RouteTimeline stops={selectedRouteStops} legs={currentRouteInfo.legs} />}
+                                {!loading && (
+                                    <CostSheet
+                                        itinerary={itinerary.itinerary}
+                                        travelers={tripTravelers(tripRequest)}
+                                        budgetTHB={tripRequest.budgetTHB}
+                                        onChange={updateItinerary}
+                                    />
+                                )}
                                 <ItineraryResult 
                                     content={itinerary.text} 
+                                    itinerary={itinerary.itinerary}
                                     groundingChunks={itinerary.groundingChunks} 
+                                    isStreaming={loading}
+                                    selectedDay={selectedDay}
+                                    onSelectDay={setSelectedDay}
                                     onPlaceUpdate={handlePlaceUpdate}
                                     onSave={handleSaveItinerary}
+                                    onToggleStopFixed={handleToggleStopFixed}
+                                    routePaths={routePaths}
+                                    onShare={handleShare}
                                 />
                             </div>
                         )}
@@ -333,56 +614,116 @@ export default function App() {
                     {/* Right Column: Map View */}
                     <div className="hidden lg:block flex-1 bg-white rounded-3xl shadow-inner border border-slate-200 overflow-hidden relative group">
                         <gmp-map ref={mapRef} center="13.7563, 100.5018" zoom="12" map-id="DEMO_MAP_ID"></gmp-map>
+
+                        {/* Day Picker: the map shows one day's route at a time */}
+                        {itinerary && itinerary.itinerary.days.length > 1 && (
+                            <div className="absolute bottom-6 left-6 right-6 z-10 flex gap-2 overflow-x-auto pb-1">
+                                {itinerary.itinerary.days.map(day => (
+                                    <button
+                                        key={day.day}
+                                        onClick={() => setSelectedDay(day.day)}
+                                        className={`shrink-0 px-3 py-2 rounded-xl text-xs font-bold shadow-lg border transition-all ${selectedDay === day.day ? 'bg-indigo-900 text-amber-400 border-indigo-900' : 'bg-white/95 text-indigo-900 border-slate-100 hover:bg-indigo-50'}`}
+                                    >
+                                        {t('common.day', { day: day.day })}{day.city ? ` · ${day.city}` : ''}{day.transfer ? ` ${TRANSFER_ICONS[day.transfer.mode]}` : ''}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         
                         {/* Route Info Card */}
-                        {routeInfo && (
+                        {currentRouteInfo && (
                             <div className="absolute top-6 left-6 right-6 bg-white/95 backdrop-blur-xl p-4 rounded-2xl shadow-2xl border border-indigo-100 animate-fade-in z-10 flex justify-between items-center">
                                 <div className="flex gap-6">
                                     <div>
-                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">Distance</div>
-                                        <div className="text-xl font-bold text-indigo-900">{routeInfo.distance}</div>
+                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">{t('map.distance')}</div>
+                                        <div className="text-xl font-bold text-indigo-900">{currentRouteInfo.distance}</div>
                                     </div>
                                     <div className="w-px bg-slate-200"></div>
                                     <div>
-                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">Duration</div>
-                                        <div className="text-xl font-bold text-indigo-900">{routeInfo.duration}</div>
+                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">{t('map.duration')}</div>
+                                        <div className="text-xl font-bold text-indigo-900">{currentRouteInfo.duration}</div>
                                     </div>
                                     <div className="w-px bg-slate-200"></div>
                                     <div>
-                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">Stops</div>
-                                        <div className="text-xl font-bold text-indigo-900">{routeInfo.stops}</div>
+                                        <div className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-1">{t('map.stops')}</div>
+                                        <div className="text-xl font-bold text-indigo-900">{selectedRouteStops.length}</div>
                                     </div>
                                 </div>
-                                <div className="text-amber-500 bg-amber-50 p-2 rounded-lg">
-                                    🚗
+                                <button
+                                    onClick={handleOptimizeRoute}
+                                    disabled={optimizingRoute}
+                                    className="shrink-0 text-xs font-bold text-indigo-900 bg-amber-50 hover:bg-amber-100 border border-amber-200 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+                                    title={t('map.optimizeTitle')}
+                                >
+                                    {optimizingRoute ? t('map.optimizing') : `🚗 ${t('map.optimize')}`}
+                                </button>
+                            </div>
+                        )}
+
+                        {/* Optimization result: travel time before and after */}
+                        {routeOptimization && routeOptimization.day === selectedDay && (
+                            <div className="absolute top-28 left-6 right-6 bg-emerald-50/95 backdrop-blur-xl px-4 py-3 rounded-2xl shadow-lg border border-emerald-100 animate-fade-in z-10 flex justify-between items-center text-sm">
+                                {routeOptimization.afterSeconds < routeOptimization.beforeSeconds ? (
+                                    <span className="text-emerald-900">
+                                        <span className="font-bold">{t('map.optimizeSaved', { time: formatDuration((routeOptimization.beforeSeconds - routeOptimization.afterSeconds) / 60) })}</span>
+                                        {' '}· {formatDuration(routeOptimization.beforeSeconds / 60)} → {formatDuration(routeOptimization.afterSeconds / 60)}
+                                    </span>
+                                ) : routeOptimization.reordered ? (
+                                    <span className="text-emerald-900">{t('map.optimizeReordered', { before: formatDuration(routeOptimization.beforeSeconds / 60), after: formatDuration(routeOptimization.afterSeconds / 60) })}</span>
+                                ) : (
+                                    <span className="text-emerald-900">{t('map.optimizeQuickest', { time: formatDuration(routeOptimization.beforeSeconds / 60) })}</span>
+                                )}
+                                <div className="flex gap-3 shrink-0">
+                                    {routeOptimization.reordered && (
+                                        <button onClick={handleUndoOptimization} className="text-xs font-bold text-emerald-800 hover:text-emerald-950 underline">{t('common.undo')}</button>
+                                    )}
+                                    <button onClick={() => setRouteOptimization(null)} className="text-emerald-700 hover:text-emerald-950" title={t('common.dismiss')}>✕</button>
                                 </div>
                             </div>
                         )}
 
-                        <div className="absolute bottom-6 left-6 right-6 bg-white/90 backdrop-blur-md p-4 rounded-2xl shadow-lg border border-slate-100 transition-all opacity-100 group-hover:opacity-0 pointer-events-none">
-                            <p className="text-xs text-slate-500 font-medium uppercase tracking-wider mb-1">Map View</p>
-                            <p className="text-indigo-900 font-semibold">Explore suggested locations</p>
-                        </div>
+                        {!itinerary && (
+                            <div className="absolute bottom-6 left-6 right-6 bg-white/90 backdrop-blur-md p-4 rounded-2xl shadow-lg border border-slate-100 transition-all opacity-100 group-hover:opacity-0 pointer-events-none">
+                                <p className="text-xs text-slate-500 font-medium uppercase tracking-wider mb-1">{t('map.placeholderLabel')}</p>
+                                <p className="text-indigo-900 font-semibold">{t('map.placeholderHint')}</p>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
         )}
 
+        {mode === AppMode.TRIPS && (
+            <div className="max-w-3xl mx-auto h-full overflow-y-auto p-4 md:p-8">
+                <header className="mb-6">
+                    <h1 className="text-3xl font-bold text-indigo-900">{t('trips.title')}</h1>
+                    <p className="text-slate-500 mt-2">{t('trips.subtitle')}</p>
+                </header>
+                <MyTrips onOpen={handleOpenTrip} onImport={(shared) => openPlan(shared, null)} />
+            </div>
+        )}
+
         {mode === AppMode.CHAT && (
-            <div className="max-w-3xl mx-auto h-full flex flex-col justify-center p-4 md:p-8">
+            <div className="max-w-5xl mx-auto h-full flex flex-col justify-center p-4 md:p-8">
                  <header className="mb-6 text-center">
-                    <h1 className="text-3xl font-bold text-indigo-900">Ask Somsri</h1>
-                    <p className="text-slate-500 mt-2">Your personal cultural expert for etiquette, bargaining, and hidden gems.</p>
+                    <h1 className="text-3xl font-bold text-indigo-900">{t('chat.title')}</h1>
+                    <p className="text-slate-500 mt-2">{t('chat.subtitle')}</p>
                 </header>
-                <ChatBot />
+                <ChatBot
+                    itinerary={itinerary?.itinerary}
+                    onItineraryEdit={handleChatPlanEdit}
+                    undoableReplyId={undoableChatReplyId}
+                    onUndoPlanEdits={handleUndoChatEdit}
+                    onViewPlan={() => setMode(AppMode.PLANNER)}
+                />
             </div>
         )}
 
         {mode === AppMode.LIVE && (
             <div className="max-w-md mx-auto h-full flex flex-col justify-center p-4">
                 <header className="mb-8 text-center">
-                    <h1 className="text-3xl font-bold text-indigo-900 mb-2">Live Voice Guide</h1>
-                    <p className="text-slate-500">Real-time conversation with your AI companion.</p>
+                    <h1 className="text-3xl font-bold text-indigo-900 mb-2">{t('live.title')}</h1>
+                    <p className="text-slate-500">{t('live.subtitle')}</p>
                 </header>
                 <LiveSession 
                     onClose={() => setMode(AppMode.PLANNER)} 
@@ -391,6 +732,26 @@ export default function App() {
             </div>
         )}
 
+        {mode === AppMode.PHRASEBOOK && (
+            <div className="max-w-3xl mx-auto h-full overflow-y-auto p-4 md:p-8">
+                <header className="mb-6">
+                    <h1 className="text-3xl font-bold text-indigo-900">{t('phrasebook.title')}</h1>
+                    <p className="text-slate-500 mt-2">{t('phrasebook.subtitle')}</p>
+                </header>
+                <Phrasebook />
+            </div>
+        )}
+
+        {mode === AppMode.SETTINGS && (
+            <div className="max-w-3xl mx-auto h-full overflow-y-auto p-4 md:p-8">
+                <header className="mb-6">
+                    <h1 className="text-3xl font-bold text-indigo-900">{t('settings.title')}</h1>
+                    <p className="text-slate-500 mt-2">{t('settings.subtitle')}</p>
+                </header>
+                <Settings />
+            </div>
+        )}
+
       </main>
     </div>
   );
@@ -1,105 +1,422 @@
-
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
+import { ChatMessage, Conversation, Itinerary } from '../types';
 import { createChatSession } from '../services/geminiService';
-import { Chat } from '@google/genai';
+import { ChatTools, ChatTurn, ProviderChat } from '../services/providers/types';
+import { ITINERARY_TOOL_DECLARATIONS, applyItineraryTool, describeItineraryForTool } from '../services/itineraryTools';
+import { conversationHistory, deleteConversation, listConversations, renameConversation, saveConversation } from '../services/chatStorage';
+import { useI18n } from './I18nProvider';
+import Markdown from './Markdown';
+
+// Shown at the top of every thread; not part of the stored conversation
+const GREETING_ID = 'greeting';
+
+// One change Somsri made to the open plan while writing a reply
+export interface PlanEdit {
+  replyId: string;
+  before: Itinerary;
+  after: Itinerary;
+  summary: string;
+}
+
+interface ChatBotProps {
+  itinerary?: Itinerary | null; // The plan open in the planner, which Somsri can edit
+  onItineraryEdit?: (edit: PlanEdit) => void;
+  // Reply whose plan edits can still be undone, and how
+  undoableReplyId?: string | null;
+  onUndoPlanEdits?: (replyId: string) => void;
+  onViewPlan?: () => void;
+}
 
-const ChatBot: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', role: 'model', text: "Sawasdee ka! I am Somsri. Ask me anything about Thai customs, food, or basic phrases!" }
-  ]);
+const ChatBot: React.FC<ChatBotProps> = ({ itinerary, onItineraryEdit, undoableReplyId, onUndoPlanEdits, onViewPlan }) => {
+  const { locale, info, t } = useI18n();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null); // null: a new thread, saved on its first message
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingRef = useRef<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const chatSession = useRef<Chat | null>(null);
+  const chatSession = useRef<ProviderChat | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Tool calls read and edit these rather than props, so several edits in one reply build on each other
+  const itineraryRef = useRef<Itinerary | null>(itinerary ?? null);
+  const replyEditsRef = useRef<{ replyId: string; summaries: string[] } | null>(null);
+  // The session keeps the tools it was created with, so they call the latest callback through this
+  const onItineraryEditRef = useRef(onItineraryEdit);
 
   useEffect(() => {
-    chatSession.current = createChatSession();
+    itineraryRef.current = itinerary ?? null;
+  }, [itinerary]);
+
+  useEffect(() => {
+    onItineraryEditRef.current = onItineraryEdit;
+  }, [onItineraryEdit]);
+
+  const itineraryTools: ChatTools = {
+    declarations: ITINERARY_TOOL_DECLARATIONS,
+    execute: async (name, args) => {
+      const current = itineraryRef.current;
+      if (!current) throw new Error("The traveler has no trip plan open. Suggest creating one in the Trip Planner.");
+      if (name === 'get_itinerary') return describeItineraryForTool(current);
+      const edits = replyEditsRef.current;
+      if (!edits) throw new Error("The plan can only be changed while answering the traveler.");
+      const { itinerary: after, change } = applyItineraryTool(current, name, args);
+      const summary = t(change.key, change.params);
+      itineraryRef.current = after;
+      edits.summaries.push(summary);
+      onItineraryEditRef.current?.({ replyId: edits.replyId, before: current, after, summary });
+      return { ok: true, summary };
+    },
+  };
+
+  // Only chats that can reach the planner get the plan tools
+  const newSession = (history: ChatTurn[] = []) => createChatSession(history, onItineraryEdit ? itineraryTools : undefined, locale);
+
+  const refreshConversations = async () => {
+    try {
+      const list = await listConversations();
+      setConversations(list);
+      return list;
+    } catch (e) {
+      console.error("Failed to load conversations", e);
+      return [];
+    }
+  };
+
+  const startNewChat = () => {
+    setActiveId(null);
+    setMessages([]);
+    chatSession.current = newSession();
+  };
+
+  // Rebuilds the model chat from the stored turns so Somsri remembers the thread
+  const openConversation = (conversation: Conversation) => {
+    setActiveId(conversation.id);
+    setMessages(conversation.messages);
+    chatSession.current = newSession(conversationHistory(conversation.messages));
+  };
+
+  // Pick up the most recent thread, so switching tabs never loses a conversation
+  useEffect(() => {
+    refreshConversations().then(list => list[0] ? openConversation(list[0]) : startNewChat());
   }, []);
 
+  // Somsri answers in the new language from the next message on
+  useEffect(() => {
+    if (chatSession.current && !loading) chatSession.current = newSession(conversationHistory(messages));
+  }, [locale]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(scrollToBottom, [messages]);
 
+  const persist = async (thread: ChatMessage[], conversationId: string | null): Promise<string | null> => {
+    try {
+      const saved = await saveConversation(thread, conversationId ?? undefined);
+      refreshConversations();
+      return saved.id;
+    } catch (err) {
+      console.error("Failed to save conversation", err);
+      return conversationId;
+    }
+  };
+
+  /**
+   * Streams Somsri's answer to the last (user) message of `thread` into an isThinking
+   * placeholder, then stores the finished thread. It keeps going (and saving) if the tab changes.
+   */
+  const streamReply = async (thread: ChatMessage[], session: ProviderChat, conversationId: string | null) => {
+    const question = thread[thread.length - 1];
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    const replyId = `${Date.now()}-reply`;
+    const edits = { replyId, summaries: [] as string[] };
+    replyEditsRef.current = edits;
+    let text = '';
+    const planEdits = () => edits.summaries.length ? [...edits.summaries] : undefined;
+    setMessages([...thread, { id: replyId, role: 'model', text, isThinking: true }]);
+    setLoading(true);
+
+    let reply: ChatMessage;
+    try {
+      for await (const delta of session.sendMessageStream(question.text, controller.signal)) {
+        if (controller.signal.aborted) break;
+        text += delta;
+        setMessages([...thread, { id: replyId, role: 'model', text, isThinking: true, planEdits: planEdits() }]);
+      }
+      reply = controller.signal.aborted && !text
+        ? { id: replyId, role: 'model', text: t('chat.stopped'), isError: true }
+        : { id: replyId, role: 'model', text: text || t('chat.noAnswer') };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Keep whatever was written before Stop
+        reply = text
+          ? { id: replyId, role: 'model', text }
+          : { id: replyId, role: 'model', text: t('chat.stopped'), isError: true };
+      } else {
+        console.error(err);
+        reply = { id: replyId, role: 'model', text: t('chat.error'), isError: true };
+      }
+    }
+
+    // Edits already made stay in the plan (and undoable) even if the reply then failed
+    reply.planEdits = planEdits();
+    replyEditsRef.current = null;
+    const finished = [...thread, reply];
+    setMessages(finished);
+    setLoading(false);
+    replyAbortRef.current = null;
+    // A stopped or failed exchange may be half-recorded by the model chat, so start it over from what we show
+    if ((controller.signal.aborted || reply.isError) && chatSession.current === session) {
+      chatSession.current = newSession(conversationHistory(finished));
+    }
+    await persist(finished, conversationId);
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !chatSession.current) return;
+    if (!input.trim() || !chatSession.current || loading) return;
 
     const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    const thread = [...messages, userMsg];
+    const session = chatSession.current;
+    setMessages(thread);
     setInput('');
     setLoading(true);
 
+    // Store the question right away so it survives leaving the tab mid-reply
+    const conversationId = await persist(thread, activeId);
+    setActiveId(conversationId);
+    await streamReply(thread, session, conversationId);
+  };
+
+  const handleStop = () => {
+    replyAbortRef.current?.abort();
+  };
+
+  // Answers the thread's last question again in a fresh chat that has only the turns before it
+  const askAgain = (thread: ChatMessage[]) => {
+    const session = newSession(conversationHistory(thread.slice(0, -1)));
+    chatSession.current = session;
+    streamReply(thread, session, activeId);
+  };
+
+  // Retry: drop the failed reply and ask the same question again
+  const handleRetry = () => {
+    if (loading || !messages[messages.length - 1]?.isError) return;
+    askAgain(messages.slice(0, -1));
+  };
+
+  // Regenerate: replace the last reply with a new answer to the same question
+  const handleRegenerate = () => {
+    const last = messages[messages.length - 1];
+    if (loading || last?.role !== 'model' || messages[messages.length - 2]?.role !== 'user') return;
+    askAgain(messages.slice(0, -1));
+  };
+
+  const startRename = (conversation: Conversation) => {
+    editingRef.current = conversation.id;
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  // Enter commits, and the blur that follows must not commit a second time
+  const stopEditing = () => {
+    editingRef.current = null;
+    setEditingId(null);
+  };
+
+  const commitRename = async () => {
+    const id = editingRef.current;
+    const title = editTitle.trim();
+    stopEditing();
+    if (!id || !title) return;
     try {
-      const response = await chatSession.current.sendMessage({ message: userMsg.text });
-      const modelMsg: ChatMessage = { 
-        id: (Date.now() + 1).toString(), 
-        role: 'model', 
-        text: response.text || "I'm sorry, I couldn't understand that."
-      };
-      setMessages(prev => [...prev, modelMsg]);
-    } catch (err) {
-      console.error(err);
-      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: "Sorry, I had trouble connecting. Please try again." }]);
-    } finally {
-      setLoading(false);
+      await renameConversation(id, title);
+    } catch (e) {
+      console.error("Failed to rename conversation", e);
+      alert(t('chat.renameFailed'));
+    }
+    await refreshConversations();
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(t('trips.confirmDelete', { name: conversation.title }))) return;
+    try {
+      await deleteConversation(conversation.id);
+    } catch (e) {
+      console.error("Failed to delete conversation", e);
+      alert(t('chat.deleteFailed'));
+      return;
+    }
+    const list = await refreshConversations();
+    if (conversation.id === activeId) {
+      if (list[0]) openConversation(list[0]);
+      else startNewChat();
     }
   };
 
+  const greeting: ChatMessage = { id: GREETING_ID, role: 'model', text: t('chat.greeting') };
+
   return (
-    <div className="flex flex-col h-[600px] bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
-      <div className="bg-indigo-600 p-4 text-white font-semibold flex items-center gap-3">
-         <div className="w-10 h-10 rounded-full border-2 border-white overflow-hidden bg-white">
-            <img src="/flat-gabriel.svg" alt="Somsri" className="w-full h-full object-cover" />
-         </div>
-         <div>
-             <div className="font-bold">Somsri</div>
-             <div className="text-xs text-indigo-200 font-normal">AI Local Guide</div>
-         </div>
-      </div>
-      
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50">
-        {messages.map(msg => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[80%] p-3 rounded-2xl text-sm ${
-              msg.role === 'user' 
-                ? 'bg-indigo-600 text-white rounded-br-none' 
-                : 'bg-white text-slate-800 border border-slate-200 rounded-bl-none shadow-sm'
-            }`}>
-              {msg.text}
-            </div>
-          </div>
-        ))}
-        {loading && (
-           <div className="flex justify-start">
-            <div className="bg-white p-3 rounded-2xl rounded-bl-none border border-slate-200 shadow-sm flex gap-1">
-                <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></span>
-                <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></span>
-                <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></span>
-            </div>
+    <div className="flex h-[600px] bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden">
+      {/* Conversation list */}
+      <aside className="hidden md:flex w-60 shrink-0 flex-col border-r border-slate-100 bg-white">
+        <div className="p-3 border-b border-slate-100">
+          <button
+            onClick={startNewChat}
+            disabled={loading}
+            className="w-full py-2 rounded-lg bg-amber-50 text-indigo-900 text-sm font-semibold border border-amber-200 hover:bg-amber-100 disabled:opacity-50 transition-colors"
+          >
+            {t('chat.newChat')}
+          </button>
+        </div>
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {conversations.map(conversation => (
+            <li
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-lg ${conversation.id === activeId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') stopEditing();
+                  }}
+                  className="flex-1 min-w-0 m-1 px-2 py-1 border border-amber-300 rounded-md outline-none focus:ring-2 focus:ring-amber-400 text-sm text-indigo-900"
+                />
+              ) : (
+                <button
+                  onClick={() => openConversation(conversation)}
+                  disabled={loading}
+                  className="flex-1 min-w-0 text-left px-3 py-2 disabled:cursor-not-allowed"
+                >
+                  <div className={`text-sm truncate ${conversation.id === activeId ? 'font-semibold text-indigo-900' : 'text-slate-700'}`}>{conversation.title}</div>
+                  <div className="text-[10px] text-slate-400">{new Date(conversation.updatedAt).toLocaleDateString(info.tag)}</div>
+                </button>
+              )}
+              {editingId !== conversation.id && (
+                <div className="flex shrink-0 pr-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => startRename(conversation)} className="p-1 text-xs text-slate-400 hover:text-indigo-600" title={t('trips.rename')}>✏️</button>
+                  <button onClick={() => handleDelete(conversation)} disabled={loading} className="p-1 text-xs text-slate-400 hover:text-red-500" title={t('trips.delete')}>🗑️</button>
+                </div>
+              )}
+            </li>
+          ))}
+          {conversations.length === 0 && (
+            <li className="px-3 py-2 text-xs text-slate-400 italic">{t('chat.emptyList')}</li>
+          )}
+        </ul>
+      </aside>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="bg-indigo-600 p-4 text-white font-semibold flex items-center gap-3">
+           <div className="w-10 h-10 rounded-full border-2 border-white overflow-hidden bg-white">
+              <img src="/flat-gabriel.svg" alt="Somsri" className="w-full h-full object-cover" />
            </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+           <div>
+               <div className="font-bold">Somsri</div>
+               <div className="text-xs text-indigo-200 font-normal">{t('chat.role')}</div>
+           </div>
+           <button
+             onClick={startNewChat}
+             disabled={loading}
+             className="md:hidden ml-auto px-3 py-1 rounded-full bg-indigo-500 text-xs font-medium hover:bg-indigo-400 disabled:opacity-50"
+           >
+             {t('chat.newChat')}
+           </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50">
+          {[greeting, ...messages].map((msg, i) => {
+            const isLast = i === messages.length; // GREETING shifts indices by one
+            if (msg.isThinking && !msg.text) {
+              return (
+                <div key={msg.id} className="flex justify-start">
+                  <div className="bg-white p-3 rounded-2xl rounded-bl-none border border-slate-200 shadow-sm flex gap-1">
+                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></span>
+                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></span>
+                      <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></span>
+                  </div>
+                </div>
+              );
+            }
+            return (
+              <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <div className={`max-w-[80%] p-3 rounded-2xl text-sm ${
+                  msg.role === 'user'
+                    ? 'bg-indigo-600 text-white rounded-br-none'
+                    : msg.isError
+                      ? 'bg-red-50 text-red-700 border border-red-100 rounded-bl-none'
+                      : 'bg-white text-slate-800 border border-slate-200 rounded-bl-none shadow-sm'
+                }`}>
+                  {msg.role === 'model' ? <Markdown source={msg.text} variant="chat" /> : msg.text}
+                  {msg.isThinking && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse"></span>}
+                </div>
+                {msg.planEdits && (
+                  <div className="max-w-[80%] mt-2 p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-indigo-900">
+                    <div className="flex items-center gap-3 mb-1">
+                      <span className="font-bold uppercase tracking-wider text-amber-700">{t('chat.planUpdated')}</span>
+                      {onViewPlan && (
+                        <button onClick={onViewPlan} className="ml-auto font-medium text-indigo-600 hover:text-indigo-800">{t('chat.viewPlan')}</button>
+                      )}
+                      {!msg.isThinking && msg.id === undoableReplyId && onUndoPlanEdits && (
+                        <button onClick={() => onUndoPlanEdits(msg.id)} className={`${onViewPlan ? '' : 'ml-auto '}font-medium text-red-600 hover:text-red-800`}>{t('common.undo')}</button>
+                      )}
+                    </div>
+                    <ul className="space-y-0.5">
+                      {msg.planEdits.map((summary, j) => <li key={j}>✎ {summary}</li>)}
+                    </ul>
+                  </div>
+                )}
+                {isLast && !loading && msg.isError && (
+                  <button onClick={handleRetry} className="mt-1 ml-1 text-xs font-medium text-red-600 hover:text-red-800">↻ {t('chat.retry')}</button>
+                )}
+                {isLast && !loading && !msg.isError && msg.role === 'model' && msg.id !== greeting.id && (
+                  <button onClick={handleRegenerate} className="mt-1 ml-1 text-xs font-medium text-slate-400 hover:text-indigo-600">↻ {t('chat.regenerate')}</button>
+                )}
+              </div>
+            );
+          })}
+          <div ref={messagesEndRef} />
+        </div>
 
-      <form onSubmit={handleSend} className="p-4 bg-white border-t border-slate-100 flex gap-2">
-        <input 
-          type="text" 
-          value={input}
-          onChange={e => setInput(e.target.value)}
-          placeholder="Ask about 'tuk-tuks' or 'pad thai'..."
-          className="flex-1 px-4 py-2 border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm"
-        />
-        <button 
-          type="submit" 
-          disabled={loading || !input.trim()}
-          className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 transition-colors"
-        >
-          <svg className="w-5 h-5 transform rotate-90" fill="currentColor" viewBox="0 0 20 20"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" /></svg>
-        </button>
-      </form>
+        <form onSubmit={handleSend} className="p-4 bg-white border-t border-slate-100 flex gap-2">
+          <input
+            type="text"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            placeholder={t('chat.placeholder')}
+            className="flex-1 px-4 py-2 border border-slate-300 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm"
+          />
+          {loading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="p-2 bg-slate-700 text-white rounded-full hover:bg-slate-800 transition-colors"
+              title={t('chat.stop')}
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><rect x="5" y="5" width="10" height="10" rx="1.5" /></svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              <svg className="w-5 h-5 transform rotate-90" fill="currentColor" viewBox="0 0 20 20"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" /></svg>
+            </button>
+          )}
+        </form>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Itinerary } from '../types';
+import { COST_CATEGORIES, CostCategory, CostLine, addExtraCost, buildCostSheet, setCostAmount } from '../services/budget';
+import { CURRENCIES, CurrencySettings, DEFAULT_THB_RATES, formatMoney, fromTHB, loadCurrencySettings, saveCurrencySettings } from '../services/currency';
+import { formatCost } from '../services/itinerary';
+import { useI18n } from './I18nProvider';
+
+interface CostSheetProps {
+  itinerary: Itinerary;
+  travelers: number;
+  budgetTHB?: number; // Cap from the planner form, for the whole group
+  onChange: (update: (itinerary: Itinerary) => Itinerary) => void;
+}
+
+const CATEGORY_ICONS: Record<CostCategory, string> = {
+  sights: '🏛️',
+  food: '🍜',
+  transport: '🚆',
+  lodging: '🏨',
+  shopping: '🛍️',
+  other: '🧾',
+};
+
+/**
+ * What the plan costs in baht, per day and per person, with the home-currency equivalent
+ * and a warning when it goes over the budget cap. Every amount can be corrected.
+ */
+const CostSheet: React.FC<CostSheetProps> = ({ itinerary, travelers, budgetTHB, onChange }) => {
+  const { locale, info, t, tn } = useI18n();
+  const [currency, setCurrency] = useState<CurrencySettings>(() => loadCurrencySettings(locale));
+  const [expanded, setExpanded] = useState(false);
+  const [extraLabel, setExtraLabel] = useState('');
+  const [extraAmount, setExtraAmount] = useState('');
+  const [extraDay, setExtraDay] = useState('');
+  const [rateText, setRateText] = useState(() => String(currency.rates[currency.home]));
+
+  const sheet = useMemo(() => buildCostSheet(itinerary, currency.rates, travelers), [itinerary, currency.rates, travelers]);
+  const home = currency.home;
+
+  const updateCurrency = (changes: Partial<CurrencySettings>) => {
+    const next = { ...currency, ...changes };
+    setCurrency(next);
+    saveCurrencySettings(next);
+  };
+
+  const changeHome = (code: string) => {
+    setRateText(String(currency.rates[code]));
+    updateCurrency({ home: code });
+  };
+
+  // Kept as typed so "33." survives until the next digit
+  const handleRate = (text: string) => {
+    setRateText(text);
+    const rate = parseFloat(text);
+    if (rate > 0) updateCurrency({ rates: { ...currency.rates, [home]: rate }, ratesUpdatedAt: new Date().toISOString() });
+  };
+
+  const resetRate = () => {
+    setRateText(String(DEFAULT_THB_RATES[home]));
+    updateCurrency({ rates: { ...currency.rates, [home]: DEFAULT_THB_RATES[home] } });
+  };
+
+  // "฿12,000 (≈ $364)", or just baht when home is baht
+  const money = (thb: number) => {
+    const converted = home === 'THB' ? null : fromTHB(thb, home, currency.rates);
+    const baht = formatMoney(thb, 'THB', locale);
+    return converted === null ? baht : `${baht} (≈ ${formatMoney(converted, home, locale)})`;
+  };
+
+  const handleAmount = (line: CostLine, text: string) => {
+    const amount = text.trim() === '' ? undefined : Math.max(0, parseFloat(text) || 0);
+    onChange(current => setCostAmount(current, line.ref, amount));
+  };
+
+  const handleAddExtra = () => {
+    const label = extraLabel.trim();
+    const amount = parseFloat(extraAmount);
+    if (!label || !(amount >= 0)) return;
+    onChange(current => addExtraCost(current, { label, amount, day: extraDay ? parseInt(extraDay, 10) : undefined }));
+    setExtraLabel('');
+    setExtraAmount('');
+  };
+
+  const overBy = budgetTHB ? sheet.group - budgetTHB : 0;
+  const usedPercent = budgetTHB ? Math.min(100, Math.round(sheet.group / budgetTHB * 100)) : 0;
+  const groups = [
+    ...itinerary.days.map(day => ({ key: `d${day.day}`, title: `${t('common.day', { day: day.day })}${day.city ? ` · ${day.city}` : ''}`, day: day.day as number | undefined })),
+    { key: 'trip', title: t('budget.wholeTrip'), day: undefined },
+  ].map(group => ({ ...group, lines: sheet.lines.filter(line => line.day === group.day) }))
+    .filter(group => group.lines.length > 0);
+
+  const renderLine = (line: CostLine) => {
+    const converted = line.cost && line.cost.currency !== 'THB';
+    return (
+      <li key={line.ref.kind === 'stop' ? line.ref.stopId : line.ref.kind === 'transfer' ? `t${line.ref.day}` : line.ref.id} className="flex items-center gap-3 py-1.5">
+        <span className="shrink-0 w-6 text-center" title={t(`budget.category.${line.category}`)}>{CATEGORY_ICONS[line.category]}</span>
+        <span className="flex-1 min-w-0 text-sm text-slate-700 truncate" title={line.cost?.note}>{line.label}</span>
+        {converted && <span className="shrink-0 text-xs text-slate-400">{formatCost(line.cost!.amount, line.cost!.currency)}</span>}
+        <div className="relative shrink-0">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-slate-400">฿</span>
+          <input
+            type="number"
+            min={0}
+            value={line.thb === undefined ? '' : Math.round(line.thb)}
+            placeholder="—"
+            onChange={(e) => handleAmount(line, e.target.value)}
+            className="w-24 p-1.5 pl-5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-right tabular-nums outline-none focus:ring-2 focus:ring-amber-400"
+            title={t('budget.perPersonHint')}
+          />
+        </div>
+        {line.ref.kind === 'extra' ? (
+          <button onClick={() => handleAmount(line, '')} className="shrink-0 w-5 text-slate-300 hover:text-red-500" title={t('budget.removeCost')}>✕</button>
+        ) : <span className="shrink-0 w-5" />}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-indigo-100/50 p-6 border border-slate-100 mb-6 animate-fade-in">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+                <h3 className="font-bold text-indigo-900 text-lg">💰 {t('budget.title')}</h3>
+                <p className="text-xs text-slate-400">
+                    {t('budget.estimate')}
+                    {sheet.unpriced > 0 && <span> · {tn('budget.unpriced', sheet.unpriced)}</span>}
+                </p>
+            </div>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+            >
+                {expanded ? t('budget.hide') : t('budget.edit')}
+            </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+            <div>
+                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('budget.perPerson')}</div>
+                <div className="font-semibold text-indigo-900">{money(sheet.perPerson)}</div>
+            </div>
+            <div>
+                <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{tn('budget.group', travelers)}</div>
+                <div className="font-semibold text-indigo-900">{money(sheet.group)}</div>
+            </div>
+        </div>
+
+        {budgetTHB && (
+            <div className="mt-4">
+                <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                    <div className={`h-full rounded-full ${overBy > 0 ? 'bg-rose-500' : 'bg-emerald-500'}`} style={{ width: `${usedPercent}%` }}></div>
+                </div>
+                {overBy > 0 ? (
+                    <div className="mt-3 px-4 py-3 rounded-xl bg-rose-50 border border-rose-100 text-sm text-rose-800">
+                        ⚠️ {t('budget.over', { amount: money(overBy), cap: formatMoney(budgetTHB, 'THB', locale) })}
+                    </div>
+                ) : (
+                    <p className="mt-1 text-xs text-emerald-600">{t('budget.left', { amount: money(-overBy), cap: formatMoney(budgetTHB, 'THB', locale) })}</p>
+                )}
+            </div>
+        )}
+
+        {sheet.missingRates.length > 0 && (
+            <p className="mt-3 text-xs text-amber-700">⚠️ {t('budget.missingRates', { currencies: sheet.missingRates.join(', ') })}</p>
+        )}
+
+        {expanded && (
+            <div className="mt-5 space-y-5">
+                <div className="flex flex-wrap gap-2">
+                    {COST_CATEGORIES.filter(c => sheet.byCategory[c] > 0).map(c => (
+                        <span key={c} className="px-3 py-1 rounded-full bg-slate-50 border border-slate-100 text-xs text-slate-600">
+                            {CATEGORY_ICONS[c]} {t(`budget.category.${c}`)} · {formatMoney(sheet.byCategory[c], 'THB', locale)}
+                        </span>
+                    ))}
+                </div>
+
+                {groups.map(group => {
+                    const subtotal = group.day === undefined ? sheet.tripWideTotal : sheet.dayTotals.find(d => d.day === group.day)?.perPerson ?? 0;
+                    return (
+                        <div key={group.key}>
+                            <div className="flex items-baseline justify-between border-b border-slate-100 pb-1 mb-1">
+                                <h4 className="text-sm font-bold text-indigo-900">{group.title}</h4>
+                                <span className="text-xs text-slate-500 tabular-nums">{t('budget.dayTotal', { amount: money(subtotal) })}</span>
+                            </div>
+                            <ul>{group.lines.map(renderLine)}</ul>
+                        </div>
+                    );
+                })}
+
+                <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-100">
+                    <input
+                        type="text"
+                        placeholder={t('budget.extraLabel')}
+                        value={extraLabel}
+                        onChange={(e) => setExtraLabel(e.target.value)}
+                        className="flex-1 min-w-[8rem] p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-amber-400"
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder="฿"
+                        value={extraAmount}
+                        onChange={(e) => setExtraAmount(e.target.value)}
+                        className="w-24 p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-right outline-none focus:ring-2 focus:ring-amber-400"
+                    />
+                    <select
+                        value={extraDay}
+                        onChange={(e) => setExtraDay(e.target.value)}
+                        className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600 outline-none focus:ring-2 focus:ring-amber-400"
+                    >
+                        <option value="">{t('budget.wholeTrip')}</option>
+                        {itinerary.days.map(day => <option key={day.day} value={day.day}>{t('common.day', { day: day.day })}</option>)}
+                    </select>
+                    <button
+                        onClick={handleAddExtra}
+                        disabled={!extraLabel.trim() || extraAmount === ''}
+                        className="px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-40"
+                    >
+                        + {t('budget.addCost')}
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-slate-500">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('budget.homeCurrency')}</span>
+                    <select
+                        value={home}
+                        onChange={(e) => changeHome(e.target.value)}
+                        className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-amber-400"
+                    >
+                        {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                    {home !== 'THB' && (
+                        <>
+                            <span>1 {home} = ฿</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={rateText}
+                                onChange={(e) => handleRate(e.target.value)}
+                                className="w-24 p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-right outline-none focus:ring-2 focus:ring-amber-400"
+                            />
+                            {currency.rates[home] !== DEFAULT_THB_RATES[home] && (
+                                <button
+                                    onClick={resetRate}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                                >
+                                    {t('budget.resetRate')}
+                                </button>
+                            )}
+                        </>
+                    )}
+                    <span className="w-full text-xs text-slate-400">
+                        {currency.ratesUpdatedAt
+                            ? t('budget.rateUpdated', { date: new Date(currency.ratesUpdatedAt).toLocaleDateString(info.tag) })
+                            : t('budget.rateDefault')}
+                    </span>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default CostSheet;
@@ -0,0 +1,48 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, LocaleInfo, MessageKey, MessageParams, PluralKey, loadLocale, localeInfo, saveLocale, translate, translatePlural } from '../services/i18n';
+
+interface I18nValue {
+  locale: Locale;
+  info: LocaleInfo;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tn: (key: PluralKey, count: number, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nValue>({
+  locale: 'en',
+  info: localeInfo('en'),
+  setLocale: () => {},
+  t: (key, params) => translate('en', key, params),
+  tn: (key, count, params) => translatePlural('en', key, count, params),
+});
+
+/**
+ * Holds the UI language (saved, or detected from the browser) for everything below it.
+ */
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = localeInfo(locale).tag;
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    info: localeInfo(locale),
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    tn: (key, count, params) => translatePlural(locale, key, count, params),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nValue => useContext(I18nContext);
+
+export default I18nProvider;
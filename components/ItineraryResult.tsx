@@ -1,89 +1,151 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GroundingChunk } from '../types';
-import { generateSpeech } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { GeoPoint, GroundingChunk, Itinerary } from '../types';
+import { NarrationChunk, NarrationPlayer, NarrationState, buildNarration, renderNarrationWav, startNarration } from '../services/narration';
+import { allStops, formatDuration, isVisitableStop, stopPlaceQuery } from '../services/itinerary';
+import { TRANSFER_ICONS } from '../services/tripPlanner';
+import { downloadFile, exportFileName, itineraryToGPX, itineraryToICS, itineraryToKML, itineraryToMarkdown } from '../services/exporters';
 import PlaceCard from './PlaceCard';
+import Markdown, { StopAnchor } from './Markdown';
+import PrintItinerary from './PrintItinerary';
+import { useI18n } from './I18nProvider';
 
 interface ItineraryResultProps {
   content: string;
+  itinerary: Itinerary;
   groundingChunks?: GroundingChunk[];
   onPlaceUpdate?: (location: google.maps.LatLng) => void;
-  onSave?: () => void;
+  onSave?: () => Promise<boolean>; // Resolves to whether the plan was saved
+  isStreaming?: boolean;
+  selectedDay?: number | null;
+  onSelectDay?: (day: number) => void;
+  onToggleStopFixed?: (stopId: string) => void;
+  routePaths?: Record<number, GeoPoint[]>; // Driving path of each day routed so far, for GPX/KML
+  onShare?: (as: 'link' | 'file') => Promise<void>;
 }
 
-const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, groundingChunks, onPlaceUpdate, onSave }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, itinerary, groundingChunks, onPlaceUpdate, onSave, isStreaming, selectedDay, onSelectDay, onToggleStopFixed, routePaths = {}, onShare }) => {
+  const { locale, info, t } = useI18n();
+  const [narration, setNarration] = useState<NarrationState>('idle');
+  const [narratedChunk, setNarratedChunk] = useState<NarrationChunk | null>(null);
   const [isSaved, setIsSaved] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const [isShared, setIsShared] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [audioExport, setAudioExport] = useState<{ done: number; total: number } | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+  // Coordinates of stops as their place cards resolve them
+  const [locations, setLocations] = useState<Record<string, GeoPoint>>({});
+  const narrationRef = useRef<NarrationPlayer | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const audioExportAbortRef = useRef<AbortController | null>(null);
 
-  // Extract potential place names from grounding chunks for the widget
-  const places = groundingChunks?.filter(c => c.maps?.title).map(c => c.maps!.title) || [];
-  // Deduplicate places
-  const uniquePlaces = Array.from(new Set(places));
+  const hasStops = itinerary.days.some(day => day.stops.some(isVisitableStop));
+  const stopAnchors = useMemo<StopAnchor[]>(
+    () => allStops(itinerary).map(stop => ({ id: stop.id, name: stop.name })),
+    [itinerary]
+  );
+
+  // A new or edited plan ends the narration (and audio guide recording) of the old one
+  useEffect(() => () => {
+    narrationRef.current?.stop();
+    audioExportAbortRef.current?.abort();
+    audioExportAbortRef.current = null;
+    setAudioExport(null);
+  }, [content]);
+
+  // Keep the paragraph being read in view, opening its day if it was collapsed
+  useEffect(() => {
+    const el = textRef.current?.querySelector('[data-narrating]');
+    if (!el) return;
+    const day = el.closest('details');
+    if (day) day.open = true;
+    el.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [narratedChunk]);
+
+  const handleReadAloud = () => {
+    narrationRef.current?.stop();
+    narrationRef.current = startNarration(buildNarration(content), {
+      onStateChange: setNarration,
+      onChunk: setNarratedChunk,
+      onError: (e) => {
+        console.error(e);
+        alert(t('result.speechFailed'));
+      },
+    }, { locale });
+  };
+
+  // Stop ids repeat across plans, so a new plan starts without coordinates
+  useEffect(() => {
+    setLocations({});
+  }, [content]);
 
+  const handlePlaceResolved = (stopId: string, location: GeoPoint) => {
+      setLocations(prev => ({ ...prev, [stopId]: location }));
+  };
+
+  // Print once the print-only layout has rendered, and drop it again afterwards
   useEffect(() => {
-    return () => {
-      if (audioContextRef.current) {
-        audioContextRef.current.close().catch(console.error);
+    if (!isPrinting) return;
+    const done = () => setIsPrinting(false);
+    window.addEventListener('afterprint', done, { once: true });
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [isPrinting]);
+
+  const handleShareClick = async () => {
+      if (!onShare) return;
+      try {
+          await onShare('link');
+          setIsShared(true);
+          setTimeout(() => setIsShared(false), 2000);
+      } catch (e) {
+          // Dismissing the system share sheet is not an error
+          if ((e as Error).name !== 'AbortError') {
+              console.error(e);
+              alert(t('result.shareFailed'));
+          }
       }
-    };
-  }, []);
-
-  const renderContent = () => {
-    const paragraphs = content.split('\n');
-    return paragraphs.map((p, idx) => {
-        if (!p.trim()) return <br key={idx} />;
-        const parts = p.split(/\*\*(.*?)\*\*/g);
-        return (
-            <p key={idx} className="mb-3 text-slate-700 leading-relaxed font-light">
-                {parts.map((part, i) => 
-                    i % 2 === 1 ? <strong key={i} className="text-indigo-900 font-semibold">{part}</strong> : part
-                )}
-            </p>
-        );
-    });
   };
 
-  const handleReadAloud = async () => {
-    if (isPlaying) return;
-    
-    setIsLoadingAudio(true);
-    try {
-        const audioBuffer = await generateSpeech(content.substring(0, 1000));
-        
-        if (audioContextRef.current) {
-            await audioContextRef.current.close();
-        }
-
-        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-        audioContextRef.current = ctx;
-
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        source.start();
-        setIsPlaying(true);
-        
-        source.onended = () => {
-            setIsPlaying(false);
-            ctx.close().then(() => {
-                if (audioContextRef.current === ctx) {
-                    audioContextRef.current = null;
-                }
-            });
-        };
-    } catch (e) {
-        console.error(e);
-        alert("Could not generate speech.");
-    } finally {
-        setIsLoadingAudio(false);
-    }
+  // Records the whole plan as one audio file; cached clips from Read Aloud are reused
+  const handleDownloadAudio = async () => {
+      if (audioExport) return;
+      const controller = new AbortController();
+      audioExportAbortRef.current = controller;
+      const chunks = buildNarration(content);
+      setAudioExport({ done: 0, total: chunks.length });
+      try {
+          const wav = await renderNarrationWav(chunks, { locale, signal: controller.signal, onProgress: (done, total) => setAudioExport({ done, total }) });
+          downloadFile(exportFileName(itinerary, 'wav'), wav, 'audio/wav');
+      } catch (e) {
+          if ((e as Error).name !== 'AbortError') {
+              console.error(e);
+              alert(t('result.audioGuideFailed'));
+          }
+      } finally {
+          if (audioExportAbortRef.current === controller) {
+              audioExportAbortRef.current = null;
+              setAudioExport(null);
+          }
+      }
   };
 
-  const handleSaveClick = () => {
-      if (onSave) {
-          onSave();
+  const handleExport = (format: 'ics' | 'gpx' | 'kml' | 'md' | 'json' | 'wav' | 'print') => {
+      setShowExportMenu(false);
+      const context = { locations, routes: routePaths };
+      switch (format) {
+          case 'ics': return downloadFile(exportFileName(itinerary, 'ics'), itineraryToICS(itinerary, context), 'text/calendar');
+          case 'gpx': return downloadFile(exportFileName(itinerary, 'gpx'), itineraryToGPX(itinerary, context), 'application/gpx+xml');
+          case 'kml': return downloadFile(exportFileName(itinerary, 'kml'), itineraryToKML(itinerary, context), 'application/vnd.google-earth.kml+xml');
+          case 'md': return downloadFile(exportFileName(itinerary, 'md'), itineraryToMarkdown(content, itinerary, groundingChunks), 'text/markdown');
+          case 'json': return onShare?.('file');
+          case 'wav': return handleDownloadAudio();
+          case 'print': return setIsPrinting(true);
+      }
+  };
+
+  const handleSaveClick = async () => {
+      if (onSave && await onSave()) {
           setIsSaved(true);
           setTimeout(() => setIsSaved(false), 2000);
       }
@@ -97,11 +159,17 @@ const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, groundingChu
       <div className="flex justify-between items-start mb-8 border-b border-amber-100 pb-6">
         <div>
             <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-indigo-900 to-purple-900 mb-2">
-                Your Thai Adventure
+                {itinerary.title}
             </h2>
-            <p className="text-amber-600 text-sm font-medium uppercase tracking-wider">Curated by Somsri</p>
+            <p className="text-amber-600 text-sm font-medium uppercase tracking-wider">{t('result.curatedBy')}</p>
         </div>
         
+        {isStreaming ? (
+            <div className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-amber-50 text-amber-700">
+                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>
+                <span>{t('result.writing')}</span>
+            </div>
+        ) : (
         <div className="flex gap-2">
             {onSave && (
                 <button
@@ -116,62 +184,163 @@ const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, groundingChu
                     {isSaved ? (
                         <>
                             <span>✓</span>
-                            <span>Saved</span>
+                            <span>{t('result.saved')}</span>
                         </>
                     ) : (
                         <>
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
-                            <span>Save</span>
+                            <span>{t('result.save')}</span>
                         </>
                     )}
                 </button>
             )}
 
-            <button
-            onClick={handleReadAloud}
-            disabled={isLoadingAudio || isPlaying}
-            className={`
-                flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all
-                ${isPlaying 
-                    ? 'bg-amber-100 text-amber-700 ring-2 ring-amber-400 ring-offset-2' 
-                    : 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}
-            `}
-            >
-                {isLoadingAudio ? (
-                    <span className="animate-pulse">Generating...</span>
-                ) : isPlaying ? (
-                    <>
-                        <span className="animate-bounce">🔊</span> 
-                        <span>Listen</span>
-                    </>
-                ) : (
-                    <>
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
-                        <span>Read Aloud</span>
-                    </>
+            {onShare && (
+                <button
+                    onClick={handleShareClick}
+                    className={`
+                        flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all border
+                        ${isShared
+                            ? 'bg-green-100 text-green-700 border-green-200'
+                            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50 hover:text-indigo-600'}
+                    `}
+                    title={t('result.shareTitle')}
+                >
+                    {isShared ? (
+                        <>
+                            <span>✓</span>
+                            <span>{t('result.linkCopied')}</span>
+                        </>
+                    ) : (
+                        <>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+                            <span>{t('result.share')}</span>
+                        </>
+                    )}
+                </button>
+            )}
+
+            <div className="relative">
+                <button
+                    onClick={() => setShowExportMenu(open => !open)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all border bg-white text-slate-600 border-slate-200 hover:bg-slate-50 hover:text-indigo-600"
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                    <span>{audioExport ? t('result.recording', { done: audioExport.done, total: audioExport.total }) : t('result.export')}</span>
+                </button>
+                {showExportMenu && (
+                    <div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl shadow-xl border border-slate-100 py-2 z-20 animate-fade-in">
+                        {([
+                            ['ics', '📅'],
+                            ['gpx', '🧭'],
+                            ['kml', '🌏'],
+                            ['md', '📝'],
+                            ...(onShare ? [['json', '🧳'] as const] : []),
+                            ['wav', '🎧'],
+                            ['print', '🖨️'],
+                        ] as const).map(([format, icon]) => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center gap-3"
+                            >
+                                <span>{icon}</span>
+                                <span>{t(`result.exportAs.${format}`)}</span>
+                            </button>
+                        ))}
+                    </div>
                 )}
-            </button>
+            </div>
+
+            {narration === 'idle' ? (
+                <button
+                    onClick={handleReadAloud}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                    <span>{t('result.readAloud')}</span>
+                </button>
+            ) : (
+                <div className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800 ring-2 ring-amber-400 ring-offset-2">
+                    <span className="w-20 text-center">
+                        {narration === 'loading' ? <span className="animate-pulse">{t('result.narrationLoading')}</span>
+                            : narration === 'paused' ? t('result.narrationPaused')
+                            : <><span className="animate-bounce inline-block">🔊</span> {t('result.narrationReading')}</>}
+                    </span>
+                    <button
+                        onClick={() => narration === 'paused' ? narrationRef.current?.resume() : narrationRef.current?.pause()}
+                        className="w-8 h-8 rounded-full hover:bg-amber-200 transition-colors"
+                        title={narration === 'paused' ? t('result.resume') : t('result.pause')}
+                    >
+                        {narration === 'paused' ? '▶' : '⏸'}
+                    </button>
+                    <button
+                        onClick={() => narrationRef.current?.skipSection()}
+                        className="w-8 h-8 rounded-full hover:bg-amber-200 transition-colors"
+                        title={t('result.skipDay')}
+                    >
+                        ⏭
+                    </button>
+                    <button
+                        onClick={() => narrationRef.current?.stop()}
+                        className="w-8 h-8 rounded-full hover:bg-amber-200 transition-colors"
+                        title={t('result.stopReading')}
+                    >
+                        ⏹
+                    </button>
+                </div>
+            )}
         </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Text Content */}
-          <div className="lg:col-span-2 prose prose-slate prose-p:font-light max-w-none">
-            {renderContent()}
+          <div ref={textRef} className="lg:col-span-2 prose prose-slate prose-p:font-light max-w-none">
+            <Markdown source={content} collapsibleDays stopAnchors={stopAnchors} highlight={narratedChunk} />
           </div>
 
           {/* Suggested Places Cards */}
           <div className="lg:col-span-1 space-y-6">
              <h3 className="text-lg font-bold text-indigo-900 border-l-4 border-amber-400 pl-3">
-                 Recommended Stops
+                 {t('result.recommendedStops')}
              </h3>
              <div className="space-y-4">
-                {uniquePlaces.map((placeName, idx) => (
-                    <PlaceCard key={idx} query={placeName} onPlaceSelect={onPlaceUpdate} />
-                ))}
-                {uniquePlaces.length === 0 && (
+                {itinerary.days.map(day => {
+                    const dayStops = day.stops.filter(isVisitableStop);
+                    if (dayStops.length === 0 && !day.transfer) return null;
+                    const isSelected = selectedDay === day.day;
+                    return (
+                        <section key={day.day}>
+                            <button
+                                onClick={() => onSelectDay?.(day.day)}
+                                className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${isSelected ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+                                title={t('result.showDayOnMap')}
+                            >
+                                <div className="text-xs font-bold text-amber-600 uppercase tracking-wider">
+                                    {t('common.day', { day: day.day })}{day.date ? ` · ${new Date(`${day.date}T00:00:00Z`).toLocaleDateString(info.tag, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })}` : ''}
+                                </div>
+                                <div className="font-semibold text-indigo-900">{day.city || day.title}</div>
+                            </button>
+                            {day.transfer && (
+                                <div className="mt-2 mx-3 p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-900 flex items-center gap-2">
+                                    <span className="text-lg">{TRANSFER_ICONS[day.transfer.mode]}</span>
+                                    <span className="font-medium">{day.transfer.from} → {day.transfer.to}</span>
+                                    <span className="ml-auto text-xs text-amber-700">
+                                        {[day.transfer.departureTime, day.transfer.durationMinutes ? formatDuration(day.transfer.durationMinutes) : null].filter(Boolean).join(' · ')}
+                                    </span>
+                                </div>
+                            )}
+                            {dayStops.map(stop => (
+                                // Stops can still be renamed while streaming, so only look places up once it's done
+                                <PlaceCard key={stop.id} query={isStreaming ? '' : stopPlaceQuery(stop)} stop={stop} onPlaceSelect={onPlaceUpdate} onResolved={handlePlaceResolved} onToggleFixed={isStreaming ? undefined : onToggleStopFixed} />
+                            ))}
+                        </section>
+                    );
+                })}
+                {!hasStops && (
                     <p className="text-sm text-slate-400 italic">
-                        Places will appear here when mentioned in your itinerary.
+                        {t('result.noPlaces')}
                     </p>
                 )}
              </div>
@@ -180,7 +349,7 @@ const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, groundingChu
 
       {groundingChunks && groundingChunks.length > 0 && (
         <div className="mt-8 pt-6 border-t border-slate-100">
-          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">Sources</h3>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">{t('result.sources')}</h3>
           <div className="flex flex-wrap gap-2">
             {groundingChunks.map((chunk, i) => {
                if (chunk.web) {
@@ -196,6 +365,8 @@ const ItineraryResult: React.FC<ItineraryResultProps> = ({ content, groundingChu
           </div>
         </div>
       )}
+
+      {isPrinting && <PrintItinerary content={content} itinerary={itinerary} />}
     </div>
   );
 };
@@ -1,39 +1,93 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Modality, LiveServerMessage } from '@google/genai';
-import { getLiveClient } from '../services/geminiService';
-import { float32ToPCM16, decodeBase64, decodeAudioData, encodeBase64 } from '../services/audioUtils';
+import { connectResilientLive } from '../services/liveConnection';
+import { liveGuideConfig } from '../services/geminiService';
+import { ChatTools, LiveSessionHandle } from '../services/providers/types';
+import { createAudioContext, decodeAudioData, decodeBase64, encodeBase64 } from '../services/audioUtils';
+import { CAPTURE_SAMPLE_RATE, MicCapture, startMicCapture } from '../services/micCapture';
+import { MicSettings, loadMicSettings, openMicrophone, saveMicSettings } from '../services/micSettings';
+import { LIVE_TRIP_TOOL_DECLARATIONS, LiveTripToolResult, applyLiveTripTool, createLiveTripDraft } from '../services/liveTripTools';
+import { formatCost } from '../services/itinerary';
+import { LiveTripDraft } from '../types';
+import { useI18n } from './I18nProvider';
+import MicSettingsPanel from './MicSettingsPanel';
+
+// What the voice chat produced: the trip details Somsri recorded, and the conversation itself
+export interface LivePlanRequest {
+  draft: LiveTripDraft;
+  transcript: string;
+}
 
 interface LiveSessionProps {
   onClose: () => void;
-  onCreatePlan: (transcript: string) => void;
+  onCreatePlan: (request: LivePlanRequest) => void;
+}
+
+// Pause after Somsri stops talking before her own finish_plan call opens the review
+const FINISH_DELAY_MS = 1500;
+// Relative bar heights of the mic level meter
+const METER_PROFILE = [0.55, 0.8, 1, 0.8, 0.55];
+// Finished lines kept on screen under the live captions
+const CAPTION_LINES = 4;
+
+interface TranscriptLine {
+  speaker: 'user' | 'guide';
+  text: string;
 }
 
+const formatTranscript = (lines: TranscriptLine[]): string =>
+  lines.filter(line => line.text.trim()).map(line => `${line.speaker === 'user' ? 'User' : 'Guide'}: ${line.text.trim()}\n`).join('');
+
 // Metaphor assets
 const INGREDIENTS = ['🦐', '🍋', '🥜', '🌶️', '🍜'];
 
 const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'error' | 'disconnected'>('idle');
-  const [volume, setVolume] = useState(0);
+  const { locale, t, tn } = useI18n();
+  const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error' | 'disconnected'>('idle');
+  const socketDownRef = useRef(false); // Mic audio is held back while the socket reconnects
+  const [micLevel, setMicLevel] = useState(0);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+
+  // Mic controls, saved between sessions. In push-to-talk mode audio only flows while talk is held.
+  const [micSettings, setMicSettings] = useState<MicSettings>(loadMicSettings);
+  const micSettingsRef = useRef(micSettings);
+  const [showMicSettings, setShowMicSettings] = useState(false);
+  const [talkHeld, setTalkHeld] = useState(false);
+  const talkHeldRef = useRef(false);
+  const sentSinceEndRef = useRef(false); // Audio went out since the last end-of-utterance
   const [isAgentSpeaking, setIsAgentSpeaking] = useState(false);
   
   // 0 = Prep (Intro), 1 = Refine (Chat), 2 = Cook (Processing), 3 = Serve (Done)
   const [cookingStage, setCookingStage] = useState<0 | 1 | 2 | 3>(0);
+
+  // Trip details Somsri records with tool calls as the traveler talks
+  const [draft, setDraft] = useState<LiveTripDraft>(createLiveTripDraft);
+  const draftRef = useRef<LiveTripDraft>(draft);
+  const [lastUpdate, setLastUpdate] = useState<LiveTripToolResult['change'] | null>(null);
+  const [finishRequested, setFinishRequested] = useState(false);
   
   // Audio Refs
-  const inputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSessionHandle> | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
   const mountedRef = useRef(true);
   
-  // Transcription
-  const transcriptionRef = useRef<string>("");
+  // Transcription: finished turns, plus what each speaker is saying right now (the captions)
+  const transcriptRef = useRef<TranscriptLine[]>([]);
   const currentInputTransRef = useRef<string>("");
   const currentOutputTransRef = useRef<string>("");
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [captions, setCaptions] = useState({ user: '', guide: '' });
+  const captionsEndRef = useRef<HTMLDivElement>(null);
+
+  // Review before cooking: the mic is paused and the transcript can be corrected
+  const [reviewing, setReviewing] = useState(false);
+  const reviewingRef = useRef(false);
+  const [reviewLines, setReviewLines] = useState<TranscriptLine[]>([]);
 
   const cleanup = useCallback(() => {
     mountedRef.current = false;
@@ -43,7 +97,7 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
         });
         sourcesRef.current.clear();
     }
-    inputContextRef.current?.close();
+    captureRef.current?.stop();
     outputContextRef.current?.close();
     streamRef.current?.getTracks().forEach(track => track.stop());
     if (sessionPromiseRef.current) {
@@ -56,29 +110,159 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
       return cleanup;
   }, [cleanup]);
 
+  const tripTools: ChatTools = {
+    declarations: LIVE_TRIP_TOOL_DECLARATIONS,
+    execute: async (name, args) => {
+      if (name === 'finish_plan') {
+        if (!draftRef.current.legs.length) throw new Error("No destination yet. Ask where they would like to go first.");
+        if (mountedRef.current) setFinishRequested(true);
+        return { ok: true };
+      }
+      const { draft: next, change } = applyLiveTripTool(draftRef.current, name, args);
+      draftRef.current = next;
+      if (mountedRef.current) {
+        setDraft(next);
+        setLastUpdate(change);
+      }
+      return { ok: true, summary: t(change.key, change.params) };
+    },
+  };
+
+  const flushPartialTurn = () => {
+    if (currentInputTransRef.current) transcriptRef.current.push({ speaker: 'user', text: currentInputTransRef.current });
+    if (currentOutputTransRef.current) transcriptRef.current.push({ speaker: 'guide', text: currentOutputTransRef.current });
+    currentInputTransRef.current = "";
+    currentOutputTransRef.current = "";
+    setTranscript([...transcriptRef.current]);
+    setCaptions({ user: '', guide: '' });
+  };
+
+  const micGateOpen = () =>
+    !micSettingsRef.current.muted && (micSettingsRef.current.mode === 'open' || talkHeldRef.current);
+
+  const sendInput = (input: Parameters<LiveSessionHandle['sendRealtimeInput']>[0]) => {
+    sessionPromiseRef.current?.then(session => session.sendRealtimeInput(input)).catch(err => {
+        console.error("Session send error:", err);
+    });
+  };
+
+  // Tells the model the traveler stopped talking, so it answers without waiting for more audio
+  const endUtterance = () => {
+    if (!sentSinceEndRef.current || socketDownRef.current) return;
+    sentSinceEndRef.current = false;
+    sendInput({ audioStreamEnd: true });
+  };
+
+  // Only speech is streamed; the end of each utterance is flagged so the model doesn't wait for more
+  const startCapture = (stream: MediaStream) => {
+    startMicCapture(stream, {
+      onAudio: (pcm16) => {
+        if (!mountedRef.current || reviewingRef.current || socketDownRef.current || !micGateOpen()) return;
+        sentSinceEndRef.current = true;
+        sendInput({ media: { mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`, data: encodeBase64(pcm16) } });
+      },
+      onLevel: (level, speaking) => {
+        if (!mountedRef.current) return;
+        const paused = reviewingRef.current || socketDownRef.current || !micGateOpen();
+        setMicLevel(paused ? 0 : level);
+        setUserSpeaking(speaking && !paused);
+      },
+      onSpeechEnd: () => {
+        if (mountedRef.current && !reviewingRef.current) endUtterance();
+      },
+    }).then(capture => {
+      if (mountedRef.current && streamRef.current === stream) captureRef.current = capture;
+      else capture.stop();
+    }).catch(err => {
+      console.error("Microphone capture failed", err);
+      if (mountedRef.current) setStatus('error');
+    });
+  };
+
+  const applyMute = (stream: MediaStream | null, muted: boolean) => {
+    stream?.getAudioTracks().forEach(track => { track.enabled = !muted; });
+  };
+
+  // A different device or cleanup setting needs a new stream; the session itself carries on
+  const restartMic = async (settings: MicSettings) => {
+    if (!streamRef.current) return;
+    const wasCapturing = !!captureRef.current;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    streamRef.current.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    try {
+      const stream = await openMicrophone(settings);
+      if (!mountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      applyMute(stream, settings.muted);
+      if (wasCapturing) startCapture(stream);
+    } catch (err) {
+      console.error("Could not switch microphone", err);
+      setStatus('error');
+    }
+  };
+
+  const updateMicSettings = (next: MicSettings) => {
+    const previous = micSettingsRef.current;
+    micSettingsRef.current = next;
+    setMicSettings(next);
+    saveMicSettings(next);
+    if (next.deviceId !== previous.deviceId || next.echoCancellation !== previous.echoCancellation
+      || next.noiseSuppression !== previous.noiseSuppression || next.autoGainControl !== previous.autoGainControl) {
+      restartMic(next);
+    } else {
+      applyMute(streamRef.current, next.muted);
+    }
+    if (!micGateOpen()) endUtterance();
+  };
+
+  const setTalk = (held: boolean) => {
+    if (talkHeldRef.current === held) return;
+    talkHeldRef.current = held;
+    setTalkHeld(held);
+    if (!held) endUtterance();
+  };
+
+  // Space bar works as the talk button, except while typing in the review
+  useEffect(() => {
+    if (micSettings.mode !== 'push-to-talk' || cookingStage !== 1 || reviewing) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && e.target.closest('input, textarea, select') !== null;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) setTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping(e)) setTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      setTalk(false);
+    };
+  }, [micSettings.mode, cookingStage, reviewing]);
+
   const startSession = async () => {
     setStatus('connecting');
+    setShowMicSettings(false);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openMicrophone(micSettingsRef.current);
       if (!mountedRef.current) return;
       streamRef.current = stream;
+      applyMute(stream, micSettingsRef.current.muted);
 
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const source = inputContextRef.current.createMediaStreamSource(stream);
-      const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-      processorRef.current = processor;
-      
-      source.connect(processor);
-      processor.connect(inputContextRef.current.destination);
-
-      outputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      outputContextRef.current = createAudioContext({ sampleRate: 24000 });
       const outputNode = outputContextRef.current.createGain();
       outputNode.connect(outputContextRef.current.destination);
 
-      const liveClient = getLiveClient();
-
-      sessionPromiseRef.current = liveClient.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      sessionPromiseRef.current = connectResilientLive({
+        tools: tripTools,
         callbacks: {
           onopen: () => {
             if (mountedRef.current) {
@@ -86,29 +270,7 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                 setCookingStage(1); // Move to "Refine" stage
             }
             
-            processor.onaudioprocess = (e) => {
-              if (!mountedRef.current) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolume(Math.min(rms * 5, 1)); 
-
-              const pcm16 = float32ToPCM16(inputData);
-              const base64Data = encodeBase64(pcm16);
-
-              sessionPromiseRef.current?.then(session => {
-                session.sendRealtimeInput({
-                  media: {
-                    mimeType: 'audio/pcm;rate=16000',
-                    data: base64Data
-                  }
-                });
-              }).catch(err => {
-                  console.error("Session send error:", err);
-              });
-            };
+            if (streamRef.current) startCapture(streamRef.current);
           },
           onmessage: async (message: LiveServerMessage) => {
              if (!mountedRef.current) return;
@@ -122,12 +284,16 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
              if (message.serverContent?.turnComplete) {
                 const userText = currentInputTransRef.current;
                 const modelText = currentOutputTransRef.current;
-                if (userText) transcriptionRef.current += `User: ${userText}\n`;
-                if (modelText) transcriptionRef.current += `Guide: ${modelText}\n`;
+                if (userText) transcriptRef.current.push({ speaker: 'user', text: userText });
+                if (modelText) transcriptRef.current.push({ speaker: 'guide', text: modelText });
+                setTranscript([...transcriptRef.current]);
                 
                 currentInputTransRef.current = "";
                 currentOutputTransRef.current = "";
              }
+             if (message.serverContent?.outputTranscription || message.serverContent?.inputTranscription || message.serverContent?.turnComplete) {
+                setCaptions({ user: currentInputTransRef.current, guide: currentOutputTransRef.current });
+             }
 
              const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
              if (base64Audio && outputContextRef.current) {
@@ -175,6 +341,7 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
              }
           },
           onclose: () => {
+            socketDownRef.current = true;
             if (mountedRef.current) setStatus('disconnected');
           },
           onerror: (err) => {
@@ -186,21 +353,20 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
-          },
-          systemInstruction: `
-            You are Somsri, an expert Thai tour guide.
-            
-            Your Goal: Plan a perfect day trip for the user in Thailand.
-            
-            Step 1: Ask the user what city they are in or want to visit.
-            Step 2: Ask about their specific interests (food, temples, shopping, nature).
-            Step 3: Offer 1-2 quick suggestions to gauge their reaction.
-            
-            Keep your responses concise, warm, and encouraging. Do not output a full itinerary list yet, just discuss options.
-          `,
+          ...liveGuideConfig(new Date().toISOString().slice(0, 10), locale),
         }
+      }, {
+        onReconnecting: () => {
+          socketDownRef.current = true;
+          if (!mountedRef.current) return;
+          setStatus('reconnecting');
+          // A turn cut off by the drop won't be finished by the resumed session, so keep what we have of it
+          flushPartialTurn();
+        },
+        onReconnected: () => {
+          socketDownRef.current = false;
+          if (mountedRef.current) setStatus('connected');
+        },
       });
 
     } catch (err) {
@@ -209,19 +375,46 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
     }
   };
 
+  // Pauses the mic and shows everything heard so far, unfinished turns included, for correcting
+  const handleReview = () => {
+     setFinishRequested(false);
+     reviewingRef.current = true;
+     setReviewing(true);
+     setReviewLines([
+        ...transcriptRef.current,
+        ...(currentInputTransRef.current ? [{ speaker: 'user' as const, text: currentInputTransRef.current }] : []),
+        ...(currentOutputTransRef.current ? [{ speaker: 'guide' as const, text: currentOutputTransRef.current }] : []),
+     ]);
+  };
+
+  const handleKeepTalking = () => {
+     reviewingRef.current = false;
+     setReviewing(false);
+  };
+
+  const updateReviewLine = (index: number, text: string) => {
+     setReviewLines(prev => prev.map((line, i) => i === index ? { ...line, text } : line));
+  };
+
+  // A misheard city is fixed in the trip details as well as in the transcript
+  const updateDraftCity = (index: number, city: string) => {
+     const next = { ...draftRef.current, legs: draftRef.current.legs.map((leg, i) => i === index ? { ...leg, city } : leg) };
+     draftRef.current = next;
+     setDraft(next);
+  };
+
   const handleCreatePlan = () => {
      // Move to Stage 2: Cook
      setCookingStage(2);
+     setReviewing(false);
      
      // Stop audio session
      if (sessionPromiseRef.current) {
         sessionPromiseRef.current.then(session => session.close()).catch(() => {});
      }
 
-     // Capture final text bits
-     let finalTranscript = transcriptionRef.current;
-     if (currentInputTransRef.current) finalTranscript += `User: ${currentInputTransRef.current}\n`;
-     if (currentOutputTransRef.current) finalTranscript += `Guide: ${currentOutputTransRef.current}\n`;
+     const finalTranscript = formatTranscript(reviewLines);
+     const finalDraft = { ...draftRef.current, legs: draftRef.current.legs.filter(leg => leg.city.trim()) };
 
      // Simulate "Cooking" time then move to "Served"
      setTimeout(() => {
@@ -229,11 +422,24 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
          
          // Short delay to admire the served dish before routing
          setTimeout(() => {
-             if (mountedRef.current) onCreatePlan(finalTranscript);
+             if (mountedRef.current) onCreatePlan({ draft: finalDraft, transcript: finalTranscript });
          }, 1500);
      }, 2500);
   };
 
+  // Somsri asked to start cooking: let her finish her sentence, then review what was heard
+  useEffect(() => {
+    if (!finishRequested || isAgentSpeaking || cookingStage !== 1 || reviewing) return;
+    const id = setTimeout(handleReview, FINISH_DELAY_MS);
+    return () => clearTimeout(id);
+  }, [finishRequested, isAgentSpeaking, cookingStage, reviewing]);
+
+  useEffect(() => {
+    captionsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [transcript, captions]);
+
+  const lastUpdateText = lastUpdate && t(lastUpdate.key, lastUpdate.params);
+
   return (
     <div className="flex flex-col items-center justify-center p-8 bg-gradient-to-br from-indigo-900 to-purple-900 rounded-2xl text-white shadow-2xl w-full max-w-md mx-auto relative overflow-hidden min-h-[600px]">
         
@@ -247,7 +453,7 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
       {/* 4-Step Progress Stepper */}
       <div className="w-full flex justify-between items-center px-2 mb-8 relative z-20">
           {[0, 1, 2, 3].map((step) => {
-              const labels = ['Prep', 'Refine', 'Cook', 'Serve'];
+              const labels = [t('live.stage.prep'), t('live.stage.refine'), t('live.stage.cook'), t('live.stage.serve')];
               const isActive = cookingStage >= step;
               const isCurrent = cookingStage === step;
               
@@ -293,22 +499,33 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                         </div>
                     ))}
                 </div>
-                <h3 className="text-2xl font-bold mb-2 text-white">Step 1: Prep</h3>
+                <h3 className="text-2xl font-bold mb-2 text-white">{t('live.step1')}</h3>
                 <p className="text-indigo-200 text-sm px-6 mb-8 leading-relaxed">
-                    Ready to cook up a plan? Tell Somsri where you are and what you love.
+                    {t('live.intro')}
                 </p>
                 <button 
                     onClick={startSession}
                     className="px-8 py-4 bg-amber-500 hover:bg-amber-600 text-white rounded-full font-bold transition-all shadow-lg shadow-amber-500/30 flex items-center gap-3 mx-auto hover:scale-105 transform active:scale-95"
                 >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
-                    Start Conversation
+                    {t('live.start')}
+                </button>
+                <button
+                    onClick={() => setShowMicSettings(v => !v)}
+                    className="mt-4 text-indigo-300 text-xs hover:text-white transition-colors"
+                >
+                    ⚙️ {t('live.micSettings')}
                 </button>
+                {showMicSettings && (
+                    <div className="mt-3 px-4">
+                        <MicSettingsPanel settings={micSettings} onChange={updateMicSettings} />
+                    </div>
+                )}
             </div>
         )}
 
         {/* STAGE 2: REFINE (Chat) */}
-        {cookingStage === 1 && (
+        {cookingStage === 1 && !reviewing && (
             <div className="animate-fade-in text-center w-full flex flex-col h-full">
                  <div className="flex-1 flex flex-col items-center justify-center">
                     <div className="relative w-40 h-40 mx-auto mb-4">
@@ -321,39 +538,157 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                         {isAgentSpeaking ? (
                              <div className="flex flex-col items-center gap-1">
                                 <span className="text-2xl animate-bounce">🗣️</span>
-                                <span className="text-amber-400 text-xs font-bold uppercase tracking-wide animate-pulse">Somsri Speaking</span>
+                                <span className="text-amber-400 text-xs font-bold uppercase tracking-wide animate-pulse">{t('live.speaking')}</span>
                              </div>
                         ) : (
                             <div className="flex flex-col items-center w-full">
                                 <div className="flex gap-1 h-8 items-end mb-1">
-                                    {[...Array(5)].map((_, i) => (
+                                    {METER_PROFILE.map((weight, i) => (
                                         <div 
                                            key={i} 
-                                           className="w-1.5 bg-emerald-400 rounded-full transition-all duration-75"
-                                           style={{ height: `${Math.max(6, volume * 50 * (Math.random() + 0.5))}px` }}
+                                           className={`w-1.5 rounded-full transition-all duration-75 ${userSpeaking ? 'bg-emerald-400' : 'bg-indigo-400/60'}`}
+                                           style={{ height: `${Math.max(6, micLevel * weight * 32)}px` }}
                                         ></div>
                                     ))}
                                 </div>
-                                <span className="text-xs text-indigo-300">Listening...</span>
+                                <span className="text-xs text-indigo-300">
+                                    {status !== 'connected' ? t('live.micPaused')
+                                        : micSettings.muted ? t('live.muted')
+                                        : micSettings.mode === 'push-to-talk' && !talkHeld ? t('live.holdToTalk')
+                                        : userSpeaking ? t('live.hearing') : t('live.listening')}
+                                </span>
                             </div>
                         )}
                     </div>
                     
-                    <p className="text-white font-medium text-lg mb-1">Step 2: Refine</p>
+                    {/* Mic controls */}
+                    <div className="flex items-center justify-center gap-2 mb-3">
+                        <button
+                            onClick={() => updateMicSettings({ ...micSettings, muted: !micSettings.muted })}
+                            className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${micSettings.muted ? 'bg-red-500 text-white' : 'bg-indigo-950/50 text-indigo-200 hover:text-white'}`}
+                            title={micSettings.muted ? t('live.unmute') : t('live.mute')}
+                        >
+                            {micSettings.muted ? `🔇 ${t('live.muted')}` : `🎙️ ${t('live.mute')}`}
+                        </button>
+                        <div className="flex bg-indigo-950/50 rounded-full p-0.5 text-xs">
+                            {(['open', 'push-to-talk'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => updateMicSettings({ ...micSettings, mode })}
+                                    className={`px-3 py-1 rounded-full transition-colors ${micSettings.mode === mode ? 'bg-amber-500 text-white' : 'text-indigo-300 hover:text-white'}`}
+                                >
+                                    {mode === 'open' ? t('live.openMic') : t('live.pushToTalk')}
+                                </button>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setShowMicSettings(v => !v)}
+                            className={`w-8 h-8 rounded-full text-sm transition-colors ${showMicSettings ? 'bg-amber-500' : 'bg-indigo-950/50 hover:bg-indigo-800'}`}
+                            title={t('live.micSettings')}
+                        >
+                            ⚙️
+                        </button>
+                    </div>
+                    {showMicSettings && (
+                        <div className="w-full px-4 mb-3">
+                            <MicSettingsPanel settings={micSettings} onChange={updateMicSettings} />
+                        </div>
+                    )}
+                    {micSettings.mode === 'push-to-talk' && !micSettings.muted && (
+                        <button
+                            onPointerDown={(e) => {
+                                e.currentTarget.setPointerCapture(e.pointerId);
+                                setTalk(true);
+                            }}
+                            onPointerUp={() => setTalk(false)}
+                            onPointerCancel={() => setTalk(false)}
+                            onContextMenu={(e) => e.preventDefault()}
+                            className={`mb-3 px-6 py-3 rounded-2xl font-bold text-sm select-none touch-none transition-all ${talkHeld ? 'bg-emerald-500 text-white scale-105 shadow-lg shadow-emerald-500/40' : 'bg-indigo-950/60 text-indigo-100 border border-indigo-600 hover:border-amber-400'}`}
+                        >
+                            {talkHeld ? t('live.releaseToSend') : t('live.holdToTalkKey')}
+                        </button>
+                    )}
+
+                    <p className="text-white font-medium text-lg mb-1">{t('live.step2')}</p>
                     <p className="text-indigo-300 text-xs px-8 mb-6">
-                        "Tell me more! The more spice (details) you add, the better the plan."
+                        {t('live.refineHint')}
                     </p>
                 </div>
 
+                {/* Connection trouble: the mic is held while reconnecting, and the chat so far is kept */}
+                {status === 'reconnecting' && (
+                    <div className="mx-4 mb-3 px-3 py-2 bg-amber-500/20 border border-amber-400/40 rounded-xl text-amber-100 text-xs flex items-center gap-2">
+                        <svg className="w-4 h-4 animate-spin shrink-0" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path></svg>
+                        {t('live.reconnecting')}
+                    </div>
+                )}
+                {(status === 'disconnected' || status === 'error') && (
+                    <div className="mx-4 mb-3 px-3 py-2 bg-red-500/20 border border-red-400/40 rounded-xl text-red-100 text-xs">
+                        {t('live.disconnected')}
+                    </div>
+                )}
+
+                {/* Rolling captions for both speakers */}
+                <div className="mx-4 mb-3 h-28 overflow-y-auto px-3 py-2 bg-black/20 rounded-xl text-left text-sm space-y-1.5" aria-live="polite">
+                    {transcript.length === 0 && !captions.user && !captions.guide && (
+                        <p className="text-indigo-300/70 text-xs italic">{t('live.captionsEmpty')}</p>
+                    )}
+                    {[
+                        ...transcript.slice(-CAPTION_LINES),
+                        ...(captions.user ? [{ speaker: 'user' as const, text: captions.user }] : []),
+                        ...(captions.guide ? [{ speaker: 'guide' as const, text: captions.guide }] : []),
+                    ].map((line, i) => (
+                        <p key={i} className={line.speaker === 'user' ? 'text-white' : 'text-amber-200'}>
+                            <span className="text-[10px] font-bold uppercase tracking-wider opacity-60 mr-1.5">{line.speaker === 'user' ? t('live.you') : t('live.somsri')}</span>
+                            {line.text}
+                        </p>
+                    ))}
+                    <div ref={captionsEndRef} />
+                </div>
+
+                {/* Trip details recorded so far */}
+                <div className="mx-4 mb-4 p-4 bg-indigo-950/50 border border-indigo-700/50 rounded-xl text-left text-sm space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-amber-400 uppercase tracking-wider">{t('live.tripSoFar')}</span>
+                        {lastUpdateText && <span key={lastUpdateText} className="text-[10px] text-emerald-300 animate-fade-in">✓ {lastUpdateText}</span>}
+                    </div>
+                    {draft.legs.length === 0 && draft.interests.length === 0 && !draft.budget && !draft.startDate ? (
+                        <p className="text-indigo-300 text-xs italic">{t('live.tripEmpty')}</p>
+                    ) : (
+                        <>
+                            <div className="text-white">
+                                📍 {draft.legs.length
+                                    ? draft.legs.map(leg => leg.nights !== undefined ? `${leg.city} (${tn('common.nights', leg.nights)})` : leg.city).join(' → ')
+                                    : <span className="text-indigo-300 italic">{t('live.destinationUnknown')}</span>}
+                            </div>
+                            {draft.startDate && (
+                                <div className="text-indigo-100">📅 {draft.startDate}{draft.endDate && draft.endDate !== draft.startDate ? ` → ${draft.endDate}` : ''}</div>
+                            )}
+                            {draft.budget && (
+                                <div className="text-indigo-100">
+                                    💰 {t(`live.budget.${draft.budget.level}`)}{draft.budget.dailyTHB ? ` · ${t('live.perDay', { amount: formatCost(draft.budget.dailyTHB) })}` : ''}
+                                </div>
+                            )}
+                            {draft.interests.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5">
+                                    {draft.interests.map(interest => (
+                                        <span key={interest} className="px-2 py-0.5 bg-amber-500/20 text-amber-200 rounded-full text-xs">{interest}</span>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
                 <div className="w-full px-4 pb-4">
                     <button 
-                        onClick={handleCreatePlan}
+                        onClick={handleReview}
                         className="w-full px-6 py-4 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white rounded-2xl font-bold transition-all shadow-xl shadow-emerald-500/20 flex items-center justify-center gap-3 group hover:scale-[1.02] active:scale-[0.98]"
                     >
                         <span className="text-2xl group-hover:rotate-12 transition-transform">👨‍🍳</span>
                         <div className="text-left">
-                            <div className="text-xs text-emerald-100 font-medium uppercase tracking-wider">Ready?</div>
-                            <div className="text-lg leading-none">Start Cooking Plan</div>
+                            <div className="text-xs text-emerald-100 font-medium uppercase tracking-wider">{t('live.ready')}</div>
+                            <div className="text-lg leading-none">{t('live.startCooking')}</div>
                         </div>
                         <svg className="w-5 h-5 ml-auto text-emerald-100" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
                     </button>
@@ -361,7 +696,68 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                         onClick={onClose}
                         className="mt-3 text-indigo-400 text-xs hover:text-white underline decoration-indigo-500/50 underline-offset-4 transition-colors"
                     >
-                        Cancel Session
+                        {t('live.cancel')}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* STAGE 2b: REVIEW what was heard before cooking */}
+        {cookingStage === 1 && reviewing && (
+            <div className="animate-fade-in w-full flex flex-col h-full text-left">
+                <h3 className="text-xl font-bold text-white text-center">{t('live.reviewTitle')}</h3>
+                <p className="text-indigo-300 text-xs text-center mt-1 mb-4 px-4">
+                    {t('live.reviewHint')}
+                </p>
+
+                {draft.legs.length > 0 && (
+                    <div className="mb-4">
+                        <label className="block text-[10px] font-bold text-amber-400 uppercase tracking-wider mb-2">{t('live.destination')}</label>
+                        <div className="space-y-2">
+                            {draft.legs.map((leg, i) => (
+                                <input
+                                    key={i}
+                                    value={leg.city}
+                                    onChange={(e) => updateDraftCity(i, e.target.value)}
+                                    className="w-full px-3 py-2 bg-indigo-950/50 border border-indigo-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-amber-400 outline-none"
+                                />
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <label className="block text-[10px] font-bold text-amber-400 uppercase tracking-wider mb-2">{t('live.transcript')}</label>
+                <div className="flex-1 max-h-64 overflow-y-auto space-y-2 pr-1">
+                    {reviewLines.length === 0 && (
+                        <p className="text-indigo-300 text-xs italic">{t('live.nothingHeard')}</p>
+                    )}
+                    {reviewLines.map((line, i) => (
+                        <div key={i}>
+                            <div className={`text-[10px] font-bold uppercase tracking-wider mb-0.5 ${line.speaker === 'user' ? 'text-indigo-300' : 'text-amber-300/80'}`}>
+                                {line.speaker === 'user' ? t('live.you') : t('live.somsri')}
+                            </div>
+                            <textarea
+                                value={line.text}
+                                onChange={(e) => updateReviewLine(i, e.target.value)}
+                                rows={2}
+                                className="w-full px-3 py-2 bg-indigo-950/50 border border-indigo-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-amber-400 outline-none resize-none"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="pt-4 space-y-2">
+                    <button
+                        onClick={handleCreatePlan}
+                        className="w-full px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 text-white rounded-2xl font-bold transition-all shadow-xl shadow-emerald-500/20 flex items-center justify-center gap-2"
+                    >
+                        <span className="text-xl">👨‍🍳</span> {t('live.cookIt')}
+                    </button>
+                    <button
+                        onClick={handleKeepTalking}
+                        className="w-full text-indigo-300 text-xs hover:text-white transition-colors"
+                    >
+                        ← {t('live.keepTalking')}
                     </button>
                 </div>
             </div>
@@ -396,9 +792,9 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                      </div>
                  </div>
 
-                 <h3 className="text-3xl font-bold mb-2 text-white">Step 3: Cooking</h3>
+                 <h3 className="text-3xl font-bold mb-2 text-white">{t('live.step3')}</h3>
                  <p className="text-indigo-200 text-sm animate-pulse">
-                     Somsri is mixing your ingredients...
+                     {t('live.cooking')}
                  </p>
             </div>
         )}
@@ -412,14 +808,14 @@ const LiveSession: React.FC<LiveSessionProps> = ({ onClose, onCreatePlan }) => {
                      <span className="absolute top-2 right-4 text-2xl animate-ping">✨</span>
                      <span className="absolute bottom-4 left-4 text-2xl animate-ping delay-300">✨</span>
                  </div>
-                 <h3 className="text-3xl font-bold mb-2 text-white">Step 4: Served!</h3>
+                 <h3 className="text-3xl font-bold mb-2 text-white">{t('live.step4')}</h3>
                  <p className="text-emerald-300 font-medium mb-8">
-                     Your custom itinerary is ready.
+                     {t('live.served')}
                  </p>
                  
                  <div className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-950/50 rounded-lg text-indigo-300 text-xs">
                     <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                    Opening Planner...
+                    {t('live.opening')}
                  </div>
             </div>
         )}
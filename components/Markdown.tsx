@@ -0,0 +1,219 @@
+import React, { useMemo } from 'react';
+import { MdBlock, MdInline, MdList, MdListItem, dayHeadingNumber, parseMarkdown, slugify } from '../services/markdown';
+
+export interface StopAnchor {
+  id: string;
+  name: string;
+}
+
+interface MarkdownProps {
+  source: string;
+  variant?: 'itinerary' | 'chat';
+  // Wrap "Day N" headings and their content in collapsible sections
+  collapsibleDays?: boolean;
+  // The first block that mentions each stop gets an #stop-<id> anchor
+  stopAnchors?: StopAnchor[];
+  // Top-level block (and list item) being read aloud
+  highlight?: { block: number; item?: number } | null;
+}
+
+const HIGHLIGHT_CLASS = 'bg-amber-100/70 rounded-lg ring-4 ring-amber-100/70 transition-colors';
+
+const STYLES = {
+  itinerary: {
+    p: 'mb-3 text-slate-700 leading-relaxed font-light',
+    li: 'text-slate-700 leading-relaxed font-light',
+    list: 'mb-4 pl-6 space-y-2',
+    strong: 'text-indigo-900 font-semibold',
+    headings: ['', 'text-2xl font-bold text-indigo-950 mt-6 mb-3', 'text-xl font-bold text-indigo-900 mt-6 mb-3', 'text-lg font-bold text-indigo-900 mt-4 mb-2', 'font-bold text-indigo-900 mt-3 mb-2'],
+  },
+  chat: {
+    p: 'mb-2 last:mb-0 leading-relaxed',
+    li: 'leading-relaxed',
+    list: 'mb-2 last:mb-0 pl-5 space-y-1',
+    strong: 'font-semibold',
+    headings: ['', 'text-base font-bold mt-2 mb-1', 'text-base font-bold mt-2 mb-1', 'font-bold mt-2 mb-1', 'font-bold mt-2 mb-1'],
+  },
+};
+
+// Maps each block / list item to the stop anchor ids it should carry
+const assignAnchors = (blocks: MdBlock[], stops: StopAnchor[]): Map<object, string[]> => {
+  const result = new Map<object, string[]>();
+  const pending = [...stops];
+  const claim = (node: object, text: string) => {
+    const lower = text.toLowerCase();
+    for (let i = 0; i < pending.length; i++) {
+      if (lower.includes(pending[i].name.toLowerCase())) {
+        result.set(node, [...(result.get(node) || []), `stop-${pending[i].id}`]);
+        pending.splice(i--, 1);
+      }
+    }
+  };
+  const visitList = (list: MdList) => list.items.forEach(item => {
+    claim(item, item.text);
+    if (item.sublist) visitList(item.sublist);
+  });
+  const visit = (block: MdBlock) => {
+    if (block.type === 'paragraph' || block.type === 'heading') claim(block, block.text);
+    else if (block.type === 'list') visitList(block);
+    else if (block.type === 'blockquote') block.children.forEach(visit);
+  };
+  blocks.forEach(visit);
+  return result;
+};
+
+const Markdown: React.FC<MarkdownProps> = ({ source, variant = 'itinerary', collapsibleDays = false, stopAnchors, highlight }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const anchors = useMemo(() => assignAnchors(blocks, stopAnchors || []), [blocks, stopAnchors]);
+  const styles = STYLES[variant];
+
+  const highlightBlock = highlight ? blocks[highlight.block] : undefined;
+  const highlighted = highlightBlock?.type === 'list' && highlight?.item !== undefined
+    ? highlightBlock.items[highlight.item]
+    : highlightBlock;
+  // Marked so the reader can scroll it into view
+  const highlightProps = (node: object) => node === highlighted ? { 'data-narrating': true } : {};
+  const highlightClass = (node: object) => node === highlighted ? HIGHLIGHT_CLASS : '';
+
+  const renderInline = (nodes: MdInline[]): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'break': return <br key={i} />;
+      case 'strong': return <strong key={i} className={styles.strong}>{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i} className="opacity-70">{renderInline(node.children)}</del>;
+      case 'code': return <code key={i} className="px-1.5 py-0.5 rounded bg-slate-100 text-indigo-800 text-[0.9em]">{node.text}</code>;
+      case 'link': {
+        const external = !node.href.startsWith('#');
+        return (
+          <a key={i} href={node.href} className="text-indigo-600 underline decoration-indigo-200 underline-offset-2 hover:decoration-indigo-500"
+             {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}>
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+    }
+  });
+
+  const renderTime = (time?: string) => time && (
+    <span className="inline-block mr-2 px-2 py-0.5 rounded-md bg-amber-100 text-amber-800 text-xs font-bold tabular-nums align-middle">{time}</span>
+  );
+
+  // Extra ids beyond the first become empty anchors so every stop link still lands
+  const anchorProps = (node: object) => {
+    const ids = anchors.get(node);
+    return ids ? { id: ids[0], className: 'scroll-mt-6' } : {};
+  };
+  const extraAnchors = (node: object) => (anchors.get(node) || []).slice(1).map(id => <span key={id} id={id} className="scroll-mt-6" />);
+
+  const renderListItem = (item: MdListItem, i: number) => {
+    const { id, className } = anchorProps(item);
+    return (
+      <li key={i} id={id} className={`${styles.li} ${className || ''} ${highlightClass(item)}`} {...highlightProps(item)}>
+        {extraAnchors(item)}
+        {renderTime(item.time)}
+        {renderInline(item.children)}
+        {item.sublist && renderList(item.sublist, 'mt-2')}
+      </li>
+    );
+  };
+
+  const renderList = (list: MdList, extraClass = ''): React.ReactNode => list.ordered
+    ? <ol start={list.start} className={`list-decimal ${styles.list} ${extraClass}`}>{list.items.map(renderListItem)}</ol>
+    : <ul className={`list-disc ${styles.list} ${extraClass}`}>{list.items.map(renderListItem)}</ul>;
+
+  const renderBlock = (block: MdBlock, key: React.Key): React.ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 1, 6)}` as keyof React.JSX.IntrinsicElements;
+        const { id } = anchorProps(block);
+        return (
+          <Tag key={key} id={id || slugify(block.text)} className={`${styles.headings[Math.min(block.level, 4)]} scroll-mt-6 ${highlightClass(block)}`} {...highlightProps(block)}>
+            {extraAnchors(block)}
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'paragraph': {
+        const { id, className } = anchorProps(block);
+        return (
+          <p key={key} id={id} className={`${styles.p} ${className || ''} ${highlightClass(block)}`} {...highlightProps(block)}>
+            {extraAnchors(block)}
+            {renderTime(block.time)}
+            {renderInline(block.children)}
+          </p>
+        );
+      }
+      case 'list':
+        return <React.Fragment key={key}>{renderList(block)}</React.Fragment>;
+      case 'table':
+        return (
+          <div key={key} className="mb-4 overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-indigo-900">
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className="px-3 py-2 font-semibold border-b border-slate-200" style={{ textAlign: block.align[c] || 'left' }}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-slate-50/50">
+                    {row.map((cell, c) => (
+                      <td key={c} className="px-3 py-2 border-b border-slate-100 text-slate-700" style={{ textAlign: block.align[c] || 'left' }}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={key} className={`mb-3 pl-4 border-l-4 border-amber-300 text-slate-600 italic ${highlightClass(block)}`} {...highlightProps(block)}>
+            {block.children.map((child, i) => renderBlock(child, i))}
+          </blockquote>
+        );
+      case 'code':
+        return <pre key={key} className="mb-3 p-3 rounded-xl bg-slate-900 text-slate-100 text-xs overflow-x-auto"><code>{block.text}</code></pre>;
+      case 'hr':
+        return <hr key={key} className="my-6 border-amber-100" />;
+    }
+  };
+
+  if (!collapsibleDays) {
+    return <>{blocks.map((block, i) => renderBlock(block, i))}</>;
+  }
+
+  // Group each "Day N" heading with everything up to the next heading of the same or higher level
+  const output: React.ReactNode[] = [];
+  let i = 0;
+  while (i < blocks.length) {
+    const block = blocks[i];
+    const dayNumber = block.type === 'heading' ? dayHeadingNumber(block.text) : null;
+    if (block.type !== 'heading' || dayNumber === null) {
+      output.push(renderBlock(block, i++));
+      continue;
+    }
+    const start = i++;
+    const body: React.ReactNode[] = [];
+    while (i < blocks.length) {
+      const next = blocks[i];
+      if (next.type === 'heading' && next.level <= block.level) break;
+      body.push(renderBlock(next, i++));
+    }
+    output.push(
+      <details key={start} open id={`day-${dayNumber}`} className="group mb-2 scroll-mt-6">
+        <summary className="cursor-pointer list-none flex items-center gap-2 [&::-webkit-details-marker]:hidden">
+          <span className="text-amber-500 text-xs transition-transform group-open:rotate-90">▶</span>
+          <span className={`${styles.headings[Math.min(block.level, 4)]} !my-3 ${highlightClass(block)}`} {...highlightProps(block)}>{renderInline(block.children)}</span>
+        </summary>
+        <div className="pl-5">{body}</div>
+      </details>
+    );
+  }
+  return <>{output}</>;
+};
+
+export default Markdown;
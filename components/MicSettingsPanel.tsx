@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { MicSettings, listMicrophones } from '../services/micSettings';
+import { useI18n } from './I18nProvider';
+
+interface MicSettingsPanelProps {
+  settings: MicSettings;
+  onChange: (settings: MicSettings) => void;
+}
+
+const CLEANUP_OPTIONS = ['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const;
+
+/**
+ * Microphone picker and browser audio cleanup switches, for the dark Live panel.
+ */
+const MicSettingsPanel: React.FC<MicSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const refresh = () => listMicrophones().then(setDevices).catch(() => setDevices([]));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  return (
+    <div className="w-full p-4 bg-indigo-950/60 border border-indigo-700/50 rounded-xl text-left text-sm space-y-3">
+      <div>
+        <label className="block text-[10px] font-bold text-amber-400 uppercase tracking-wider mb-2">{t('mic.microphone')}</label>
+        <select
+          value={settings.deviceId || ''}
+          onChange={(e) => onChange({ ...settings, deviceId: e.target.value || undefined })}
+          className="w-full px-3 py-2 bg-indigo-950/50 border border-indigo-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-amber-400 outline-none"
+        >
+          <option value="">{t('mic.systemDefault')}</option>
+          {devices.map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || t('mic.numbered', { number: i + 1 })}</option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-1.5">
+        {CLEANUP_OPTIONS.map(option => (
+          <label key={option} className="flex items-center gap-2 text-indigo-100 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[option]}
+              onChange={(e) => onChange({ ...settings, [option]: e.target.checked })}
+              className="w-4 h-4 accent-amber-500"
+            />
+            {t(`mic.${option}`)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MicSettingsPanel;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SavedTrip } from '../types';
+import { deleteTrip, duplicateTrip, listTrips, renameTrip } from '../services/tripStorage';
+import { allStops } from '../services/itinerary';
+import { SharedTrip, sharedTripFromFile } from '../services/tripShare';
+import { useI18n } from './I18nProvider';
+
+interface MyTripsProps {
+  onOpen: (trip: SavedTrip) => void;
+  onImport: (trip: SharedTrip) => void;
+}
+
+// Everything a search query can match against
+const searchableText = (trip: SavedTrip): string => [
+  trip.name,
+  trip.interests,
+  trip.response.itinerary.title,
+  ...(trip.trip?.legs.map(l => l.city) || []),
+  ...allStops(trip.response.itinerary).map(s => s.name),
+].join(' ').toLowerCase();
+
+const MyTrips: React.FC<MyTripsProps> = ({ onOpen, onImport }) => {
+  const { info, t, tn } = useI18n();
+  const [trips, setTrips] = useState<SavedTrip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const editingRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setTrips(await listTrips());
+    } catch (e) {
+      console.error("Failed to load saved trips", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (trip: SavedTrip) => {
+    editingRef.current = trip.id;
+    setEditingId(trip.id);
+    setEditName(trip.name);
+  };
+
+  // Enter commits, and the blur that follows must not commit a second time
+  const stopEditing = () => {
+    editingRef.current = null;
+    setEditingId(null);
+  };
+
+  const commitRename = async () => {
+    const id = editingRef.current;
+    const name = editName.trim();
+    stopEditing();
+    if (!id || !name) return;
+    try {
+      await renameTrip(id, name);
+    } catch (e) {
+      console.error("Failed to rename trip", e);
+      alert(t('trips.renameFailed'));
+    }
+    await refresh();
+  };
+
+  const handleDuplicate = async (trip: SavedTrip) => {
+    try {
+      await duplicateTrip(trip.id);
+    } catch (e) {
+      console.error("Failed to duplicate trip", e);
+      alert(t('trips.duplicateFailed'));
+    }
+    await refresh();
+  };
+
+  const handleDelete = async (trip: SavedTrip) => {
+    if (!window.confirm(t('trips.confirmDelete', { name: trip.name }))) return;
+    try {
+      await deleteTrip(trip.id);
+    } catch (e) {
+      console.error("Failed to delete trip", e);
+      alert(t('trips.deleteFailed'));
+    }
+    await refresh();
+  };
+
+  const handleImportFile = async (file?: File) => {
+    if (!file) return;
+    const shared = sharedTripFromFile(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!shared) {
+      alert(t('trips.importError'));
+      return;
+    }
+    onImport(shared);
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = needle ? trips.filter(trip => searchableText(trip).includes(needle)) : trips;
+
+  return (
+    <div className="space-y-6">
+        <div className="flex gap-3">
+            <input
+                type="search"
+                placeholder={t('trips.search')}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="flex-1 p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-lg shadow-sm"
+            />
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="shrink-0 px-4 rounded-xl border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 hover:text-indigo-600 font-medium shadow-sm"
+                title={t('trips.importTitle')}
+            >
+                {t('trips.import')}
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+            />
+        </div>
+
+        {loading && <p className="text-slate-400 text-sm animate-pulse">{t('trips.loading')}</p>}
+
+        {!loading && visible.length === 0 && (
+            <div className="bg-white p-8 rounded-3xl border border-slate-100 text-center text-slate-400">
+                {trips.length === 0 ? t('trips.empty') : t('trips.noMatches')}
+            </div>
+        )}
+
+        <ul className="space-y-3">
+            {visible.map(trip => {
+                const itinerary = trip.response.itinerary;
+                const stopCount = allStops(itinerary).length;
+                return (
+                    <li key={trip.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-all flex items-center gap-4">
+                        <div className="w-12 h-12 shrink-0 rounded-xl bg-amber-50 flex items-center justify-center text-2xl">🧳</div>
+                        <div className="flex-1 min-w-0">
+                            {editingId === trip.id ? (
+                                <input
+                                    autoFocus
+                                    value={editName}
+                                    onChange={(e) => setEditName(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') stopEditing();
+                                    }}
+                                    className="w-full px-2 py-1 border border-amber-300 rounded-lg outline-none focus:ring-2 focus:ring-amber-400 font-semibold text-indigo-900"
+                                />
+                            ) : (
+                                <button onClick={() => onOpen(trip)} className="text-left w-full">
+                                    <div className="font-semibold text-indigo-900 truncate hover:text-indigo-600">{trip.name}</div>
+                                </button>
+                            )}
+                            <div className="text-xs text-slate-400 mt-1">
+                                {tn('common.days', itinerary.days.length)} · {tn('common.stops', stopCount)} · {t('trips.saved', { date: new Date(trip.updatedAt).toLocaleDateString(info.tag) })}
+                            </div>
+                        </div>
+                        <div className="flex gap-1 shrink-0 text-sm">
+                            <button onClick={() => onOpen(trip)} className="px-3 py-1.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 font-medium">{t('trips.open')}</button>
+                            <button onClick={() => startRename(trip)} className="px-2 py-1.5 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-slate-50" title={t('trips.rename')}>✏️</button>
+                            <button onClick={() => handleDuplicate(trip)} className="px-2 py-1.5 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-slate-50" title={t('trips.duplicate')}>⧉</button>
+                            <button onClick={() => handleDelete(trip)} className="px-2 py-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50" title={t('trips.delete')}>🗑️</button>
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    </div>
+  );
+};
+
+export default MyTrips;
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createAudioContext } from '../services/audioUtils';
+import {
+  PHRASES, PHRASE_CATEGORIES, Phrase, PhraseCategory, PhrasebookSettings, Speaker,
+  cachedPhraseIds, downloadPhraseAudio, loadPhrasebookSettings, phraseAudio, phraseMeaning, savePhrasebookSettings, speakPhrase,
+} from '../services/phrasebook';
+import { useI18n } from './I18nProvider';
+
+type Tab = PhraseCategory | 'favorites';
+
+// Lets "sawatdee" find "sà-wàt-dii"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f-]/g, '').toLowerCase();
+
+/**
+ * Everyday Thai by situation, with the polite particle for the traveler and audio to repeat after.
+ */
+const Phrasebook: React.FC = () => {
+  const { locale, t } = useI18n();
+  const [settings, setSettings] = useState<PhrasebookSettings>(loadPhrasebookSettings);
+  const [tab, setTab] = useState<Tab>('greetings');
+  const [query, setQuery] = useState('');
+  const [playing, setPlaying] = useState<string | null>(null);
+  const [cached, setCached] = useState<Set<string>>(new Set());
+  const [download, setDownload] = useState<{ done: number; total: number } | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      downloadAbortRef.current?.abort();
+      audioContextRef.current?.close().catch(console.error);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    cachedPhraseIds(settings.speaker).then(ids => !cancelled && setCached(ids)).catch(console.error);
+    return () => { cancelled = true; };
+  }, [settings.speaker]);
+
+  const update = (changes: Partial<PhrasebookSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePhrasebookSettings(next);
+  };
+
+  const toggleFavorite = (phrase: Phrase) => {
+    const favorites = settings.favorites.includes(phrase.id)
+      ? settings.favorites.filter(id => id !== phrase.id)
+      : [...settings.favorites, phrase.id];
+    update({ favorites });
+  };
+
+  const handlePlay = async (phrase: Phrase) => {
+    if (playing) return;
+    setPlaying(phrase.id);
+    try {
+      const buffer = await phraseAudio(phrase, settings.speaker);
+      setCached(prev => new Set(prev).add(phrase.id));
+      if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
+        audioContextRef.current = createAudioContext();
+      }
+      const ctx = audioContextRef.current;
+      await ctx.resume();
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => setPlaying(current => current === phrase.id ? null : current);
+      source.start();
+    } catch (e) {
+      console.error(e);
+      alert(t('phrasebook.playFailed'));
+      setPlaying(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (download) {
+      downloadAbortRef.current?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    const speaker = settings.speaker;
+    setDownload({ done: 0, total: PHRASES.length - cached.size });
+    try {
+      await downloadPhraseAudio(speaker, { signal: controller.signal, onProgress: (done, total) => setDownload({ done, total }) });
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error(e);
+        alert(t('phrasebook.downloadFailed'));
+      }
+    } finally {
+      if (downloadAbortRef.current === controller) {
+        downloadAbortRef.current = null;
+        setDownload(null);
+        cachedPhraseIds(speaker).then(setCached).catch(console.error);
+      }
+    }
+  };
+
+  // A download in progress is for the other voice, so it stops
+  const changeSpeaker = (speaker: Speaker) => {
+    downloadAbortRef.current?.abort();
+    downloadAbortRef.current = null;
+    setDownload(null);
+    update({ speaker });
+  };
+
+  const needle = fold(query.trim());
+  const visible = needle
+    ? PHRASES.filter(phrase => [phrase.thai, phrase.romanization, phraseMeaning(phrase, locale)].some(text => fold(text).includes(needle)))
+    : tab === 'favorites'
+      ? PHRASES.filter(phrase => settings.favorites.includes(phrase.id))
+      : PHRASES.filter(phrase => phrase.category === tab);
+  const allCached = cached.size === PHRASES.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100 flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('phrasebook.speaker')}</span>
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {(['female', 'male'] as const).map(speaker => (
+              <button
+                key={speaker}
+                onClick={() => changeSpeaker(speaker)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${settings.speaker === speaker ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-indigo-600'}`}
+              >
+                {t(`phrasebook.speaker.${speaker}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="ml-auto flex items-center gap-3 text-sm">
+          <span className={allCached ? 'text-emerald-600' : 'text-slate-400'}>
+            {allCached ? `✓ ${t('phrasebook.offlineReady')}` : t('phrasebook.offlineCount', { count: cached.size, total: PHRASES.length })}
+          </span>
+          {!allCached && (
+            <button
+              onClick={handleDownload}
+              disabled={!online && !download}
+              className="px-3 py-1.5 rounded-full border border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-indigo-600 font-medium disabled:opacity-50"
+            >
+              {download ? `${t('phrasebook.downloading', { done: download.done, total: download.total })} · ${t('common.cancel')}` : `⬇ ${t('phrasebook.download')}`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!online && (
+        <div className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+          {t('phrasebook.offline')}
+        </div>
+      )}
+
+      <input
+        type="search"
+        placeholder={t('phrasebook.search')}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className="w-full p-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-lg shadow-sm"
+      />
+
+      {!needle && (
+        <div className="flex flex-wrap gap-2">
+          {[...PHRASE_CATEGORIES, { id: 'favorites' as const, icon: '★' }].map(category => (
+            <button
+              key={category.id}
+              onClick={() => setTab(category.id)}
+              className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${tab === category.id ? 'bg-indigo-600 text-white shadow-sm' : 'bg-white text-slate-600 border border-slate-200 hover:text-indigo-600'}`}
+            >
+              {category.icon} {t(`phrasebook.category.${category.id}`)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <div className="bg-white p-8 rounded-3xl border border-slate-100 text-center text-slate-400">
+          {needle ? t('phrasebook.noMatches') : t('phrasebook.noFavorites')}
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(phrase => {
+          const spoken = speakPhrase(phrase, settings.speaker);
+          const favorite = settings.favorites.includes(phrase.id);
+          const playable = online || cached.has(phrase.id);
+          return (
+            <li key={phrase.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-4">
+              <button
+                onClick={() => handlePlay(phrase)}
+                disabled={!!playing || !playable}
+                className={`w-12 h-12 shrink-0 rounded-full flex items-center justify-center text-lg transition-colors disabled:opacity-40 ${playing === phrase.id ? 'bg-amber-500 text-white animate-pulse' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+                title={t('phrasebook.play')}
+              >
+                {playing === phrase.id ? '🔊' : '▶'}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="text-2xl font-semibold text-indigo-900" lang="th">{spoken.thai}</div>
+                <div className="text-indigo-600 font-medium">{spoken.romanization}</div>
+                <div className="text-sm text-slate-500">{phraseMeaning(phrase, locale)}</div>
+              </div>
+              {cached.has(phrase.id) && <span className="shrink-0 text-xs text-emerald-500" title={t('phrasebook.playsOffline')}>⬇</span>}
+              <button
+                onClick={() => toggleFavorite(phrase)}
+                className={`shrink-0 text-2xl transition-colors ${favorite ? 'text-amber-500' : 'text-slate-300 hover:text-amber-400'}`}
+                title={favorite ? t('phrasebook.unfavorite') : t('phrasebook.favorite')}
+              >
+                {favorite ? '★' : '☆'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default Phrasebook;
@@ -1,17 +1,25 @@
 import React, { useEffect, useState } from 'react';
-import '../types';
+import { GeoPoint, ItineraryStop } from '../types';
+import { formatCost, formatDuration } from '../services/itinerary';
+import { useI18n } from './I18nProvider';
 
 interface PlaceCardProps {
   query: string;
+  stop?: ItineraryStop;
   onPlaceSelect?: (location: google.maps.LatLng) => void;
+  onResolved?: (stopId: string, location: GeoPoint) => void;
+  // Pins the stop to its time and slot, e.g. a booked dinner the route optimizer must not move
+  onToggleFixed?: (stopId: string) => void;
 }
 
-const PlaceCard: React.FC<PlaceCardProps> = ({ query, onPlaceSelect }) => {
+const PlaceCard: React.FC<PlaceCardProps> = ({ query, stop, onPlaceSelect, onResolved, onToggleFixed }) => {
+  const { t } = useI18n();
   const [placeId, setPlaceId] = useState<string | null>(null);
   const [error, setError] = useState(false);
 
   useEffect(() => {
     if (!query) return;
+    setError(false);
 
     const fetchPlaceId = async () => {
       try {
@@ -29,8 +37,12 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ query, onPlaceSelect }) => {
           if (status === google.maps.places.PlacesServiceStatus.OK && results && results[0]) {
             const pid = results[0].place_id;
             setPlaceId(pid || null);
-            if (results[0].geometry?.location && onPlaceSelect) {
-                onPlaceSelect(results[0].geometry.location);
+            const location = results[0].geometry?.location;
+            if (location && onPlaceSelect) {
+                onPlaceSelect(location);
+            }
+            if (location && stop && onResolved) {
+                onResolved(stop.id, { lat: location.lat(), lng: location.lng() });
             }
           } else {
             console.warn(`Place not found for: ${query}`);
@@ -46,10 +58,35 @@ const PlaceCard: React.FC<PlaceCardProps> = ({ query, onPlaceSelect }) => {
     fetchPlaceId();
   }, [query]);
 
-  if (error || !placeId) return null;
+  const stopHeader = stop && (
+    <div className="flex items-baseline gap-2 text-sm mb-2">
+        {stop.time && <span className="font-bold text-amber-600 tabular-nums">{stop.time}</span>}
+        <a href={`#stop-${stop.id}`} className="font-semibold text-indigo-900 truncate hover:text-indigo-600" title={t('place.jumpToStop')}>{stop.name}</a>
+        <span className="ml-auto shrink-0 text-xs text-slate-400">
+            {[
+                stop.durationMinutes ? formatDuration(stop.durationMinutes) : null,
+                stop.cost ? formatCost(stop.cost.amount, stop.cost.currency) : null,
+            ].filter(Boolean).join(' · ')}
+        </span>
+        {onToggleFixed && (
+            <button
+                onClick={() => onToggleFixed(stop.id)}
+                className={`shrink-0 text-xs transition-opacity ${stop.fixed ? 'opacity-100' : 'opacity-30 hover:opacity-70'}`}
+                title={stop.fixed ? t('place.unpin') : t('place.pin')}
+            >
+                📌
+            </button>
+        )}
+    </div>
+  );
+
+  if (error || !placeId) {
+    return stopHeader ? <div className="my-4 animate-fade-in">{stopHeader}</div> : null;
+  }
 
   return (
     <div className="my-4 animate-fade-in">
+        {stopHeader}
         {/* Wrapper for custom element to ensure correct rendering in React */}
         <gmp-place-details-compact>
             <gmp-place-details-place-request place={placeId}></gmp-place-details-place-request>
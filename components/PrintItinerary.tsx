@@ -0,0 +1,70 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Itinerary } from '../types';
+import { formatCost, formatDuration } from '../services/itinerary';
+import { TRANSFER_ICONS } from '../services/tripPlanner';
+import { useI18n } from './I18nProvider';
+import Markdown from './Markdown';
+
+interface PrintItineraryProps {
+  content: string;
+  itinerary: Itinerary;
+}
+
+/**
+ * Paper version of a plan: one block per day with a stop table, then Somsri's notes.
+ * Rendered straight into <body> and only visible when printing (see index.html).
+ */
+const PrintItinerary: React.FC<PrintItineraryProps> = ({ content, itinerary }) => {
+  const { info, t } = useI18n();
+  return createPortal(
+  <div className="print-only p-8 text-slate-900 font-sans">
+      <h1 className="text-3xl font-bold text-indigo-950 mb-1">{itinerary.title}</h1>
+      {itinerary.summary && <p className="text-slate-600 mb-6">{itinerary.summary}</p>}
+
+      {itinerary.days.map(day => (
+          <section key={day.day} className="mb-8 break-inside-avoid">
+              <h2 className="text-xl font-bold text-indigo-900 border-b-2 border-amber-400 pb-1 mb-3">
+                  {t('common.day', { day: day.day })}: {day.title}
+                  {day.date && (
+                      <span className="ml-2 text-sm font-normal text-slate-500">
+                          {new Date(`${day.date}T00:00:00Z`).toLocaleDateString(info.tag, { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' })}
+                      </span>
+                  )}
+              </h2>
+              {day.transfer && (
+                  <p className="mb-3 text-sm">
+                      {TRANSFER_ICONS[day.transfer.mode]} <strong>{day.transfer.from} → {day.transfer.to}</strong>
+                      {day.transfer.departureTime && `, ${t('print.departs', { time: day.transfer.departureTime })}`}
+                      {day.transfer.durationMinutes && ` (${formatDuration(day.transfer.durationMinutes)})`}
+                  </p>
+              )}
+              <table className="w-full text-sm border-collapse">
+                  <tbody>
+                      {day.stops.map(stop => (
+                          <tr key={stop.id} className="border-b border-slate-200 align-top">
+                              <td className="py-2 pr-3 w-16 font-bold tabular-nums">{stop.time || ''}</td>
+                              <td className="py-2 pr-3">
+                                  <div className="font-semibold">{stop.name}{stop.fixed ? ` (${t('print.booked')})` : ''}</div>
+                                  {stop.description && <div className="text-slate-600">{stop.description}</div>}
+                                  {stop.openingHours && <div className="text-xs text-slate-500">{t('print.open', { open: stop.openingHours.open, close: stop.openingHours.close })}</div>}
+                              </td>
+                              <td className="py-2 pr-3 w-20 text-slate-600">{stop.durationMinutes ? formatDuration(stop.durationMinutes) : ''}</td>
+                              <td className="py-2 w-20 text-right">{stop.cost ? formatCost(stop.cost.amount, stop.cost.currency) : ''}</td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </section>
+      ))}
+
+      <section className="break-before-page">
+          <h2 className="text-xl font-bold text-indigo-900 border-b-2 border-amber-400 pb-1 mb-3">{t('print.notes')}</h2>
+          <Markdown source={content} />
+      </section>
+  </div>,
+  document.body
+  );
+};
+
+export default PrintItinerary;
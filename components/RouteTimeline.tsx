@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ItineraryStop } from '../types';
+import { formatDuration, minutesToTime } from '../services/itinerary';
+import { DEFAULT_DAY_END, RouteLeg, buildDayTimeline, defaultStartTime } from '../services/routeTimeline';
+import { useI18n } from './I18nProvider';
+
+interface RouteTimelineProps {
+  stops: ItineraryStop[]; // Route stops of one day, in driving order (see routeStops)
+  legs: RouteLeg[];
+}
+
+const RouteTimeline: React.FC<RouteTimelineProps> = ({ stops, legs }) => {
+  const { t, tn } = useI18n();
+  const [startTime, setStartTime] = useState(() => defaultStartTime(stops));
+  const [dayEnd, setDayEnd] = useState(DEFAULT_DAY_END);
+
+  // A different day (or a reordered one) starts from its own first planned time
+  const firstStopId = stops[0]?.id;
+  useEffect(() => {
+    setStartTime(defaultStartTime(stops));
+  }, [firstStopId]);
+
+  const timeline = useMemo(() => buildDayTimeline(stops, legs, startTime || '09:00', dayEnd || DEFAULT_DAY_END), [stops, legs, startTime, dayEnd]);
+  const warningCount = timeline.entries.reduce((n, e) => n + e.warnings.length, 0) + (timeline.overrunMinutes > 0 ? 1 : 0);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-indigo-100/50 p-6 border border-slate-100 mb-6 animate-fade-in">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-5">
+            <div>
+                <h3 className="font-bold text-indigo-900 text-lg">{t('route.title')}</h3>
+                <p className="text-xs text-slate-400">
+                    {tn('common.stops', timeline.entries.length)} · {t('route.backBy', { time: minutesToTime(timeline.end) })}
+                    {warningCount > 0 && <span className="text-amber-600 font-semibold"> · {t('route.toCheck', { count: warningCount })}</span>}
+                </p>
+            </div>
+            <div className="flex gap-3">
+                <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('route.start')}</label>
+                    <input
+                        type="time"
+                        value={startTime}
+                        onChange={(e) => setStartTime(e.target.value)}
+                        className="p-2 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900 text-sm"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('route.doneBy')}</label>
+                    <input
+                        type="time"
+                        value={dayEnd}
+                        onChange={(e) => setDayEnd(e.target.value)}
+                        className="p-2 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900 text-sm"
+                    />
+                </div>
+            </div>
+        </div>
+
+        {timeline.overrunMinutes > 0 && (
+            <div className="mb-4 px-4 py-3 rounded-xl bg-rose-50 border border-rose-100 text-sm text-rose-800">
+                ⚠️ {t('route.overrun', { time: formatDuration(timeline.overrunMinutes), end: dayEnd })}
+            </div>
+        )}
+
+        <ol className="relative border-l-2 border-amber-100 ml-3">
+            {timeline.entries.map((entry, i) => (
+                <li key={`${entry.stop.id}-${i}`} className="ml-5 pb-4 last:pb-0">
+                    {entry.legIn && (
+                        <div className="-ml-5 pl-5 mb-3 text-xs text-slate-400">
+                            🚗 {(entry.legIn.distanceMeters / 1000).toFixed(1)} km · {formatDuration(entry.legIn.durationSeconds / 60)}
+                        </div>
+                    )}
+                    <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${entry.warnings.length ? 'bg-amber-500' : 'bg-indigo-900'}`}></span>
+                    <div className="flex items-baseline gap-3">
+                        <span className="text-xs font-bold text-amber-600 tabular-nums shrink-0 w-24">
+                            {minutesToTime(entry.arrival)}{entry.departure !== entry.arrival ? `–${minutesToTime(entry.departure)}` : ''}
+                        </span>
+                        <a href={`#stop-${entry.stop.id}`} className="text-sm font-semibold text-indigo-900 hover:text-indigo-600 truncate">{entry.stop.name}</a>
+                        {entry.stop.fixed && <span className="text-xs" title={t('route.booked')}>📌</span>}
+                    </div>
+                    {entry.warnings.map((warning, w) => (
+                        <p key={w} className="ml-[6.75rem] mt-1 text-xs text-amber-700">⚠️ {t(`route.warning.${warning.kind}`, warning)}</p>
+                    ))}
+                </li>
+            ))}
+        </ol>
+    </div>
+  );
+};
+
+export default RouteTimeline;
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createAudioContext } from '../services/audioUtils';
+import { generateSpeech } from '../services/geminiService';
+import { GuideSettings, PACE_OPTIONS, PREBUILT_VOICES, VERBOSITY_OPTIONS, loadGuideSettings, saveGuideSettings } from '../services/guideSettings';
+import { LOCALES } from '../services/i18n';
+import {
+  BUDGET_OPTIONS, COMPANION_OPTIONS, DIETARY_OPTIONS, MOBILITY_OPTIONS, TRAVEL_PACE_OPTIONS, TravelerProfile,
+  loadTravelerProfile, saveTravelerProfile,
+} from '../services/travelerProfile';
+import { useI18n } from './I18nProvider';
+
+const PERSONA_OPTIONS = ['politeParticles', 'foodMetaphors'] as const;
+
+const labelClass = 'block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2';
+
+/**
+ * Who the traveler is and how Somsri sounds and talks. Changes are saved as they're
+ * made and apply to the next plan, chat, reading or Live conversation.
+ */
+const Settings: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  const [settings, setSettings] = useState<GuideSettings>(loadGuideSettings);
+  const [profile, setProfile] = useState<TravelerProfile>(loadTravelerProfile);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const previewContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => () => {
+    previewContextRef.current?.close().catch(console.error);
+  }, []);
+
+  const update = (changes: Partial<GuideSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveGuideSettings(next);
+  };
+
+  const updateProfile = (changes: Partial<TravelerProfile>) => {
+    const next = { ...profile, ...changes };
+    setProfile(next);
+    saveTravelerProfile(next);
+  };
+
+  const toggle = <T extends string>(list: T[], item: T): T[] =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const handlePreview = async (voiceName: string) => {
+    if (previewing) return;
+    setPreviewing(voiceName);
+    try {
+      const buffer = await generateSpeech(t('settings.previewText'), { voiceName, locale });
+      previewContextRef.current?.close().catch(console.error);
+      const ctx = createAudioContext();
+      previewContextRef.current = ctx;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start();
+    } catch (e) {
+      console.error(e);
+      alert(t('settings.previewError'));
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const voicePicker = (key: 'ttsVoice' | 'liveVoice', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <div className="flex gap-2">
+        <select
+          value={settings[key]}
+          onChange={(e) => update({ [key]: e.target.value })}
+          className="flex-1 p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none"
+        >
+          {PREBUILT_VOICES.map(voice => (
+            <option key={voice.name} value={voice.name}>{voice.name} · {t(`settings.voiceStyle.${voice.style}`)}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => handlePreview(settings[key])}
+          disabled={!!previewing}
+          className="shrink-0 px-4 rounded-xl border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 hover:text-indigo-600 font-medium disabled:opacity-60"
+          title={t('settings.previewVoice')}
+        >
+          {previewing === settings[key] ? <span className="animate-pulse">...</span> : '▶'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const segmented = <T extends string>(options: T[], label: (option: T) => string, value: T, onChange: (value: T) => void) => (
+    <div className="flex bg-slate-100 rounded-xl p-1">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${value === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-indigo-600'}`}
+        >
+          {label(option)}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-5">
+        <h2 className="text-lg font-bold text-indigo-900 border-l-4 border-amber-400 pl-3">{t('settings.language')}</h2>
+        <div>
+          {segmented(LOCALES.map(info => info.code), code => LOCALES.find(info => info.code === code)!.name, locale, setLocale)}
+          <p className="text-sm text-slate-400 mt-2">{t('settings.languageHint')}</p>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-5">
+        <div>
+          <h2 className="text-lg font-bold text-indigo-900 border-l-4 border-amber-400 pl-3">{t('profile.title')}</h2>
+          <p className="text-sm text-slate-400 mt-2">{t('profile.hint')}</p>
+        </div>
+        <div>
+          <label className={labelClass}>{t('profile.diet')}</label>
+          <div className="flex flex-wrap gap-2">
+            {DIETARY_OPTIONS.map(need => (
+              <button
+                key={need}
+                onClick={() => updateProfile({ diet: toggle(profile.diet, need) })}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${profile.diet.includes(need) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:text-indigo-600'}`}
+              >
+                {t(`profile.diet.${need}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>{t('profile.allergies')}</label>
+          <input
+            type="text"
+            value={profile.allergies}
+            placeholder={t('profile.allergiesPlaceholder')}
+            onChange={(e) => updateProfile({ allergies: e.target.value })}
+            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>{t('profile.mobility')}</label>
+          {segmented(MOBILITY_OPTIONS, mobility => t(`profile.mobility.${mobility}`), profile.mobility, mobility => updateProfile({ mobility }))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>{t('profile.pace')}</label>
+            {segmented(TRAVEL_PACE_OPTIONS, pace => t(`profile.pace.${pace}`), profile.pace, pace => updateProfile({ pace }))}
+          </div>
+          <div>
+            <label className={labelClass}>{t('profile.budget')}</label>
+            {segmented(BUDGET_OPTIONS, budget => t(`profile.budget.${budget}`), profile.budget, budget => updateProfile({ budget }))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>{t('profile.companions')}</label>
+          <div className="flex flex-wrap gap-6">
+            {COMPANION_OPTIONS.map(companion => (
+              <label key={companion} className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={profile.companions.includes(companion)}
+                  onChange={() => updateProfile({ companions: toggle(profile.companions, companion) })}
+                  className="w-4 h-4 accent-amber-500"
+                />
+                <span className="font-medium text-slate-700">{t(`profile.companions.${companion}`)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>{t('profile.interests')}</label>
+          <input
+            type="text"
+            value={profile.interests}
+            placeholder={t('planner.interestsPlaceholder')}
+            onChange={(e) => updateProfile({ interests: e.target.value })}
+            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none"
+          />
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-5">
+        <h2 className="text-lg font-bold text-indigo-900 border-l-4 border-amber-400 pl-3">{t('settings.voice')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {voicePicker('ttsVoice', t('settings.ttsVoice'))}
+          {voicePicker('liveVoice', t('settings.liveVoice'))}
+        </div>
+        <div>
+          <label className={labelClass}>{t('settings.pace')}</label>
+          {segmented(PACE_OPTIONS, pace => t(`settings.pace.${pace}`), settings.pace, pace => update({ pace }))}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-5">
+        <h2 className="text-lg font-bold text-indigo-900 border-l-4 border-amber-400 pl-3">{t('settings.style')}</h2>
+        <div>
+          <label className={labelClass}>{t('settings.verbosity')}</label>
+          {segmented(VERBOSITY_OPTIONS, verbosity => t(`settings.verbosity.${verbosity}`), settings.verbosity, verbosity => update({ verbosity }))}
+        </div>
+        <div className="space-y-3">
+          {PERSONA_OPTIONS.map(option => (
+            <label key={option} className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[option]}
+                onChange={(e) => update({ [option]: e.target.checked })}
+                className="w-4 h-4 accent-amber-500"
+              />
+              <span className="font-medium text-slate-700">{t(`settings.persona.${option}`)}</span>
+              <span className="text-sm text-slate-400">{t(`settings.persona.${option}.hint`)}</span>
+            </label>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { TripLeg, TripRequest } from '../types';
+import { CITIES, MAX_TRAVELERS, TRANSFER_PREFERENCES, minNights, planTripDays, setTripEndDate, totalNights, tripEndDate, tripTravelers } from '../services/tripPlanner';
+import { formatCost } from '../services/itinerary';
+import { useI18n } from './I18nProvider';
+
+interface TripBuilderProps {
+  value: TripRequest;
+  onChange: (value: TripRequest) => void;
+}
+
+const MAX_NIGHTS_PER_CITY = 14;
+
+const TripBuilder: React.FC<TripBuilderProps> = ({ value, onChange }) => {
+  const { t, tn } = useI18n();
+  const { legs } = value;
+  const days = planTripDays(value);
+  const min = minNights(value);
+  const travelers = tripTravelers(value);
+
+  const updateLeg = (index: number, patch: Partial<TripLeg>) => {
+    onChange({ ...value, legs: legs.map((leg, i) => i === index ? { ...leg, ...patch } : leg) });
+  };
+
+  const moveLeg = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= legs.length) return;
+    const next = [...legs];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange({ ...value, legs: next });
+  };
+
+  const removeLeg = (index: number) => {
+    if (legs.length === 1) return;
+    onChange({ ...value, legs: legs.filter((_, i) => i !== index) });
+  };
+
+  const addLeg = () => {
+    const used = new Set(legs.map(l => l.city));
+    const city = CITIES.find(c => !used.has(c)) || CITIES[0];
+    // Turning a day trip into a multi-city trip needs a night in the first city too
+    const existing = legs.map(leg => ({ ...leg, nights: Math.max(1, leg.nights) }));
+    onChange({ ...value, legs: [...existing, { city, nights: 2 }] });
+  };
+
+  const handleBudget = (text: string) => {
+    const amount = parseInt(text, 10);
+    onChange({ ...value, budgetTHB: amount > 0 ? amount : undefined });
+  };
+
+  const handleEndDate = (endIso: string) => {
+    if (!endIso || endIso < value.startDate) return;
+    onChange(setTripEndDate(value, endIso));
+  };
+
+  return (
+    <div className="md:col-span-2 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('tripBuilder.arrive')}</label>
+                <input
+                    type="date"
+                    value={value.startDate}
+                    onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900"
+                />
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('tripBuilder.depart')}</label>
+                <input
+                    type="date"
+                    value={tripEndDate(value)}
+                    min={value.startDate}
+                    onChange={(e) => handleEndDate(e.target.value)}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900"
+                />
+            </div>
+        </div>
+
+        <div>
+            <div className="flex items-baseline justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">{t('tripBuilder.route')}</label>
+                <span className="text-xs text-slate-400">{tn('common.days', days.length)} · {tn('common.nights', totalNights(value))}</span>
+            </div>
+            <ol className="space-y-2">
+                {legs.map((leg, idx) => (
+                    <li key={idx} className="flex items-center gap-2">
+                        <span className="w-6 h-6 shrink-0 rounded-full bg-amber-100 text-amber-700 text-xs font-bold flex items-center justify-center">{idx + 1}</span>
+                        <div className="relative flex-1">
+                            <select
+                                value={leg.city}
+                                onChange={(e) => updateLeg(idx, { city: e.target.value })}
+                                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none appearance-none font-medium text-indigo-900"
+                            >
+                                {CITIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">▼</div>
+                        </div>
+                        <input
+                            type="number"
+                            min={min}
+                            max={MAX_NIGHTS_PER_CITY}
+                            value={leg.nights}
+                            onChange={(e) => updateLeg(idx, { nights: Math.min(MAX_NIGHTS_PER_CITY, Math.max(min, parseInt(e.target.value, 10) || min)) })}
+                            className="w-16 p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 outline-none text-center"
+                            title={t('tripBuilder.nights')}
+                        />
+                        <span className="text-xs text-slate-400 w-10">{tn('tripBuilder.nightsUnit', leg.nights)}</span>
+                        <div className="flex flex-col">
+                            <button onClick={() => moveLeg(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-20 text-xs leading-none p-0.5" title={t('common.moveUp')}>▲</button>
+                            <button onClick={() => moveLeg(idx, 1)} disabled={idx === legs.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-20 text-xs leading-none p-0.5" title={t('common.moveDown')}>▼</button>
+                        </div>
+                        <button
+                            onClick={() => removeLeg(idx)}
+                            disabled={legs.length === 1}
+                            className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-0 transition-colors"
+                            title={t('tripBuilder.removeCity')}
+                        >
+                            ✕
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <div className="flex items-center justify-between mt-3 gap-4">
+                <button
+                    onClick={addLeg}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+                >
+                    + {t('tripBuilder.addCity')}
+                </button>
+                {legs.length > 1 && (
+                    <select
+                        value={value.transferPreference}
+                        onChange={(e) => onChange({ ...value, transferPreference: e.target.value as TripRequest['transferPreference'] })}
+                        className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600 outline-none focus:ring-2 focus:ring-amber-400"
+                        title={t('tripBuilder.transfers')}
+                    >
+                        {TRANSFER_PREFERENCES.map(p => <option key={p} value={p}>{t(`tripBuilder.transfer.${p}`)}</option>)}
+                    </select>
+                )}
+            </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('tripBuilder.travelers')}</label>
+                <input
+                    type="number"
+                    min={1}
+                    max={MAX_TRAVELERS}
+                    value={travelers}
+                    onChange={(e) => onChange({ ...value, travelers: Math.min(MAX_TRAVELERS, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900"
+                />
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('tripBuilder.budget')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">฿</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={1000}
+                        placeholder={t('tripBuilder.noBudget')}
+                        value={value.budgetTHB ?? ''}
+                        onChange={(e) => handleBudget(e.target.value)}
+                        className="w-full p-3 pl-7 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none text-indigo-900"
+                    />
+                </div>
+                {value.budgetTHB && (
+                    <p className="text-xs text-slate-400 mt-1">
+                        {t('tripBuilder.budgetPerDay', { amount: formatCost(Math.round(value.budgetTHB / travelers / days.length)) })}
+                    </p>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default TripBuilder;
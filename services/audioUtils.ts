@@ -1,3 +1,11 @@
+type PrefixedAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// Older Safari only has the prefixed constructor
+export function createAudioContext(options?: AudioContextOptions): AudioContext {
+  const Context = window.AudioContext || (window as PrefixedAudioWindow).webkitAudioContext;
+  return new Context(options);
+}
+
 // Decodes base64 string to Uint8Array
 export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -29,6 +37,15 @@ export function float32ToPCM16(float32Array: Float32Array): Uint8Array {
   return new Uint8Array(int16Array.buffer);
 }
 
+const copyPCM16 = (dataInt16: Int16Array, buffer: AudioBuffer, numChannels: number) => {
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+};
+
 // Decode raw PCM data (Live API output) to AudioBuffer
 export async function decodeAudioData(
   data: Uint8Array,
@@ -39,12 +56,18 @@ export async function decodeAudioData(
   const dataInt16 = new Int16Array(data.buffer);
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  copyPCM16(dataInt16, buffer, numChannels);
+  return buffer;
+}
 
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
+// Same as decodeAudioData, without needing an AudioContext (any context can play the result)
+export function pcm16ToAudioBuffer(
+  data: Uint8Array,
+  sampleRate: number = 24000,
+  numChannels: number = 1
+): AudioBuffer {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength >> 1);
+  const buffer = new AudioBuffer({ length: Math.max(1, dataInt16.length / numChannels), numberOfChannels: numChannels, sampleRate });
+  copyPCM16(dataInt16, buffer, numChannels);
   return buffer;
 }
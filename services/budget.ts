@@ -0,0 +1,123 @@
+import { ExtraCost, Itinerary, StopCategory, StopCost } from "../types";
+import { toTHB } from "./currency";
+
+// The trip's cost sheet: every stop, transfer and hand-added cost of an itinerary, in baht per person.
+
+export type CostCategory = 'sights' | 'food' | 'transport' | 'lodging' | 'shopping' | 'other';
+
+export const COST_CATEGORIES: CostCategory[] = ['sights', 'food', 'transport', 'lodging', 'shopping', 'other'];
+
+const STOP_COST_CATEGORIES: Record<StopCategory, CostCategory> = {
+  attraction: 'sights',
+  activity: 'sights',
+  meal: 'food',
+  transfer: 'transport',
+  hotel: 'lodging',
+  shopping: 'shopping',
+};
+
+// Where a line's amount lives in the itinerary, so edits can be written back
+export type CostRef =
+  | { kind: 'stop'; stopId: string }
+  | { kind: 'transfer'; day: number }
+  | { kind: 'extra'; id: string };
+
+export interface CostLine {
+  ref: CostRef;
+  day?: number;
+  label: string;
+  category: CostCategory;
+  cost?: StopCost; // As planned, in whatever currency the model used
+  thb?: number; // Per person; unset when there's no estimate or no rate for its currency
+}
+
+export interface CostSheet {
+  lines: CostLine[];
+  dayTotals: { day: number; perPerson: number }[];
+  tripWideTotal: number; // Per person, for extra costs not tied to a day
+  perPerson: number;
+  group: number;
+  byCategory: Record<CostCategory, number>; // Per person
+  unpriced: number; // Stops and transfers without an estimate
+  missingRates: string[]; // Currencies the rate table can't convert
+}
+
+const lineFromCost = (ref: CostRef, day: number | undefined, label: string, category: CostCategory, cost: StopCost | undefined, rates: Record<string, number>): CostLine => ({
+  ref,
+  day,
+  label,
+  category,
+  cost,
+  thb: cost ? toTHB(cost.amount, cost.currency, rates) ?? undefined : undefined,
+});
+
+export const buildCostSheet = (itinerary: Itinerary, rates: Record<string, number>, travelers: number): CostSheet => {
+  const lines: CostLine[] = [];
+  for (const day of itinerary.days) {
+    if (day.transfer) {
+      const { from, to } = day.transfer;
+      lines.push(lineFromCost({ kind: 'transfer', day: day.day }, day.day, `${from} → ${to}`, 'transport', day.transfer.cost, rates));
+    }
+    for (const stop of day.stops) {
+      lines.push(lineFromCost({ kind: 'stop', stopId: stop.id }, day.day, stop.name, STOP_COST_CATEGORIES[stop.category], stop.cost, rates));
+    }
+  }
+  for (const extra of itinerary.extraCosts || []) {
+    lines.push({ ref: { kind: 'extra', id: extra.id }, day: extra.day, label: extra.label, category: 'other', thb: extra.amount });
+  }
+
+  const byCategory = Object.fromEntries(COST_CATEGORIES.map(c => [c, 0])) as Record<CostCategory, number>;
+  for (const line of lines) byCategory[line.category] += line.thb ?? 0;
+
+  const sumFor = (day: number | undefined) => lines.filter(l => l.day === day).reduce((sum, l) => sum + (l.thb ?? 0), 0);
+  const perPerson = lines.reduce((sum, l) => sum + (l.thb ?? 0), 0);
+
+  return {
+    lines,
+    dayTotals: itinerary.days.map(d => ({ day: d.day, perPerson: sumFor(d.day) })),
+    tripWideTotal: sumFor(undefined),
+    perPerson,
+    group: perPerson * travelers,
+    byCategory,
+    unpriced: lines.filter(l => l.ref.kind !== 'extra' && !l.cost).length,
+    missingRates: [...new Set(lines.filter(l => l.cost && l.thb === undefined).map(l => l.cost!.currency))],
+  };
+};
+
+/**
+ * Writes a per-person amount in baht back to where the line came from. An undefined
+ * amount clears the estimate (extra costs are removed instead).
+ */
+export const setCostAmount = (itinerary: Itinerary, ref: CostRef, amountTHB: number | undefined): Itinerary => {
+  const priced = (cost: StopCost | undefined): StopCost | undefined =>
+    amountTHB === undefined ? undefined : { amount: amountTHB, currency: 'THB', note: cost?.note };
+
+  switch (ref.kind) {
+    case 'stop':
+      return {
+        ...itinerary,
+        days: itinerary.days.map(day => day.stops.some(s => s.id === ref.stopId)
+          ? { ...day, stops: day.stops.map(s => s.id === ref.stopId ? { ...s, cost: priced(s.cost) } : s) }
+          : day),
+      };
+    case 'transfer':
+      return {
+        ...itinerary,
+        days: itinerary.days.map(day => day.day === ref.day && day.transfer
+          ? { ...day, transfer: { ...day.transfer, cost: priced(day.transfer.cost) } }
+          : day),
+      };
+    case 'extra': {
+      const extraCosts = amountTHB === undefined
+        ? itinerary.extraCosts?.filter(c => c.id !== ref.id)
+        : itinerary.extraCosts?.map(c => c.id === ref.id ? { ...c, amount: amountTHB } : c);
+      return { ...itinerary, extraCosts: extraCosts?.length ? extraCosts : undefined };
+    }
+  }
+};
+
+export const addExtraCost = (itinerary: Itinerary, cost: Omit<ExtraCost, 'id'>): Itinerary => {
+  const existing = itinerary.extraCosts || [];
+  const next = Math.max(0, ...existing.map(c => parseInt(c.id.slice(1), 10) || 0)) + 1;
+  return { ...itinerary, extraCosts: [...existing, { id: `x${next}`, ...cost }] };
+};
@@ -0,0 +1,88 @@
+import { ChatMessage, Conversation } from "../types";
+import { ChatTurn } from "./providers/types";
+import { STORES, deleteOne, getAll, getOne, putOne } from "./db";
+
+export const CONVERSATION_SCHEMA_VERSION = 1;
+
+const TITLE_LENGTH = 40;
+
+const newConversationId = (): string => `chat_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Until renamed, a thread is named after its first question
+export const titleFromMessage = (text: string): string => {
+  const line = text.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line || 'New chat';
+};
+
+/**
+ * The turns to replay into a resumed chat: finished user/model messages, without
+ * failed replies or the question that failed.
+ */
+export const conversationHistory = (messages: ChatMessage[]): ChatTurn[] => {
+  const turns: ChatTurn[] = [];
+  for (const message of messages) {
+    if (message.isThinking) continue;
+    if (message.isError) {
+      if (turns[turns.length - 1]?.role === 'user') turns.pop();
+      continue;
+    }
+    turns.push({ role: message.role, text: message.text });
+  }
+  return turns;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isChatMessage = (raw: unknown): raw is ChatMessage =>
+  isRecord(raw) && typeof raw.id === 'string' && (raw.role === 'user' || raw.role === 'model') && typeof raw.text === 'string';
+
+// Stored threads are read back untrusted: skip ones the sidebar or chat couldn't show, or from a newer schema
+const isConversation = (raw: unknown): raw is Conversation => {
+  if (!isRecord(raw)) return false;
+  const version = raw.schemaVersion ?? 1;
+  return typeof raw.id === 'string' && typeof raw.title === 'string' && typeof raw.updatedAt === 'string'
+    && Array.isArray(raw.messages) && raw.messages.every(isChatMessage)
+    && typeof version === 'number' && version <= CONVERSATION_SCHEMA_VERSION;
+};
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const records = await getAll<unknown>(STORES.conversations);
+  return records
+    .filter(isConversation)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  const record = await getOne<unknown>(STORES.conversations, id);
+  return isConversation(record) ? record : null;
+};
+
+/**
+ * Stores the messages of a thread, creating it (titled after the first question) when `id` is missing.
+ */
+export const saveConversation = async (messages: ChatMessage[], id?: string): Promise<Conversation> => {
+  const now = new Date().toISOString();
+  const existing = id ? await getConversation(id) : null;
+  const firstQuestion = messages.find(m => m.role === 'user');
+  const record: Conversation = {
+    schemaVersion: CONVERSATION_SCHEMA_VERSION,
+    id: existing?.id || newConversationId(),
+    title: existing?.title || titleFromMessage(firstQuestion?.text || ''),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    // Placeholders for replies still being written are never stored
+    messages: messages.filter(m => !m.isThinking),
+  };
+  await putOne(STORES.conversations, record);
+  return record;
+};
+
+export const renameConversation = async (id: string, title: string): Promise<Conversation | null> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return null;
+  const renamed = { ...conversation, title };
+  await putOne(STORES.conversations, renamed);
+  return renamed;
+};
+
+export const deleteConversation = (id: string): Promise<undefined> => deleteOne(STORES.conversations, id);
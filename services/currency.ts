@@ -0,0 +1,84 @@
+import { Locale, localeInfo } from "./i18n";
+
+// Converting baht into the traveler's home currency. There's no live exchange-rate
+// feed: the table starts from rough rates and the traveler can type in today's.
+
+const STORAGE_KEY = 'thai_guide_currency';
+
+// Baht for one unit of each currency
+export const DEFAULT_THB_RATES: Record<string, number> = {
+  THB: 1,
+  USD: 33,
+  EUR: 37,
+  GBP: 43,
+  CNY: 4.6,
+  KRW: 0.024,
+  JPY: 0.22,
+  AUD: 21.5,
+  SGD: 25,
+};
+
+export const CURRENCIES = Object.keys(DEFAULT_THB_RATES);
+
+const LOCALE_CURRENCIES: Record<Locale, string> = { en: 'USD', zh: 'CNY', de: 'EUR', ko: 'KRW', th: 'THB' };
+
+export interface CurrencySettings {
+  home: string;
+  rates: Record<string, number>; // Baht per unit
+  ratesUpdatedAt?: string; // When the traveler last edited a rate
+}
+
+export const defaultCurrencySettings = (locale: Locale): CurrencySettings => ({
+  home: LOCALE_CURRENCIES[locale],
+  rates: DEFAULT_THB_RATES,
+});
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const loadCurrencySettings = (locale: Locale): CurrencySettings => {
+  const defaults = defaultCurrencySettings(locale);
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!raw || typeof raw !== 'object') return defaults;
+    const rates = { ...DEFAULT_THB_RATES };
+    for (const currency of CURRENCIES) {
+      if (isRate(raw.rates?.[currency])) rates[currency] = raw.rates[currency];
+    }
+    rates.THB = 1;
+    return {
+      home: CURRENCIES.includes(raw.home) ? raw.home : defaults.home,
+      rates,
+      ratesUpdatedAt: typeof raw.ratesUpdatedAt === 'string' ? raw.ratesUpdatedAt : undefined,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save currency settings", e);
+  }
+};
+
+// Null when the table has no rate for the currency
+export const toTHB = (amount: number, currency: string, rates: Record<string, number>): number | null =>
+  isRate(rates[currency]) ? amount * rates[currency] : null;
+
+export const fromTHB = (amountTHB: number, currency: string, rates: Record<string, number>): number | null =>
+  isRate(rates[currency]) ? amountTHB / rates[currency] : null;
+
+export const formatMoney = (amount: number, currency: string, locale: Locale): string => {
+  try {
+    return new Intl.NumberFormat(localeInfo(locale).tag, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: currency === 'THB' || amount >= 1000 ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+};
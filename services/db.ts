@@ -0,0 +1,87 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'thai_guide';
+const DB_VERSION = 3;
+
+export const STORES = {
+  trips: 'trips',
+  conversations: 'conversations',
+  speech: 'speech',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each entry upgrades the schema from version (index) to version (index + 1)
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    const trips = db.createObjectStore(STORES.trips, { keyPath: 'id' });
+    trips.createIndex('updatedAt', 'updatedAt');
+  },
+  (db) => {
+    const conversations = db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+    conversations.createIndex('updatedAt', 'updatedAt');
+  },
+  (db) => {
+    const speech = db.createObjectStore(STORES.speech, { keyPath: 'key' });
+    speech.createIndex('usedAt', 'usedAt');
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let v = event.oldVersion; v < DB_VERSION; v++) UPGRADES[v](request.result);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `fn` against one object store and resolves once the transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Wait on both together, so a failed request can't leave the transaction's rejection unhandled
+  done.catch(() => {});
+  const pending = fn(tx.objectStore(storeName));
+  const [result] = await Promise.all([pending instanceof IDBRequest ? promisifyRequest(pending) : pending, done]);
+  return result;
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const putOne = <T>(storeName: StoreName, value: T): Promise<IDBValidKey> =>
+  withStore(storeName, 'readwrite', store => store.put(value));
+
+export const deleteOne = (storeName: StoreName, key: IDBValidKey): Promise<undefined> =>
+  withStore(storeName, 'readwrite', store => store.delete(key));
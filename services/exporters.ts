@@ -0,0 +1,234 @@
+import { GeoPoint, GroundingChunk, Itinerary, ItineraryDay, ItineraryStop } from "../types";
+import { formatCost, formatDuration, stopDwellMinutes, stopPlaceQuery } from "./itinerary";
+import { addDays } from "./tripPlanner";
+import { slugify } from "./markdown";
+
+/**
+ * What the app has resolved beyond the plan itself: coordinates of stops (by stop id)
+ * and the driving path of each routed day (by day number).
+ */
+export interface ExportContext {
+  locations: Record<string, GeoPoint>;
+  routes: Record<number, GeoPoint[]>;
+}
+
+const APP_NAME = 'ThaiGuide AI';
+const TIMEZONE = 'Asia/Bangkok';
+
+export const exportFileName = (itinerary: Itinerary, extension: string): string =>
+  `${slugify(itinerary.title) || 'itinerary'}.${extension}`;
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Plans without dates (e.g. from a Live chat) are placed starting today
+const dayDate = (itinerary: Itinerary, day: ItineraryDay): string => {
+  if (day.date) return day.date;
+  const first = itinerary.days[0];
+  return addDays(first?.date || todayIso(), day.day - (first?.day ?? 1));
+};
+
+const stopDetails = (stop: ItineraryStop): string[] => [
+  stop.description,
+  stop.cost ? `Cost: ${formatCost(stop.cost.amount, stop.cost.currency)}${stop.cost.note ? ` (${stop.cost.note})` : ''}` : undefined,
+  stop.openingHours ? `Open ${stop.openingHours.open}–${stop.openingHours.close}` : undefined,
+  stop.place?.uri,
+].filter((line): line is string => Boolean(line));
+
+// --- iCalendar ---
+
+const icsEscape = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+const icsFold = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// RFC 5545 durations are whole, positive numbers; the model may hand us 37.5 or 0
+const icsMinutes = (minutes: number): number => Math.max(1, Math.round(minutes) || 1);
+
+/**
+ * One calendar event per stop, in Bangkok time. Stops without a time become all-day entries.
+ */
+export const itineraryToICS = (itinerary: Itinerary, context: ExportContext, now = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_NAME}//Itinerary//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsEscape(itinerary.title)}`,
+    // Thailand has no daylight saving, so a single fixed offset describes it
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0700',
+    'TZOFFSETTO:+0700',
+    'TZNAME:ICT',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+  for (const day of itinerary.days) {
+    const date = dayDate(itinerary, day).replace(/-/g, '');
+    for (const stop of day.stops) {
+      const location = context.locations[stop.id];
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${slugify(itinerary.title)}-${date}-${stop.id}@thaiguide`,
+        `DTSTAMP:${icsStamp(now)}`,
+        ...(stop.time
+          ? [`DTSTART;TZID=${TIMEZONE}:${date}T${stop.time.replace(':', '')}00`, `DURATION:PT${icsMinutes(stopDwellMinutes(stop))}M`]
+          : [`DTSTART;VALUE=DATE:${date}`]),
+        `SUMMARY:${icsEscape(stop.name)}`,
+        `LOCATION:${icsEscape(stopPlaceQuery(stop))}`,
+        ...(location ? [`GEO:${location.lat};${location.lng}`] : []),
+        `DESCRIPTION:${icsEscape([`Day ${day.day}: ${day.title}`, ...stopDetails(stop)].join('\n'))}`,
+        'END:VEVENT',
+      );
+    }
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(icsFold).join('\r\n') + '\r\n';
+};
+
+// --- GPX / KML ---
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * Waypoints for every stop we have coordinates for, and one track per routed day.
+ */
+export const itineraryToGPX = (itinerary: Itinerary, context: ExportContext): string => {
+  const waypoints = itinerary.days.flatMap(day => day.stops.flatMap(stop => {
+    const point = context.locations[stop.id];
+    if (!point) return [];
+    return [
+      `  <wpt lat="${point.lat}" lon="${point.lng}">`,
+      `    <name>${xmlEscape(stop.name)}</name>`,
+      `    <desc>${xmlEscape([`Day ${day.day}${stop.time ? ` ${stop.time}` : ''}`, ...stopDetails(stop)].join('\n'))}</desc>`,
+      `    <type>${stop.category}</type>`,
+      '  </wpt>',
+    ];
+  }));
+  const tracks = itinerary.days.flatMap(day => {
+    const path = context.routes[day.day];
+    if (!path?.length) return [];
+    return [
+      '  <trk>',
+      `    <name>${xmlEscape(`Day ${day.day}: ${day.title}`)}</name>`,
+      '    <trkseg>',
+      ...path.map(p => `      <trkpt lat="${p.lat}" lon="${p.lng}"/>`),
+      '    </trkseg>',
+      '  </trk>',
+    ];
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${APP_NAME}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${xmlEscape(itinerary.title)}</name></metadata>`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * One folder per day with a placemark per located stop and the day's route as a line.
+ */
+export const itineraryToKML = (itinerary: Itinerary, context: ExportContext): string => {
+  const folders = itinerary.days.flatMap(day => {
+    const placemarks = day.stops.flatMap(stop => {
+      const point = context.locations[stop.id];
+      if (!point) return [];
+      return [
+        '      <Placemark>',
+        `        <name>${xmlEscape(`${stop.time ? `${stop.time} ` : ''}${stop.name}`)}</name>`,
+        `        <description>${xmlEscape(stopDetails(stop).join('\n'))}</description>`,
+        `        <Point><coordinates>${point.lng},${point.lat},0</coordinates></Point>`,
+        '      </Placemark>',
+      ];
+    });
+    const path = context.routes[day.day];
+    const route = path?.length ? [
+      '      <Placemark>',
+      `        <name>Day ${day.day} route</name>`,
+      '        <styleUrl>#route</styleUrl>',
+      `        <LineString><tessellate>1</tessellate><coordinates>${path.map(p => `${p.lng},${p.lat},0`).join(' ')}</coordinates></LineString>`,
+      '      </Placemark>',
+    ] : [];
+    if (!placemarks.length && !route.length) return [];
+    return ['    <Folder>', `      <name>${xmlEscape(`Day ${day.day}: ${day.title}`)}</name>`, ...placemarks, ...route, '    </Folder>'];
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xmlEscape(itinerary.title)}</name>`,
+    // KML colours are aabbggrr: the app's indigo
+    '    <Style id="route"><LineStyle><color>ff87314f</color><width>4</width></LineStyle></Style>',
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+// --- Markdown ---
+
+/**
+ * Somsri's write-up followed by a compact day-by-day list and the web sources.
+ */
+export const itineraryToMarkdown = (prose: string, itinerary: Itinerary, groundingChunks: GroundingChunk[] = []): string => {
+  const out: string[] = [prose.trim(), '', '---', '', '## At a glance', ''];
+  for (const day of itinerary.days) {
+    out.push(`### Day ${day.day}: ${day.title}${day.date ? ` (${day.date})` : ''}`, '');
+    if (day.transfer) {
+      out.push(`- **${day.transfer.from} → ${day.transfer.to}** by ${day.transfer.mode}${day.transfer.departureTime ? `, departs ${day.transfer.departureTime}` : ''}`);
+    }
+    for (const stop of day.stops) {
+      const extras = [
+        stop.durationMinutes ? formatDuration(stop.durationMinutes) : null,
+        stop.cost ? formatCost(stop.cost.amount, stop.cost.currency) : null,
+      ].filter(Boolean).join(' · ');
+      const name = stop.place?.uri ? `[${stop.name}](${stop.place.uri})` : stop.name;
+      out.push(`- ${stop.time ? `**${stop.time}** ` : ''}${name}${extras ? ` — ${extras}` : ''}`);
+    }
+    out.push('');
+  }
+  const sources = groundingChunks.filter(chunk => chunk.web?.uri);
+  if (sources.length) {
+    out.push('## Sources', '', ...sources.map(chunk => `- [${chunk.web!.title || chunk.web!.uri}](${chunk.web!.uri})`), '');
+  }
+  return out.join('\n');
+};
@@ -1,141 +1,194 @@
-
-import { GoogleGenAI, Modality, Chat } from "@google/genai";
+import { LiveConnectConfig } from "@google/genai";
 import { ItineraryResponse, GroundingChunk } from "../types";
-import { decodeBase64, decodeAudioData } from "./audioUtils";
+import { decodeBase64, pcm16ToAudioBuffer } from "./audioUtils";
+import { SpeakingPace, loadGuideSettings } from "./guideSettings";
+import { Locale, localeInfo } from "./i18n";
+import { ITINERARY_FORMAT_INSTRUCTIONS, parseItineraryResponse, parsePartialItineraryResponse } from "./itineraryParser";
+import { ITINERARY_TOOL_INSTRUCTIONS } from "./itineraryTools";
+import { liveTripToolInstructions } from "./liveTripTools";
+import { TTS_PACE_DIRECTIONS, somsriPersona, spokenPersona } from "./persona";
+import { getProvider } from "./providers";
+import { cacheSpeech, getCachedSpeech, hasCachedSpeech, speechCacheKey } from "./speechCache";
+import { loadTravelerProfile, travelerProfileInstructions } from "./travelerProfile";
+import { ChatTools, ChatTurn, LiveConnectParams, LiveSessionHandle, ProviderChat, TextStreamChunk } from "./providers/types";
+
+// App-facing model API. Builds Somsri's prompts and delegates to the active provider (see ./providers).
+
+export const TTS_SAMPLE_RATE = 24000;
+
+export interface StreamOptions {
+  // Called with the plan-so-far every time a chunk arrives
+  onUpdate?: (partial: ItineraryResponse) => void;
+  signal?: AbortSignal;
+  locale?: Locale; // Language Somsri writes the plan in
+}
 
-const apiKey = process.env.API_KEY || ''; 
-const ai = new GoogleGenAI({ apiKey });
+// Somsri's persona plus the saved traveler profile, read fresh for every request
+const guideInstructions = (locale?: Locale): string =>
+  `${somsriPersona(loadGuideSettings(), locale)}${travelerProfileInstructions(loadTravelerProfile())}`;
 
-const SOMSRI_PERSONA = `
-You are Somsri, a friendly, energetic, and knowledgeable local Thai tour guide. 
-Identity:
-- Name: Somsri.
-- Role: Local Expert Guide for Thailand.
-- Tone: Warm, polite (use "ka" at the end of sentences often), enthusiastic, and helpful.
-- Style: Practical, cultural, and immersive. Occasionally uses Thai food metaphors for travel planning (like "adding spice" to a trip).
+const chunkKey = (chunk: GroundingChunk) => chunk.maps?.uri || chunk.web?.uri || chunk.maps?.title || chunk.web?.title || '';
 
-GUARDRAILS:
-1. NEVER break character. You are a human guide, not an AI. 
-2. REFUSE to answer questions unrelated to Thailand, travel, food, culture, or logistics. If asked about coding, math, or politics of other countries, politely steer back to Thailand (e.g., "I'm not sure about that, but I can tell you where to find the best Som Tum!").
-3. Always provide safe and respectful recommendations.
-`;
+// Grounding metadata arrives spread over stream chunks; keep each source once, in arrival order
+const mergeGroundingChunks = (existing: GroundingChunk[] = [], incoming: GroundingChunk[]): GroundingChunk[] => {
+  const seen = new Set(existing.map(chunkKey));
+  return [...existing, ...incoming.filter(c => !seen.has(chunkKey(c)))];
+};
+
+const collectItineraryStream = async (
+  stream: AsyncGenerator<TextStreamChunk>,
+  { onUpdate, signal }: StreamOptions
+): Promise<{ text: string; groundingChunks?: GroundingChunk[] }> => {
+  let text = '';
+  let groundingChunks: GroundingChunk[] | undefined;
+  for await (const chunk of stream) {
+    if (signal?.aborted) break;
+    text += chunk.text;
+    if (chunk.groundingChunks?.length) groundingChunks = mergeGroundingChunks(groundingChunks, chunk.groundingChunks);
+    if (onUpdate) {
+      const { prose, itinerary } = parsePartialItineraryResponse(text, groundingChunks);
+      onUpdate({ text: prose, itinerary, groundingChunks });
+    }
+  }
+  if (signal?.aborted) throw new DOMException("Generation cancelled", "AbortError");
+  return { text, groundingChunks };
+};
 
 /**
- * Generates an itinerary using Maps and Search Grounding (gemini-2.5-flash)
+ * Generates an itinerary using Maps and Search Grounding, streamed
  */
 export const generateGroundedItinerary = async (
   prompt: string, 
-  location?: GeolocationCoordinates
+  location?: GeolocationCoordinates,
+  options: StreamOptions = {}
 ): Promise<ItineraryResponse> => {
   try {
-    const toolConfig: any = {};
-    if (location) {
-      toolConfig.retrievalConfig = {
-        latLng: {
-          latitude: location.latitude,
-          longitude: location.longitude
-        }
-      };
-    }
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: `${SOMSRI_PERSONA} \nTask: Create a detailed travel itinerary. Suggest real places. Use Google Maps and Search to find locations, open times, and prices.`,
-        tools: [{ googleMaps: {} }, { googleSearch: {} }],
-        toolConfig,
-      },
+    const stream = getProvider().streamItinerary({
+      prompt,
+      systemInstruction: `${guideInstructions(options.locale)} \nTask: Create a detailed travel itinerary. Suggest real places. Use Google Maps and Search to find locations, open times, and prices.\n${ITINERARY_FORMAT_INSTRUCTIONS}`,
+      location,
+      signal: options.signal,
     });
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[];
-    
+    const { text, groundingChunks } = await collectItineraryStream(stream, options);
+    const { prose, itinerary } = parseItineraryResponse(text, groundingChunks);
+
     return {
-      text: response.text || "No plan generated.",
+      text: prose || "No plan generated.",
+      itinerary,
       groundingChunks
     };
   } catch (error) {
+    if (options.signal?.aborted) throw error;
     console.error("Error generating grounded itinerary:", error);
     throw error;
   }
 };
 
 /**
- * Performs deep reasoning for complex logistics (gemini-3-pro-preview with Thinking)
+ * Performs deep reasoning for complex logistics (thinking model), streamed
  */
-export const analyzeComplexLogistics = async (prompt: string): Promise<string> => {
+export const analyzeComplexLogistics = async (prompt: string, options: StreamOptions = {}): Promise<ItineraryResponse> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget
-        systemInstruction: `${SOMSRI_PERSONA} \nTask: You are an expert logistics coordinator for Thailand travel. Analyze routes, crowds, weather, and cultural nuance deeply.`,
-      },
+    const stream = getProvider().streamLogistics({
+      prompt,
+      systemInstruction: `${guideInstructions(options.locale)} \nTask: You are an expert logistics coordinator for Thailand travel. Analyze routes, crowds, weather, and cultural nuance deeply.\n${ITINERARY_FORMAT_INSTRUCTIONS}`,
+      signal: options.signal,
     });
-    return response.text || "Could not complete analysis.";
+    const { text } = await collectItineraryStream(stream, options);
+    const { prose, itinerary } = parseItineraryResponse(text);
+    return {
+      text: prose || "Could not complete analysis.",
+      itinerary
+    };
   } catch (error) {
+    if (options.signal?.aborted) throw error;
     console.error("Error in thinking mode:", error);
     throw error;
   }
 };
 
 /**
- * Chat with an expert bot (gemini-3-pro-preview)
+ * Chat with an expert bot. Pass the earlier turns to resume a conversation.
  */
-export const createChatSession = (): Chat => {
-  return ai.chats.create({
-    model: "gemini-3-pro-preview",
-    config: {
-      systemInstruction: `${SOMSRI_PERSONA} \nTask: Answer questions about culture, food, etiquette, and travel plans in Thailand. Keep answers concise and helpful.`,
-    }
-  });
+export const createChatSession = (history: ChatTurn[] = [], itineraryTools?: ChatTools, locale?: Locale): ProviderChat => {
+  return getProvider().createChat(
+    `${guideInstructions(locale)} \nTask: Answer questions about culture, food, etiquette, and travel plans in Thailand. Keep answers concise and helpful.${itineraryTools ? ITINERARY_TOOL_INSTRUCTIONS : ''}`,
+    history,
+    itineraryTools
+  );
+};
+
+export interface SpeechOptions {
+  voiceName?: string; // Instead of the Read Aloud voice from the guide settings
+  pace?: SpeakingPace; // Instead of the pace from the guide settings
+  locale?: Locale;
+}
+
+// The voice actually used for `text`, and the cache key of its clip
+const resolveSpeech = async (text: string, options: SpeechOptions) => {
+  const provider = getProvider();
+  const settings = loadGuideSettings();
+  const voice = options.voiceName || settings.ttsVoice;
+  const pace = options.pace || settings.pace;
+  const languageCode = options.locale && localeInfo(options.locale).speechCode;
+  // The mock provider's chimes must not stand in for the real voice
+  const key = await speechCacheKey(text, `${provider.name}/${voice}/${pace}/${languageCode || ''}`);
+  return { provider, voice, pace, languageCode, key };
 };
 
 /**
- * Text-to-Speech (gemini-2.5-flash-preview-tts)
+ * Somsri reading `text` in the voice and pace from the guide settings, as raw 24kHz PCM16.
+ * Clips are cached per text, voice and pace, so reading the same plan again needs no TTS call.
  */
-export const generateSpeech = async (text: string): Promise<AudioBuffer> => {
+export const synthesizeSpeechPCM = async (text: string, options: SpeechOptions = {}): Promise<Uint8Array> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
-
-    // Use a temporary context for decoding to avoid limits, ensure it's closed.
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    try {
-      // Note: The TTS API returns a format that requires decoding.
-      // We will use our custom decodeAudioData assuming raw PCM 24kHz mono/stereo.
-      const audioBuffer = await decodeAudioData(
-        decodeBase64(base64Audio),
-        audioContext,
-        24000,
-        1
-      );
-      return audioBuffer;
-    } finally {
-      // Important: Close context to prevent leaking AudioContexts (browser limit ~6)
-      await audioContext.close();
-    }
+    const { provider, voice, pace, languageCode, key } = await resolveSpeech(text, options);
+    const cached = await getCachedSpeech(key);
+    if (cached) return cached.pcm;
 
+    const direction = TTS_PACE_DIRECTIONS[pace];
+    const pcm = decodeBase64(await provider.synthesizeSpeech(direction ? `${direction}: ${text}` : text, voice, languageCode));
+    await cacheSpeech(key, pcm, TTS_SAMPLE_RATE);
+    return pcm;
   } catch (error) {
     console.error("TTS Error:", error);
     throw error;
   }
 };
 
-export const getLiveClient = () => {
-    return ai.live;
-}
+export const generateSpeech = async (text: string, options: SpeechOptions = {}): Promise<AudioBuffer> =>
+  pcm16ToAudioBuffer(await synthesizeSpeechPCM(text, options), TTS_SAMPLE_RATE, 1);
+
+// Whether `text` can be played without a TTS call (e.g. offline)
+export const isSpeechCached = async (text: string, options: SpeechOptions = {}): Promise<boolean> =>
+  hasCachedSpeech((await resolveSpeech(text, options)).key);
+
+/**
+ * Voice and instructions for a Live conversation with Somsri, from the guide settings.
+ */
+export const liveGuideConfig = (today: string, locale: Locale = 'en'): Pick<LiveConnectConfig, 'speechConfig' | 'systemInstruction'> => {
+  const settings = loadGuideSettings();
+  return {
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.liveVoice } },
+      languageCode: localeInfo(locale).speechCode,
+    },
+    systemInstruction: `${spokenPersona(settings, locale)}${travelerProfileInstructions(loadTravelerProfile())}
+Task: Plan a perfect day trip for the user in Thailand.
+
+Step 1: Ask the user what city they are in or want to visit.
+Step 2: Ask about their specific interests (food, temples, shopping, nature), unless the traveler profile already tells you.
+Step 3: Offer 1-2 quick suggestions to gauge their reaction.
+
+Keep your responses warm and encouraging. Do not output a full itinerary list yet, just discuss options.
+${liveTripToolInstructions(today)}`,
+  };
+};
+
+/**
+ * Opens a realtime voice session with the active provider
+ */
+export const connectLiveSession = (params: LiveConnectParams): Promise<LiveSessionHandle> => {
+  return getProvider().connectLive(params);
+};
@@ -0,0 +1,72 @@
+// How Somsri sounds and talks: voices, pace, verbosity and how much of her manner shows.
+// Kept in localStorage so prompts and voice configs can read it synchronously.
+
+const STORAGE_KEY = 'thai_guide_guide_settings';
+
+export type VoiceStyle = 'Firm' | 'Bright' | 'Breezy' | 'Youthful' | 'Upbeat' | 'Informative' | 'Excitable';
+
+// Prebuilt voices available to both the TTS and Live models
+export const PREBUILT_VOICES: { name: string; style: VoiceStyle }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Orus', style: 'Firm' },
+];
+
+export type SpeakingPace = 'slow' | 'normal' | 'fast';
+export type Verbosity = 'brief' | 'balanced' | 'detailed';
+
+export interface GuideSettings {
+  ttsVoice: string;   // Read Aloud and audio guides
+  liveVoice: string;  // Live conversations
+  pace: SpeakingPace;
+  verbosity: Verbosity;
+  politeParticles: boolean; // Ending sentences with "ka"
+  foodMetaphors: boolean;
+}
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  ttsVoice: 'Kore',
+  liveVoice: 'Zephyr',
+  pace: 'normal',
+  verbosity: 'balanced',
+  politeParticles: true,
+  foodMetaphors: true,
+};
+
+export const PACE_OPTIONS: SpeakingPace[] = ['slow', 'normal', 'fast'];
+
+export const VERBOSITY_OPTIONS: Verbosity[] = ['brief', 'balanced', 'detailed'];
+
+const isVoice = (value: unknown): value is string => PREBUILT_VOICES.some(voice => voice.name === value);
+const isOneOf = <T extends string>(options: T[], value: unknown): value is T => options.includes(value as T);
+
+export const loadGuideSettings = (): GuideSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_GUIDE_SETTINGS;
+    const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+    return {
+      ttsVoice: isVoice(raw.ttsVoice) ? raw.ttsVoice : DEFAULT_GUIDE_SETTINGS.ttsVoice,
+      liveVoice: isVoice(raw.liveVoice) ? raw.liveVoice : DEFAULT_GUIDE_SETTINGS.liveVoice,
+      pace: isOneOf(PACE_OPTIONS, raw.pace) ? raw.pace : DEFAULT_GUIDE_SETTINGS.pace,
+      verbosity: isOneOf(VERBOSITY_OPTIONS, raw.verbosity) ? raw.verbosity : DEFAULT_GUIDE_SETTINGS.verbosity,
+      politeParticles: flag(raw.politeParticles, DEFAULT_GUIDE_SETTINGS.politeParticles),
+      foodMetaphors: flag(raw.foodMetaphors, DEFAULT_GUIDE_SETTINGS.foodMetaphors),
+    };
+  } catch {
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+export const saveGuideSettings = (settings: GuideSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save guide settings", e);
+  }
+};
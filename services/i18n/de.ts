@@ -0,0 +1,353 @@
+import { Messages } from "./en";
+
+// German
+export const de: Messages = {
+  'common.cancel': 'Abbrechen',
+  'common.day': 'Tag {day}',
+  'common.undo': 'Rückgängig',
+  'common.dismiss': 'Schließen',
+  'common.days.one': '{count} Tag',
+  'common.days.other': '{count} Tage',
+  'common.nights.one': '{count} Nacht',
+  'common.nights.other': '{count} Nächte',
+  'common.moveUp': 'Nach oben',
+  'common.moveDown': 'Nach unten',
+  'common.stops.one': '{count} Stopp',
+  'common.stops.other': '{count} Stopps',
+
+  'nav.live': 'Live-Guide',
+  'nav.planner': 'Reiseplaner',
+  'nav.trips': 'Meine Reisen',
+  'nav.chat': 'Lokaler Chat',
+  'nav.phrasebook': 'Sprachführer',
+  'nav.settings': 'Einstellungen',
+  'nav.poweredBy': 'Powered by Gemini 2.5',
+
+  'planner.generateFailed': 'Der Reiseplan konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'planner.saveFailed': 'Diese Reise konnte nicht gespeichert werden.',
+  'planner.title': 'Plane deine Reise',
+  'planner.subtitle': 'Entdecke Thailand mit persönlichen, KI-gestützten Reiseplänen.',
+  'planner.interests': 'Interessen',
+  'planner.interestsPlaceholder': 'z. B. scharfes Essen, alte Tempel',
+  'planner.profileUsed': 'Somsri berücksichtigt auch dein Reiseprofil · Bearbeiten',
+  'planner.profileMissing': 'Erzähl Somsri einmal in den Einstellungen von Ernährung, Mobilität und Reisetempo',
+  'planner.thinking': 'Somsri denkt nach...',
+  'planner.generate': 'Plan erstellen',
+  'planner.cancelTitle': 'Erstellung abbrechen',
+  'planner.deepThinking': 'Gründliches Nachdenken aktivieren',
+
+  'tripBuilder.arrive': 'Anreise',
+  'tripBuilder.depart': 'Abreise',
+  'tripBuilder.route': 'Route',
+  'tripBuilder.nights': 'Nächte',
+  'tripBuilder.nightsUnit.one': 'Nacht',
+  'tripBuilder.nightsUnit.other': 'Nächte',
+  'tripBuilder.removeCity': 'Stadt entfernen',
+  'tripBuilder.addCity': 'Stadt hinzufügen',
+  'tripBuilder.transfers': 'Fahrten zwischen Städten',
+  'tripBuilder.transfer.any': 'Beste Option',
+  'tripBuilder.transfer.flight': 'Flüge',
+  'tripBuilder.transfer.train': 'Züge (auch Nachtzug)',
+  'tripBuilder.transfer.bus': 'Busse / Minivans',
+  'tripBuilder.travelers': 'Reisende',
+  'tripBuilder.budget': 'Budgetgrenze (ganze Gruppe)',
+  'tripBuilder.noBudget': 'Kein Limit',
+  'tripBuilder.budgetPerDay': 'Etwa {amount} pro Person und Tag',
+
+  'result.speechFailed': 'Die Sprachausgabe konnte nicht erzeugt werden.',
+  'result.audioGuideFailed': 'Der Audioguide konnte nicht aufgenommen werden.',
+  'result.shareFailed': 'Es konnte kein Link zum Teilen erstellt werden.',
+  'result.curatedBy': 'Zusammengestellt von Somsri',
+  'result.writing': 'Somsri schreibt...',
+  'result.saved': 'Gespeichert',
+  'result.save': 'Speichern',
+  'result.shareTitle': 'Einen Link kopieren, der diese Reise öffnet',
+  'result.linkCopied': 'Link kopiert',
+  'result.share': 'Teilen',
+  'result.recording': 'Aufnahme {done}/{total}...',
+  'result.export': 'Exportieren',
+  'result.exportAs.ics': 'Kalender (.ics)',
+  'result.exportAs.gpx': 'GPS-Track (.gpx)',
+  'result.exportAs.kml': 'Google Earth (.kml)',
+  'result.exportAs.md': 'Markdown (.md)',
+  'result.exportAs.json': 'Reisedatei (.json)',
+  'result.exportAs.wav': 'Audioguide (.wav)',
+  'result.exportAs.print': 'Drucken',
+  'result.readAloud': 'Vorlesen',
+  'result.narrationLoading': 'Wird erzeugt...',
+  'result.narrationPaused': 'Pausiert',
+  'result.narrationReading': 'Liest vor',
+  'result.resume': 'Fortsetzen',
+  'result.pause': 'Pause',
+  'result.skipDay': 'Zum nächsten Tag springen',
+  'result.stopReading': 'Vorlesen beenden',
+  'result.recommendedStops': 'Empfohlene Stopps',
+  'result.showDayOnMap': 'Diesen Tag auf der Karte zeigen',
+  'result.noPlaces': 'Orte erscheinen hier, sobald sie in deinem Reiseplan vorkommen.',
+  'result.sources': 'Quellen',
+
+  'map.optimizeFailed': 'Diese Route konnte nicht optimiert werden.',
+  'map.distance': 'Strecke',
+  'map.duration': 'Dauer',
+  'map.stops': 'Stopps',
+  'map.optimizeTitle': 'Die Stopps dieses Tages für kürzere Wege neu ordnen. Fixierte Stopps und Öffnungszeiten werden berücksichtigt.',
+  'map.optimizing': 'Wird optimiert...',
+  'map.optimize': 'Reihenfolge optimieren',
+  'map.optimizeSaved': 'Spart {time} Fahrzeit',
+  'map.optimizeReordered': 'Neu geordnet nach Öffnungszeiten und Buchungen · {before} → {after} Fahrzeit',
+  'map.optimizeQuickest': 'Diese Reihenfolge ist bereits die schnellste ({time} Fahrzeit).',
+  'map.placeholderLabel': 'Kartenansicht',
+  'map.placeholderHint': 'Entdecke die vorgeschlagenen Orte',
+
+  'route.title': 'Tagesablauf',
+  'route.backBy': 'zurück um {time}',
+  'route.toCheck': '{count} zu prüfen',
+  'route.start': 'Start',
+  'route.doneBy': 'Fertig bis',
+  'route.overrun': 'Der Tag dauert {time} länger als {end}. Streiche einen Stopp oder starte früher.',
+  'route.booked': 'Gebucht',
+  'route.warning.lateForBooking': 'Ankunft {arrival}, gebucht für {planned}',
+  'route.warning.offPlan': 'Ankunft {arrival}, geplant für {planned}',
+  'route.warning.notOpenYet': 'Noch geschlossen (öffnet {opens})',
+  'route.warning.closedOnArrival': 'Bei Ankunft geschlossen (schließt {closes})',
+
+  'budget.title': 'Kostenschätzung',
+  'budget.estimate': 'Somsris Schätzungen in Baht – korrigiere jeden Betrag, den du besser kennst.',
+  'budget.unpriced.one': '{count} Posten ohne Preis',
+  'budget.unpriced.other': '{count} Posten ohne Preis',
+  'budget.edit': 'Kosten bearbeiten',
+  'budget.hide': 'Details ausblenden',
+  'budget.perPerson': 'Pro Person',
+  'budget.group.one': 'Gesamt für {count} Person',
+  'budget.group.other': 'Gesamt für {count} Personen',
+  'budget.over': 'Dieser Plan liegt {amount} über deinem Budget von {cap}. Tausche eine bezahlte Aktivität oder ein teureres Essen aus.',
+  'budget.left': '{amount} von deinem Budget ({cap}) übrig',
+  'budget.missingRates': 'Kein Wechselkurs für {currencies}, diese Beträge werden nicht mitgezählt.',
+  'budget.category.sights': 'Sehenswürdigkeiten & Aktivitäten',
+  'budget.category.food': 'Essen',
+  'budget.category.transport': 'Transport',
+  'budget.category.lodging': 'Unterkunft',
+  'budget.category.shopping': 'Einkaufen',
+  'budget.category.other': 'Sonstiges',
+  'budget.wholeTrip': 'Ganze Reise',
+  'budget.dayTotal': '{amount} pro Person',
+  'budget.perPersonHint': 'Baht pro Person',
+  'budget.removeCost': 'Diese Kosten entfernen',
+  'budget.extraLabel': 'Weitere Kosten, z. B. SIM-Karte oder Trinkgeld',
+  'budget.addCost': 'Hinzufügen',
+  'budget.homeCurrency': 'Heimatwährung',
+  'budget.resetRate': 'Zurücksetzen',
+  'budget.rateUpdated': 'Dein Kurs vom {date}. Kurse werden nicht automatisch aktualisiert.',
+  'budget.rateDefault': 'Ungefährer Kurs. Gib den heutigen Kurs ein, um genauer zu rechnen.',
+
+  'place.jumpToStop': 'Zu diesem Stopp im Plan springen',
+  'place.unpin': 'Gebucht: bleibt beim Optimieren zu dieser Uhrzeit. Klicken zum Lösen.',
+  'place.pin': 'Diesen Stopp fixieren (z. B. eine Buchung), damit die Routenoptimierung seine Uhrzeit beibehält',
+
+  'print.departs': 'Abfahrt {time}',
+  'print.booked': 'gebucht',
+  'print.open': 'Geöffnet {open}–{close}',
+  'print.notes': 'Somsris Notizen',
+
+  'share.brokenLink': 'Dieser Reiselink ist beschädigt oder stammt aus einer neueren Version von ThaiGuide.',
+
+  'trips.title': 'Meine Reisen',
+  'trips.subtitle': 'Öffne, benenne oder sortiere deine gespeicherten Pläne.',
+  'trips.confirmDelete': '„{name}“ löschen? Das kann nicht rückgängig gemacht werden.',
+  'trips.importError': 'Diese Datei ist keine aus ThaiGuide exportierte Reise oder stammt aus einer neueren Version.',
+  'trips.renameFailed': 'Diese Reise konnte nicht umbenannt werden.',
+  'trips.duplicateFailed': 'Diese Reise konnte nicht dupliziert werden.',
+  'trips.deleteFailed': 'Diese Reise konnte nicht gelöscht werden.',
+  'trips.search': 'Nach Name, Stadt oder Ort suchen...',
+  'trips.importTitle': 'Eine Reisedatei öffnen, die jemand mit dir geteilt hat',
+  'trips.import': 'Importieren',
+  'trips.loading': 'Deine Reisen werden geladen...',
+  'trips.empty': 'Noch keine gespeicherten Reisen. Erstelle einen Plan und klicke auf Speichern!',
+  'trips.noMatches': 'Keine Reise passt zu deiner Suche.',
+  'trips.saved': 'gespeichert am {date}',
+  'trips.open': 'Öffnen',
+  'trips.rename': 'Umbenennen',
+  'trips.duplicate': 'Duplizieren',
+  'trips.delete': 'Löschen',
+
+  'chat.title': 'Frag Somsri',
+  'chat.subtitle': 'Deine persönliche Kulturexpertin für Etikette, Handeln und Geheimtipps.',
+  'chat.greeting': 'Sawasdee ka! Ich bin Somsri. Frag mich alles über thailändische Bräuche, Essen oder einfache Redewendungen!',
+  'chat.stopped': 'Abgebrochen, bevor ich antworten konnte.',
+  'chat.noAnswer': 'Entschuldige, das habe ich nicht verstanden.',
+  'chat.error': 'Entschuldige, ich hatte Verbindungsprobleme. Bitte versuche es erneut.',
+  'chat.newChat': '+ Neuer Chat',
+  'chat.emptyList': 'Deine Chats erscheinen hier.',
+  'chat.role': 'KI-Reiseführerin vor Ort',
+  'chat.planUpdated': 'Plan aktualisiert',
+  'chat.edit.replaced': 'Tag {day}: {from} durch {to} ersetzt',
+  'chat.edit.added': 'Tag {day}: {stop} hinzugefügt',
+  'chat.edit.removed': 'Tag {day}: {stop} entfernt',
+  'chat.edit.movedAfter': '{stop} hinter {after} verschoben',
+  'chat.edit.movedAfterOnDay': '{stop} an Tag {day} hinter {after} verschoben',
+  'chat.edit.movedFirst': '{stop} an den Anfang verschoben',
+  'chat.edit.movedFirstOfDay': '{stop} an den Anfang von Tag {day} verschoben',
+  'chat.edit.retimed': 'Tag {day}: {stop} jetzt um {time}',
+  'chat.viewPlan': 'Plan ansehen →',
+  'chat.retry': 'Erneut versuchen',
+  'chat.regenerate': 'Neu generieren',
+  'chat.placeholder': 'Frag nach „Tuk-Tuks“ oder „Pad Thai“...',
+  'chat.stop': 'Antwort abbrechen',
+  'chat.renameFailed': 'Dieser Chat konnte nicht umbenannt werden.',
+  'chat.deleteFailed': 'Dieser Chat konnte nicht gelöscht werden.',
+
+  'phrasebook.title': 'Thai-Sprachführer',
+  'phrasebook.subtitle': 'Sprich wie die Einheimischen: Tippe auf einen Satz, hör ihn dir an und sprich Somsri nach.',
+  'phrasebook.speaker': 'Ich spreche als',
+  'phrasebook.speaker.female': 'Frau · ค่ะ',
+  'phrasebook.speaker.male': 'Mann · ครับ',
+  'phrasebook.search': 'Sätze suchen, auf Deutsch oder Thai...',
+  'phrasebook.category.greetings': 'Begrüßung',
+  'phrasebook.category.food': 'Essen bestellen',
+  'phrasebook.category.spice': 'Schärfegrad',
+  'phrasebook.category.directions': 'Wegbeschreibung',
+  'phrasebook.category.bargaining': 'Handeln',
+  'phrasebook.category.emergencies': 'Notfälle',
+  'phrasebook.category.favorites': 'Favoriten',
+  'phrasebook.play': 'Anhören',
+  'phrasebook.playFailed': 'Dieser Satz konnte nicht abgespielt werden.',
+  'phrasebook.favorite': 'Zu Favoriten hinzufügen',
+  'phrasebook.unfavorite': 'Aus Favoriten entfernen',
+  'phrasebook.noFavorites': 'Tippe bei einem Satz auf ☆, um ihn hier zu sammeln.',
+  'phrasebook.noMatches': 'Kein Satz passt zu deiner Suche.',
+  'phrasebook.download': 'Audio offline speichern',
+  'phrasebook.downloading': 'Audio wird gespeichert {done}/{total}',
+  'phrasebook.downloadFailed': 'Nicht alle Aufnahmen konnten gespeichert werden. Versuche es erneut, wenn du online bist.',
+  'phrasebook.offlineCount': '{count} von {total} Sätzen offline abspielbar',
+  'phrasebook.offlineReady': 'Alle Sätze offline abspielbar',
+  'phrasebook.playsOffline': 'Offline abspielbar',
+  'phrasebook.offline': 'Du bist offline: Sätze mit gespeichertem Audio lassen sich weiter abspielen.',
+
+  'live.title': 'Live-Sprachguide',
+  'live.subtitle': 'Gespräch in Echtzeit mit deiner KI-Begleiterin.',
+  'live.stage.prep': 'Vorbereiten',
+  'live.stage.refine': 'Verfeinern',
+  'live.stage.cook': 'Kochen',
+  'live.stage.serve': 'Servieren',
+  'live.step1': 'Schritt 1: Vorbereiten',
+  'live.intro': 'Bereit, einen Plan zu kochen? Erzähl Somsri, wo du bist und was du liebst.',
+  'live.start': 'Gespräch starten',
+  'live.micSettings': 'Mikrofoneinstellungen',
+  'live.speaking': 'Somsri spricht',
+  'live.micPaused': 'Mikro pausiert',
+  'live.muted': 'Stumm',
+  'live.holdToTalk': 'Zum Sprechen halten',
+  'live.hearing': 'Ich höre dich...',
+  'live.listening': 'Hört zu...',
+  'live.unmute': 'Stummschaltung aufheben',
+  'live.mute': 'Stumm',
+  'live.openMic': 'Offenes Mikro',
+  'live.pushToTalk': 'Push-to-Talk',
+  'live.releaseToSend': 'Hört zu... zum Senden loslassen',
+  'live.holdToTalkKey': 'Zum Sprechen halten · Leertaste',
+  'live.step2': 'Schritt 2: Verfeinern',
+  'live.refineHint': '„Erzähl mir mehr! Je mehr Würze (Details) du hinzufügst, desto besser der Plan.“',
+  'live.reconnecting': 'Verbindung verloren, Somsri wird erneut verbunden... Dein Mikro ist pausiert.',
+  'live.disconnected': 'Die Verbindung zu Somsri ist abgebrochen. Du kannst trotzdem einen Plan aus dem kochen, was sie bisher gehört hat.',
+  'live.captionsEmpty': 'Untertitel erscheinen hier, während du sprichst.',
+  'live.you': 'Du',
+  'live.somsri': 'Somsri',
+  'live.tripSoFar': 'Deine Reise bisher',
+  'live.tripEmpty': 'Somsri notiert hier beim Sprechen dein Reiseziel, deine Daten, dein Budget und deine Interessen.',
+  'live.destinationUnknown': 'Reiseziel?',
+  'live.budget.budget': 'Kleines Budget',
+  'live.budget.mid-range': 'Mittleres Budget',
+  'live.budget.luxury': 'Luxus-Budget',
+  'live.perDay': '{amount}/Tag',
+  'live.update.goingTo': 'Reiseziel: {city}',
+  'live.update.addedCity': '{city} hinzugefügt',
+  'live.update.likes': 'Mag {interest}',
+  'live.update.alreadyNoted': '{interest} schon notiert',
+  'live.update.dates': '{start} bis {end}',
+  'live.update.starting': 'Ab {start}',
+  'live.ready': 'Bereit?',
+  'live.startCooking': 'Plan kochen',
+  'live.cancel': 'Sitzung abbrechen',
+  'live.reviewTitle': 'Prüfe, was Somsri gehört hat',
+  'live.reviewHint': 'Korrigiere falsch verstandene Ortsnamen, bevor gekocht wird. Das Mikro ist pausiert.',
+  'live.destination': 'Reiseziel',
+  'live.transcript': 'Transkript',
+  'live.nothingHeard': 'Bisher wurde nichts gehört.',
+  'live.cookIt': 'Passt, ab in den Wok!',
+  'live.keepTalking': 'Weiter mit Somsri sprechen',
+  'live.step3': 'Schritt 3: Kochen',
+  'live.cooking': 'Somsri mischt deine Zutaten...',
+  'live.step4': 'Schritt 4: Serviert!',
+  'live.served': 'Dein persönlicher Reiseplan ist fertig.',
+  'live.opening': 'Reiseplaner wird geöffnet...',
+
+  'mic.echoCancellation': 'Echounterdrückung',
+  'mic.noiseSuppression': 'Rauschunterdrückung',
+  'mic.autoGainControl': 'Automatische Lautstärke',
+  'mic.microphone': 'Mikrofon',
+  'mic.systemDefault': 'Systemstandard',
+  'mic.numbered': 'Mikrofon {number}',
+
+  'settings.title': 'Einstellungen',
+  'settings.subtitle': 'Erzähl Somsri von dir und wähle deine Sprache und wie sie klingt und mit dir spricht.',
+  'settings.language': 'Sprache',
+  'settings.previewText': 'Sawasdee ka! Ich bin Somsri. Sollen wir den besten Mango Sticky Rice der Stadt für dich finden?',
+  'settings.persona.politeParticles': 'Höfliches „ka“',
+  'settings.persona.politeParticles.hint': 'Sätze auf thailändische Art beenden',
+  'settings.persona.foodMetaphors': 'Essens-Metaphern',
+  'settings.persona.foodMetaphors.hint': '„Geben wir Tag zwei etwas Würze!“',
+  'settings.previewError': 'Die Stimmprobe konnte nicht abgespielt werden.',
+  'settings.previewVoice': 'Diese Stimme anhören',
+  'settings.voiceStyle.Firm': 'Bestimmt',
+  'settings.voiceStyle.Bright': 'Hell',
+  'settings.voiceStyle.Breezy': 'Locker',
+  'settings.voiceStyle.Youthful': 'Jugendlich',
+  'settings.voiceStyle.Upbeat': 'Fröhlich',
+  'settings.voiceStyle.Informative': 'Sachlich',
+  'settings.voiceStyle.Excitable': 'Lebhaft',
+  'settings.languageHint': 'Somsri plant, chattet und spricht in dieser Sprache; thailändische Ortsnamen bleiben in Thai-Schrift.',
+  'settings.voice': 'Somsris Stimme',
+  'settings.ttsVoice': 'Stimme zum Vorlesen',
+  'settings.liveVoice': 'Stimme im Live-Guide',
+  'settings.pace': 'Sprechtempo',
+  'settings.pace.slow': 'Langsam',
+  'settings.pace.normal': 'Normal',
+  'settings.pace.fast': 'Zügig',
+  'settings.style': 'Somsris Stil',
+  'settings.verbosity': 'Wie viel sie erzählt',
+  'settings.verbosity.brief': 'Knapp',
+  'settings.verbosity.balanced': 'Ausgewogen',
+  'settings.verbosity.detailed': 'Ausführlich',
+
+  'profile.title': 'Über dich',
+  'profile.hint': 'Somsri denkt bei jedem Plan, Chat und Live-Gespräch daran – du musst es ihr nur einmal sagen.',
+  'profile.diet': 'Ernährung',
+  'profile.diet.vegetarian': 'Vegetarisch',
+  'profile.diet.vegan': 'Vegan',
+  'profile.diet.halal': 'Halal',
+  'profile.diet.noPork': 'Kein Schweinefleisch',
+  'profile.diet.noBeef': 'Kein Rindfleisch',
+  'profile.diet.glutenFree': 'Glutenfrei',
+  'profile.diet.mildSpice': 'Nicht scharf',
+  'profile.allergies': 'Allergien',
+  'profile.allergiesPlaceholder': 'z. B. Erdnüsse, Meeresfrüchte',
+  'profile.mobility': 'Mobilität',
+  'profile.mobility.none': 'Keine Einschränkung',
+  'profile.mobility.limitedWalking': 'Nur kurze Wege',
+  'profile.mobility.noStairs': 'Keine Treppen',
+  'profile.mobility.wheelchair': 'Rollstuhl',
+  'profile.pace': 'Reisetempo',
+  'profile.pace.any': 'Egal',
+  'profile.pace.relaxed': 'Entspannt',
+  'profile.pace.moderate': 'Mittel',
+  'profile.pace.packed': 'Voll',
+  'profile.budget': 'Budget',
+  'profile.budget.any': 'Egal',
+  'profile.budget.budget': 'Günstig',
+  'profile.budget.mid-range': 'Mittel',
+  'profile.budget.luxury': 'Luxus',
+  'profile.companions': 'Unterwegs mit',
+  'profile.companions.kids': 'Kindern',
+  'profile.companions.elderly': 'Älteren Angehörigen',
+  'profile.interests': 'Deine Interessen',
+};
@@ -0,0 +1,355 @@
+// English UI text: the source every other catalog is translated from, and the fallback.
+// Plurals are split into Intl.PluralRules forms ("common.days.one", "common.days.other").
+
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.day': 'Day {day}',
+  'common.undo': 'Undo',
+  'common.dismiss': 'Dismiss',
+  'common.days.one': '{count} day',
+  'common.days.other': '{count} days',
+  'common.nights.one': '{count} night',
+  'common.nights.other': '{count} nights',
+  'common.moveUp': 'Move up',
+  'common.moveDown': 'Move down',
+  'common.stops.one': '{count} stop',
+  'common.stops.other': '{count} stops',
+
+  'nav.live': 'Live Guide',
+  'nav.planner': 'Trip Planner',
+  'nav.trips': 'My Trips',
+  'nav.chat': 'Local Chat',
+  'nav.phrasebook': 'Phrasebook',
+  'nav.settings': 'Settings',
+  'nav.poweredBy': 'Powered by Gemini 2.5',
+
+  'planner.generateFailed': 'Failed to generate itinerary. Please try again.',
+  'planner.saveFailed': 'Could not save this trip.',
+  'planner.title': 'Create Your Journey',
+  'planner.subtitle': 'Discover Thailand with AI-powered personalized itineraries.',
+  'planner.interests': 'Interests',
+  'planner.interestsPlaceholder': 'e.g. Spicy food, Old temples',
+  'planner.profileUsed': 'Somsri also follows your traveler profile · Edit',
+  'planner.profileMissing': 'Tell Somsri about your diet, mobility and pace once in Settings',
+  'planner.thinking': 'Somsri is Thinking...',
+  'planner.generate': 'Generate Plan',
+  'planner.cancelTitle': 'Stop generating',
+  'planner.deepThinking': 'Enable Deep Thinking Mode',
+
+  'tripBuilder.arrive': 'Arrive',
+  'tripBuilder.depart': 'Depart',
+  'tripBuilder.route': 'Route',
+  'tripBuilder.nights': 'Nights',
+  'tripBuilder.nightsUnit.one': 'night',
+  'tripBuilder.nightsUnit.other': 'nights',
+  'tripBuilder.removeCity': 'Remove city',
+  'tripBuilder.addCity': 'Add city',
+  'tripBuilder.transfers': 'Transfers between cities',
+  'tripBuilder.transfer.any': 'Best option',
+  'tripBuilder.transfer.flight': 'Flights',
+  'tripBuilder.transfer.train': 'Trains (overnight ok)',
+  'tripBuilder.transfer.bus': 'Buses / vans',
+  'tripBuilder.travelers': 'Travelers',
+  'tripBuilder.budget': 'Budget cap (whole group)',
+  'tripBuilder.noBudget': 'No limit',
+  'tripBuilder.budgetPerDay': 'About {amount} per person per day',
+
+  'result.speechFailed': 'Could not generate speech.',
+  'result.audioGuideFailed': 'Could not record the audio guide.',
+  'result.shareFailed': 'Could not create a share link.',
+  'result.curatedBy': 'Curated by Somsri',
+  'result.writing': 'Somsri is writing...',
+  'result.saved': 'Saved',
+  'result.save': 'Save',
+  'result.shareTitle': 'Copy a link that opens this trip',
+  'result.linkCopied': 'Link copied',
+  'result.share': 'Share',
+  'result.recording': 'Recording {done}/{total}...',
+  'result.export': 'Export',
+  'result.exportAs.ics': 'Calendar (.ics)',
+  'result.exportAs.gpx': 'GPS track (.gpx)',
+  'result.exportAs.kml': 'Google Earth (.kml)',
+  'result.exportAs.md': 'Markdown (.md)',
+  'result.exportAs.json': 'Trip file (.json)',
+  'result.exportAs.wav': 'Audio guide (.wav)',
+  'result.exportAs.print': 'Print',
+  'result.readAloud': 'Read Aloud',
+  'result.narrationLoading': 'Generating...',
+  'result.narrationPaused': 'Paused',
+  'result.narrationReading': 'Reading',
+  'result.resume': 'Resume',
+  'result.pause': 'Pause',
+  'result.skipDay': 'Skip to the next day',
+  'result.stopReading': 'Stop reading',
+  'result.recommendedStops': 'Recommended Stops',
+  'result.showDayOnMap': 'Show this day on the map',
+  'result.noPlaces': 'Places will appear here when mentioned in your itinerary.',
+  'result.sources': 'Sources',
+
+  'map.optimizeFailed': 'Could not optimize this route.',
+  'map.distance': 'Distance',
+  'map.duration': 'Duration',
+  'map.stops': 'Stops',
+  'map.optimizeTitle': 'Reorder this day\'s stops for less travel. Pinned stops and opening hours are respected.',
+  'map.optimizing': 'Optimizing...',
+  'map.optimize': 'Optimize order',
+  'map.optimizeSaved': 'Saves {time} of travel',
+  'map.optimizeReordered': 'Reordered to fit opening hours and bookings · {before} → {after} of travel',
+  'map.optimizeQuickest': 'This order is already the quickest ({time} of travel).',
+  'map.placeholderLabel': 'Map View',
+  'map.placeholderHint': 'Explore suggested locations',
+
+  'route.title': 'Route Timeline',
+  'route.backBy': 'back by {time}',
+  'route.toCheck': '{count} to check',
+  'route.start': 'Start',
+  'route.doneBy': 'Done by',
+  'route.overrun': 'The day runs {time} past {end}. Consider dropping a stop or starting earlier.',
+  'route.booked': 'Booked',
+  'route.warning.lateForBooking': 'Arrives {arrival}, booked for {planned}',
+  'route.warning.offPlan': 'Arrives {arrival}, planned for {planned}',
+  'route.warning.notOpenYet': 'Not open yet (opens {opens})',
+  'route.warning.closedOnArrival': 'Closed on arrival (closes {closes})',
+
+  'budget.title': 'Cost estimate',
+  'budget.estimate': 'Somsri\'s estimates in baht; correct any amount you know better.',
+  'budget.unpriced.one': '{count} item without a price',
+  'budget.unpriced.other': '{count} items without a price',
+  'budget.edit': 'Edit costs',
+  'budget.hide': 'Hide details',
+  'budget.perPerson': 'Per person',
+  'budget.group.one': 'Total for {count} traveler',
+  'budget.group.other': 'Total for {count} travelers',
+  'budget.over': 'This plan is {amount} over your {cap} budget. Swap a paid activity or a pricier meal to bring it down.',
+  'budget.left': '{amount} left of your {cap} budget',
+  'budget.missingRates': 'No exchange rate for {currencies}, so those amounts aren\'t counted.',
+  'budget.category.sights': 'Sights & activities',
+  'budget.category.food': 'Food',
+  'budget.category.transport': 'Transport',
+  'budget.category.lodging': 'Lodging',
+  'budget.category.shopping': 'Shopping',
+  'budget.category.other': 'Other',
+  'budget.wholeTrip': 'Whole trip',
+  'budget.dayTotal': '{amount} per person',
+  'budget.perPersonHint': 'Baht per person',
+  'budget.removeCost': 'Remove this cost',
+  'budget.extraLabel': 'Other cost, e.g. SIM card or tips',
+  'budget.addCost': 'Add',
+  'budget.homeCurrency': 'Home currency',
+  'budget.resetRate': 'Reset',
+  'budget.rateUpdated': 'Your rate from {date}. Rates aren\'t updated automatically.',
+  'budget.rateDefault': 'Approximate rate. Enter today\'s rate for a closer figure.',
+
+  'place.jumpToStop': 'Jump to this stop in the plan',
+  'place.unpin': 'Booked: kept at this time when optimizing. Click to unpin.',
+  'place.pin': 'Pin this stop (e.g. a booking) so route optimization keeps its time',
+
+  'print.departs': 'departs {time}',
+  'print.booked': 'booked',
+  'print.open': 'Open {open}–{close}',
+  'print.notes': 'Somsri\'s notes',
+
+  'share.brokenLink': 'This trip link is broken or was made by a newer version of ThaiGuide.',
+
+  'trips.title': 'My Trips',
+  'trips.subtitle': 'Reopen, rename or tidy up the plans you\'ve saved.',
+  'trips.confirmDelete': 'Delete "{name}"? This cannot be undone.',
+  'trips.importError': 'That file isn\'t a trip exported from ThaiGuide, or it is from a newer version.',
+  'trips.renameFailed': 'Could not rename this trip.',
+  'trips.duplicateFailed': 'Could not duplicate this trip.',
+  'trips.deleteFailed': 'Could not delete this trip.',
+  'trips.search': 'Search by name, city or place...',
+  'trips.importTitle': 'Open a trip file someone shared with you',
+  'trips.import': 'Import',
+  'trips.loading': 'Loading your trips...',
+  'trips.empty': 'No saved trips yet. Generate a plan and hit Save!',
+  'trips.noMatches': 'No trips match your search.',
+  'trips.saved': 'saved {date}',
+  'trips.open': 'Open',
+  'trips.rename': 'Rename',
+  'trips.duplicate': 'Duplicate',
+  'trips.delete': 'Delete',
+
+  'chat.title': 'Ask Somsri',
+  'chat.subtitle': 'Your personal cultural expert for etiquette, bargaining, and hidden gems.',
+  'chat.greeting': 'Sawasdee ka! I am Somsri. Ask me anything about Thai customs, food, or basic phrases!',
+  'chat.stopped': 'Stopped before I could answer.',
+  'chat.noAnswer': 'I\'m sorry, I couldn\'t understand that.',
+  'chat.error': 'Sorry, I had trouble connecting. Please try again.',
+  'chat.newChat': '+ New chat',
+  'chat.emptyList': 'Your chats will appear here.',
+  'chat.role': 'AI Local Guide',
+  'chat.planUpdated': 'Plan updated',
+  'chat.edit.replaced': 'Day {day}: replaced {from} with {to}',
+  'chat.edit.added': 'Day {day}: added {stop}',
+  'chat.edit.removed': 'Day {day}: removed {stop}',
+  'chat.edit.movedAfter': 'Moved {stop} after {after}',
+  'chat.edit.movedAfterOnDay': 'Moved {stop} after {after} on day {day}',
+  'chat.edit.movedFirst': 'Moved {stop} to the start',
+  'chat.edit.movedFirstOfDay': 'Moved {stop} to the start of day {day}',
+  'chat.edit.retimed': 'Day {day}: {stop} now at {time}',
+  'chat.viewPlan': 'View plan →',
+  'chat.retry': 'Retry',
+  'chat.regenerate': 'Regenerate',
+  'chat.placeholder': 'Ask about \'tuk-tuks\' or \'pad thai\'...',
+  'chat.stop': 'Stop generating',
+  'chat.renameFailed': 'Could not rename this chat.',
+  'chat.deleteFailed': 'Could not delete this chat.',
+
+  'phrasebook.title': 'Thai Phrasebook',
+  'phrasebook.subtitle': 'Say it like a local: tap a phrase to hear it, then repeat after Somsri.',
+  'phrasebook.speaker': 'I speak as',
+  'phrasebook.speaker.female': 'Woman · ค่ะ',
+  'phrasebook.speaker.male': 'Man · ครับ',
+  'phrasebook.search': 'Search phrases, in English or Thai...',
+  'phrasebook.category.greetings': 'Greetings',
+  'phrasebook.category.food': 'Ordering food',
+  'phrasebook.category.spice': 'Spice level',
+  'phrasebook.category.directions': 'Directions',
+  'phrasebook.category.bargaining': 'Bargaining',
+  'phrasebook.category.emergencies': 'Emergencies',
+  'phrasebook.category.favorites': 'Favorites',
+  'phrasebook.play': 'Hear it',
+  'phrasebook.playFailed': 'Could not play this phrase.',
+  'phrasebook.favorite': 'Add to favorites',
+  'phrasebook.unfavorite': 'Remove from favorites',
+  'phrasebook.noFavorites': 'Tap ☆ on a phrase to keep it here.',
+  'phrasebook.noMatches': 'No phrases match your search.',
+  'phrasebook.download': 'Save audio for offline',
+  'phrasebook.downloading': 'Saving audio {done}/{total}',
+  'phrasebook.downloadFailed': 'Could not save all the audio. Try again when you\'re online.',
+  'phrasebook.offlineCount': '{count} of {total} phrases play offline',
+  'phrasebook.offlineReady': 'Every phrase plays offline',
+  'phrasebook.playsOffline': 'Plays offline',
+  'phrasebook.offline': 'You\'re offline: phrases with saved audio still play.',
+
+  'live.title': 'Live Voice Guide',
+  'live.subtitle': 'Real-time conversation with your AI companion.',
+  'live.stage.prep': 'Prep',
+  'live.stage.refine': 'Refine',
+  'live.stage.cook': 'Cook',
+  'live.stage.serve': 'Serve',
+  'live.step1': 'Step 1: Prep',
+  'live.intro': 'Ready to cook up a plan? Tell Somsri where you are and what you love.',
+  'live.start': 'Start Conversation',
+  'live.micSettings': 'Mic settings',
+  'live.speaking': 'Somsri Speaking',
+  'live.micPaused': 'Mic paused',
+  'live.muted': 'Muted',
+  'live.holdToTalk': 'Hold to talk',
+  'live.hearing': 'Hearing you...',
+  'live.listening': 'Listening...',
+  'live.unmute': 'Unmute',
+  'live.mute': 'Mute',
+  'live.openMic': 'Open mic',
+  'live.pushToTalk': 'Push to talk',
+  'live.releaseToSend': 'Listening... release to send',
+  'live.holdToTalkKey': 'Hold to talk · Space',
+  'live.step2': 'Step 2: Refine',
+  'live.refineHint': '"Tell me more! The more spice (details) you add, the better the plan."',
+  'live.reconnecting': 'Connection lost, reconnecting to Somsri... Your mic is paused.',
+  'live.disconnected': 'Somsri got disconnected. You can still cook a plan from what she heard so far.',
+  'live.captionsEmpty': 'Captions appear here as you talk.',
+  'live.you': 'You',
+  'live.somsri': 'Somsri',
+  'live.tripSoFar': 'Your trip so far',
+  'live.tripEmpty': 'Somsri notes your destination, dates, budget and interests here as you talk.',
+  'live.destinationUnknown': 'Destination?',
+  'live.budget.budget': 'Low budget',
+  'live.budget.mid-range': 'Mid-range budget',
+  'live.budget.luxury': 'Luxury budget',
+  'live.perDay': '{amount}/day',
+  'live.update.goingTo': 'Going to {city}',
+  'live.update.addedCity': 'Added {city}',
+  'live.update.likes': 'Likes {interest}',
+  'live.update.alreadyNoted': 'Already noted {interest}',
+  'live.update.dates': '{start} to {end}',
+  'live.update.starting': 'Starting {start}',
+  'live.ready': 'Ready?',
+  'live.startCooking': 'Start Cooking Plan',
+  'live.cancel': 'Cancel Session',
+  'live.reviewTitle': 'Check what Somsri heard',
+  'live.reviewHint': 'Fix any misheard place names before cooking. The mic is paused.',
+  'live.destination': 'Destination',
+  'live.transcript': 'Transcript',
+  'live.nothingHeard': 'Nothing was heard yet.',
+  'live.cookIt': 'Looks good, cook it!',
+  'live.keepTalking': 'Keep talking to Somsri',
+  'live.step3': 'Step 3: Cooking',
+  'live.cooking': 'Somsri is mixing your ingredients...',
+  'live.step4': 'Step 4: Served!',
+  'live.served': 'Your custom itinerary is ready.',
+  'live.opening': 'Opening Planner...',
+
+  'mic.echoCancellation': 'Echo cancellation',
+  'mic.noiseSuppression': 'Noise suppression',
+  'mic.autoGainControl': 'Auto volume',
+  'mic.microphone': 'Microphone',
+  'mic.systemDefault': 'System default',
+  'mic.numbered': 'Microphone {number}',
+
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Tell Somsri about yourself, and choose your language and how she sounds and talks to you.',
+  'settings.language': 'Language',
+  'settings.previewText': 'Sawasdee ka! I\'m Somsri. Shall we find you the best mango sticky rice in town?',
+  'settings.persona.politeParticles': 'Polite "ka"',
+  'settings.persona.politeParticles.hint': 'End sentences the Thai way',
+  'settings.persona.foodMetaphors': 'Food metaphors',
+  'settings.persona.foodMetaphors.hint': '"Let\'s add some spice to day two!"',
+  'settings.previewError': 'Could not play the voice preview.',
+  'settings.previewVoice': 'Hear this voice',
+  'settings.voiceStyle.Firm': 'Firm',
+  'settings.voiceStyle.Bright': 'Bright',
+  'settings.voiceStyle.Breezy': 'Breezy',
+  'settings.voiceStyle.Youthful': 'Youthful',
+  'settings.voiceStyle.Upbeat': 'Upbeat',
+  'settings.voiceStyle.Informative': 'Informative',
+  'settings.voiceStyle.Excitable': 'Excitable',
+  'settings.languageHint': 'Somsri plans, chats and speaks in this language, with Thai place names kept in Thai script.',
+  'settings.voice': 'Somsri\'s voice',
+  'settings.ttsVoice': 'Read Aloud voice',
+  'settings.liveVoice': 'Live Guide voice',
+  'settings.pace': 'Speaking pace',
+  'settings.pace.slow': 'Slow',
+  'settings.pace.normal': 'Normal',
+  'settings.pace.fast': 'Brisk',
+  'settings.style': 'Somsri\'s style',
+  'settings.verbosity': 'How much she says',
+  'settings.verbosity.brief': 'Brief',
+  'settings.verbosity.balanced': 'Balanced',
+  'settings.verbosity.detailed': 'Detailed',
+
+  'profile.title': 'About you',
+  'profile.hint': 'Somsri keeps this in mind for every plan, chat and Live conversation, so you only tell her once.',
+  'profile.diet': 'Diet',
+  'profile.diet.vegetarian': 'Vegetarian',
+  'profile.diet.vegan': 'Vegan',
+  'profile.diet.halal': 'Halal',
+  'profile.diet.noPork': 'No pork',
+  'profile.diet.noBeef': 'No beef',
+  'profile.diet.glutenFree': 'Gluten-free',
+  'profile.diet.mildSpice': 'Not spicy',
+  'profile.allergies': 'Allergies',
+  'profile.allergiesPlaceholder': 'e.g. peanuts, shellfish',
+  'profile.mobility': 'Getting around',
+  'profile.mobility.none': 'No limits',
+  'profile.mobility.limitedWalking': 'Short walks only',
+  'profile.mobility.noStairs': 'No stairs',
+  'profile.mobility.wheelchair': 'Wheelchair',
+  'profile.pace': 'Travel pace',
+  'profile.pace.any': 'Any',
+  'profile.pace.relaxed': 'Relaxed',
+  'profile.pace.moderate': 'Moderate',
+  'profile.pace.packed': 'Packed',
+  'profile.budget': 'Budget',
+  'profile.budget.any': 'Any',
+  'profile.budget.budget': 'Low',
+  'profile.budget.mid-range': 'Mid-range',
+  'profile.budget.luxury': 'Luxury',
+  'profile.companions': 'Travelling with',
+  'profile.companions.kids': 'Children',
+  'profile.companions.elderly': 'Elderly relatives',
+  'profile.interests': 'Usual interests',
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,82 @@
+import { Messages, en } from "./en";
+import { de } from "./de";
+import { ko } from "./ko";
+import { th } from "./th";
+import { zh } from "./zh";
+
+// UI languages, and what the models need to know to answer in them
+
+const STORAGE_KEY = 'thai_guide_locale';
+
+export type Locale = 'en' | 'zh' | 'de' | 'ko' | 'th';
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+// Keys that come in Intl.PluralRules forms ("trips.count.one", "trips.count.other"...)
+export type PluralKey = MessageKey extends infer K ? K extends `${infer Base}.other` ? Base : never : never;
+
+export interface LocaleInfo {
+  code: Locale;
+  name: string;        // In its own language, for the switcher
+  englishName: string; // For prompts
+  tag: string;         // BCP 47, for dates and numbers
+  speechCode: string;  // For the speech models
+  dayLabel: string;    // How Somsri should head each day, with {day} for the number
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', name: 'English', englishName: 'English', tag: 'en-US', speechCode: 'en-US', dayLabel: 'Day {day}' },
+  { code: 'zh', name: '中文', englishName: 'Simplified Chinese', tag: 'zh-CN', speechCode: 'cmn-CN', dayLabel: '第{day}天' },
+  { code: 'de', name: 'Deutsch', englishName: 'German', tag: 'de-DE', speechCode: 'de-DE', dayLabel: 'Tag {day}' },
+  { code: 'ko', name: '한국어', englishName: 'Korean', tag: 'ko-KR', speechCode: 'ko-KR', dayLabel: '{day}일차' },
+  { code: 'th', name: 'ไทย', englishName: 'Thai', tag: 'th-TH', speechCode: 'th-TH', dayLabel: 'วันที่ {day}' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, zh, de, ko, th };
+
+export const localeInfo = (locale: Locale): LocaleInfo => LOCALES.find(info => info.code === locale) || LOCALES[0];
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(info => info.code === value);
+
+// The first of the browser's preferred languages we have a catalog for
+export const detectLocale = (languages: readonly string[] = navigator.languages || [navigator.language]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage blocked: fall back to the browser's languages
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("Could not save language", e);
+  }
+};
+
+const interpolate = (template: string, params?: MessageParams): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  interpolate(CATALOGS[locale][key] ?? en[key], params);
+
+/**
+ * Picks the plural form of `key` for `count` (also available to the message as {count}).
+ */
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, params?: MessageParams): string => {
+  const form = `${key}.${new Intl.PluralRules(localeInfo(locale).tag).select(count)}`;
+  const catalog = CATALOGS[locale] as Record<string, string>;
+  const template = catalog[form] ?? catalog[`${key}.other`] ?? (en as Record<string, string>)[`${key}.other`];
+  return interpolate(template, { count, ...params });
+};
@@ -0,0 +1,353 @@
+import { Messages } from "./en";
+
+// Korean
+export const ko: Messages = {
+  'common.cancel': '취소',
+  'common.day': '{day}일차',
+  'common.undo': '실행 취소',
+  'common.dismiss': '닫기',
+  'common.days.one': '{count}일',
+  'common.days.other': '{count}일',
+  'common.nights.one': '{count}박',
+  'common.nights.other': '{count}박',
+  'common.moveUp': '위로 이동',
+  'common.moveDown': '아래로 이동',
+  'common.stops.one': '장소 {count}곳',
+  'common.stops.other': '장소 {count}곳',
+
+  'nav.live': '라이브 가이드',
+  'nav.planner': '여행 플래너',
+  'nav.trips': '내 여행',
+  'nav.chat': '현지 채팅',
+  'nav.phrasebook': '회화집',
+  'nav.settings': '설정',
+  'nav.poweredBy': 'Gemini 2.5 기반',
+
+  'planner.generateFailed': '일정을 만들지 못했어요. 다시 시도해 주세요.',
+  'planner.saveFailed': '이 여행을 저장하지 못했어요.',
+  'planner.title': '나만의 여행 만들기',
+  'planner.subtitle': 'AI가 맞춤 일정으로 태국 여행을 안내해 드려요.',
+  'planner.interests': '관심사',
+  'planner.interestsPlaceholder': '예: 매운 음식, 오래된 사원',
+  'planner.profileUsed': 'Somsri가 여행자 프로필도 반영해요 · 편집',
+  'planner.profileMissing': '설정에서 식단, 이동, 여행 속도를 한 번만 알려 주세요',
+  'planner.thinking': 'Somsri가 생각 중이에요...',
+  'planner.generate': '일정 만들기',
+  'planner.cancelTitle': '생성 중지',
+  'planner.deepThinking': '깊이 생각하기 모드 사용',
+
+  'tripBuilder.arrive': '도착',
+  'tripBuilder.depart': '출발',
+  'tripBuilder.route': '경로',
+  'tripBuilder.nights': '숙박',
+  'tripBuilder.nightsUnit.one': '박',
+  'tripBuilder.nightsUnit.other': '박',
+  'tripBuilder.removeCity': '도시 삭제',
+  'tripBuilder.addCity': '도시 추가',
+  'tripBuilder.transfers': '도시 간 이동',
+  'tripBuilder.transfer.any': '최적의 방법',
+  'tripBuilder.transfer.flight': '항공편',
+  'tripBuilder.transfer.train': '기차 (야간열차 가능)',
+  'tripBuilder.transfer.bus': '버스 / 밴',
+  'tripBuilder.travelers': '여행자 수',
+  'tripBuilder.budget': '예산 한도 (전체 일행)',
+  'tripBuilder.noBudget': '제한 없음',
+  'tripBuilder.budgetPerDay': '1인 1일 약 {amount}',
+
+  'result.speechFailed': '음성을 만들지 못했어요.',
+  'result.audioGuideFailed': '오디오 가이드를 녹음하지 못했어요.',
+  'result.shareFailed': '공유 링크를 만들지 못했어요.',
+  'result.curatedBy': 'Somsri가 엄선한 일정',
+  'result.writing': 'Somsri가 작성 중이에요...',
+  'result.saved': '저장됨',
+  'result.save': '저장',
+  'result.shareTitle': '이 여행을 여는 링크 복사',
+  'result.linkCopied': '링크가 복사되었어요',
+  'result.share': '공유',
+  'result.recording': '녹음 중 {done}/{total}...',
+  'result.export': '내보내기',
+  'result.exportAs.ics': '캘린더 (.ics)',
+  'result.exportAs.gpx': 'GPS 트랙 (.gpx)',
+  'result.exportAs.kml': 'Google 어스 (.kml)',
+  'result.exportAs.md': '마크다운 (.md)',
+  'result.exportAs.json': '여행 파일 (.json)',
+  'result.exportAs.wav': '오디오 가이드 (.wav)',
+  'result.exportAs.print': '인쇄',
+  'result.readAloud': '소리 내어 읽기',
+  'result.narrationLoading': '생성 중...',
+  'result.narrationPaused': '일시 정지됨',
+  'result.narrationReading': '읽는 중',
+  'result.resume': '계속',
+  'result.pause': '일시 정지',
+  'result.skipDay': '다음 날로 건너뛰기',
+  'result.stopReading': '읽기 중지',
+  'result.recommendedStops': '추천 장소',
+  'result.showDayOnMap': '이날을 지도에 표시',
+  'result.noPlaces': '일정에 언급된 장소가 여기에 표시돼요.',
+  'result.sources': '출처',
+
+  'map.optimizeFailed': '이 경로를 최적화하지 못했어요.',
+  'map.distance': '거리',
+  'map.duration': '소요 시간',
+  'map.stops': '장소',
+  'map.optimizeTitle': '이동을 줄이도록 이날의 장소 순서를 바꿔요. 고정된 장소와 영업시간은 지켜져요.',
+  'map.optimizing': '최적화 중...',
+  'map.optimize': '순서 최적화',
+  'map.optimizeSaved': '이동 시간 {time} 절약',
+  'map.optimizeReordered': '영업시간과 예약에 맞게 순서를 바꿨어요 · 이동 {before} → {after}',
+  'map.optimizeQuickest': '이미 가장 빠른 순서예요 (이동 {time}).',
+  'map.placeholderLabel': '지도 보기',
+  'map.placeholderHint': '추천 장소를 둘러보세요',
+
+  'route.title': '경로 타임라인',
+  'route.backBy': '{time}까지 복귀',
+  'route.toCheck': '확인할 항목 {count}개',
+  'route.start': '시작',
+  'route.doneBy': '종료 시각',
+  'route.overrun': '이날 일정이 {end}보다 {time} 늦게 끝나요. 장소를 하나 빼거나 더 일찍 출발해 보세요.',
+  'route.booked': '예약됨',
+  'route.warning.lateForBooking': '{arrival} 도착, 예약 시간은 {planned}',
+  'route.warning.offPlan': '{arrival} 도착, 계획 시간은 {planned}',
+  'route.warning.notOpenYet': '아직 영업 전 ({opens} 오픈)',
+  'route.warning.closedOnArrival': '도착 시 영업 종료 ({closes} 마감)',
+
+  'budget.title': '예상 비용',
+  'budget.estimate': 'Somsri가 바트로 추정한 금액이에요. 더 정확히 아는 금액은 고쳐 주세요.',
+  'budget.unpriced.one': '가격 없는 항목 {count}개',
+  'budget.unpriced.other': '가격 없는 항목 {count}개',
+  'budget.edit': '비용 편집',
+  'budget.hide': '세부 내역 숨기기',
+  'budget.perPerson': '1인당',
+  'budget.group.one': '{count}명 합계',
+  'budget.group.other': '{count}명 합계',
+  'budget.over': '이 일정은 예산 {cap}보다 {amount} 초과해요. 유료 활동이나 비싼 식사를 바꿔 보세요.',
+  'budget.left': '예산 {cap} 중 {amount} 남음',
+  'budget.missingRates': '{currencies} 환율이 없어 해당 금액은 합계에서 빠졌어요.',
+  'budget.category.sights': '관광 및 액티비티',
+  'budget.category.food': '식사',
+  'budget.category.transport': '교통',
+  'budget.category.lodging': '숙박',
+  'budget.category.shopping': '쇼핑',
+  'budget.category.other': '기타',
+  'budget.wholeTrip': '여행 전체',
+  'budget.dayTotal': '1인당 {amount}',
+  'budget.perPersonHint': '1인당 바트',
+  'budget.removeCost': '이 비용 삭제',
+  'budget.extraLabel': '기타 비용 (예: 유심, 팁)',
+  'budget.addCost': '추가',
+  'budget.homeCurrency': '자국 통화',
+  'budget.resetRate': '초기화',
+  'budget.rateUpdated': '{date}에 입력한 환율이에요. 환율은 자동으로 갱신되지 않아요.',
+  'budget.rateDefault': '대략적인 환율이에요. 오늘 환율을 입력하면 더 정확해져요.',
+
+  'place.jumpToStop': '일정에서 이 장소로 이동',
+  'place.unpin': '예약됨: 최적화할 때 이 시간을 유지해요. 클릭하면 고정이 해제돼요.',
+  'place.pin': '이 장소를 고정해요 (예: 예약). 경로를 최적화해도 시간이 유지돼요',
+
+  'print.departs': '{time} 출발',
+  'print.booked': '예약됨',
+  'print.open': '영업 {open}–{close}',
+  'print.notes': 'Somsri의 메모',
+
+  'share.brokenLink': '이 여행 링크가 손상되었거나 더 최신 버전의 ThaiGuide에서 만들어졌어요.',
+
+  'trips.title': '내 여행',
+  'trips.subtitle': '저장한 일정을 다시 열고, 이름을 바꾸고, 정리하세요.',
+  'trips.confirmDelete': '"{name}"을(를) 삭제할까요? 되돌릴 수 없어요.',
+  'trips.importError': 'ThaiGuide에서 내보낸 여행 파일이 아니거나 더 최신 버전의 파일이에요.',
+  'trips.renameFailed': '이 여행의 이름을 바꿀 수 없어요.',
+  'trips.duplicateFailed': '이 여행을 복제할 수 없어요.',
+  'trips.deleteFailed': '이 여행을 삭제할 수 없어요.',
+  'trips.search': '이름, 도시, 장소로 검색...',
+  'trips.importTitle': '다른 사람이 공유한 여행 파일 열기',
+  'trips.import': '가져오기',
+  'trips.loading': '여행을 불러오는 중...',
+  'trips.empty': '아직 저장한 여행이 없어요. 일정을 만들고 저장을 눌러 보세요!',
+  'trips.noMatches': '검색과 일치하는 여행이 없어요.',
+  'trips.saved': '{date} 저장',
+  'trips.open': '열기',
+  'trips.rename': '이름 바꾸기',
+  'trips.duplicate': '복제',
+  'trips.delete': '삭제',
+
+  'chat.title': 'Somsri에게 물어보세요',
+  'chat.subtitle': '예절, 흥정, 숨은 명소를 알려 주는 나만의 문화 전문가.',
+  'chat.greeting': 'Sawasdee ka! 저는 Somsri예요. 태국 풍습, 음식, 기본 표현에 대해 무엇이든 물어보세요!',
+  'chat.stopped': '답하기 전에 중지되었어요.',
+  'chat.noAnswer': '죄송해요, 이해하지 못했어요.',
+  'chat.error': '죄송해요, 연결에 문제가 있었어요. 다시 시도해 주세요.',
+  'chat.newChat': '+ 새 채팅',
+  'chat.emptyList': '채팅이 여기에 표시돼요.',
+  'chat.role': 'AI 현지 가이드',
+  'chat.planUpdated': '일정이 업데이트됨',
+  'chat.edit.replaced': '{day}일차: {from}을(를) {to}(으)로 바꿨어요',
+  'chat.edit.added': '{day}일차: {stop} 추가',
+  'chat.edit.removed': '{day}일차: {stop} 삭제',
+  'chat.edit.movedAfter': '{stop}을(를) {after} 다음으로 옮겼어요',
+  'chat.edit.movedAfterOnDay': '{stop}을(를) {day}일차 {after} 다음으로 옮겼어요',
+  'chat.edit.movedFirst': '{stop}을(를) 맨 앞으로 옮겼어요',
+  'chat.edit.movedFirstOfDay': '{stop}을(를) {day}일차 맨 앞으로 옮겼어요',
+  'chat.edit.retimed': '{day}일차: {stop} 시간을 {time}(으)로 변경',
+  'chat.viewPlan': '일정 보기 →',
+  'chat.retry': '다시 시도',
+  'chat.regenerate': '다시 생성',
+  'chat.placeholder': '\'툭툭\'이나 \'팟타이\'에 대해 물어보세요...',
+  'chat.stop': '생성 중지',
+  'chat.renameFailed': '이 대화의 이름을 바꿀 수 없어요.',
+  'chat.deleteFailed': '이 대화를 삭제할 수 없어요.',
+
+  'phrasebook.title': '태국어 회화집',
+  'phrasebook.subtitle': '현지인처럼 말해 보세요. 문장을 눌러 듣고 Somsri를 따라 말해 보세요.',
+  'phrasebook.speaker': '말하는 사람',
+  'phrasebook.speaker.female': '여성 · ค่ะ',
+  'phrasebook.speaker.male': '남성 · ครับ',
+  'phrasebook.search': '한국어나 태국어로 문장 검색...',
+  'phrasebook.category.greetings': '인사',
+  'phrasebook.category.food': '음식 주문',
+  'phrasebook.category.spice': '맵기',
+  'phrasebook.category.directions': '길 찾기',
+  'phrasebook.category.bargaining': '흥정',
+  'phrasebook.category.emergencies': '긴급 상황',
+  'phrasebook.category.favorites': '즐겨찾기',
+  'phrasebook.play': '듣기',
+  'phrasebook.playFailed': '이 문장을 재생하지 못했어요.',
+  'phrasebook.favorite': '즐겨찾기에 추가',
+  'phrasebook.unfavorite': '즐겨찾기에서 삭제',
+  'phrasebook.noFavorites': '문장의 ☆를 누르면 여기에 모아 둘 수 있어요.',
+  'phrasebook.noMatches': '검색과 일치하는 문장이 없어요.',
+  'phrasebook.download': '오프라인용 오디오 저장',
+  'phrasebook.downloading': '오디오 저장 중 {done}/{total}',
+  'phrasebook.downloadFailed': '오디오를 모두 저장하지 못했어요. 온라인일 때 다시 시도해 주세요.',
+  'phrasebook.offlineCount': '{total}개 중 {count}개 문장을 오프라인에서 재생할 수 있어요',
+  'phrasebook.offlineReady': '모든 문장을 오프라인에서 재생할 수 있어요',
+  'phrasebook.playsOffline': '오프라인 재생 가능',
+  'phrasebook.offline': '오프라인 상태예요. 오디오가 저장된 문장은 계속 재생할 수 있어요.',
+
+  'live.title': '라이브 음성 가이드',
+  'live.subtitle': 'AI 여행 친구와 실시간으로 대화하세요.',
+  'live.stage.prep': '준비',
+  'live.stage.refine': '다듬기',
+  'live.stage.cook': '요리',
+  'live.stage.serve': '완성',
+  'live.step1': '1단계: 준비',
+  'live.intro': '일정을 요리할 준비가 되셨나요? 지금 어디에 있고 무엇을 좋아하는지 Somsri에게 말해 주세요.',
+  'live.start': '대화 시작',
+  'live.micSettings': '마이크 설정',
+  'live.speaking': 'Somsri가 말하는 중',
+  'live.micPaused': '마이크 일시 정지',
+  'live.muted': '음소거됨',
+  'live.holdToTalk': '누르고 말하기',
+  'live.hearing': '듣고 있어요...',
+  'live.listening': '듣는 중...',
+  'live.unmute': '음소거 해제',
+  'live.mute': '음소거',
+  'live.openMic': '마이크 켜두기',
+  'live.pushToTalk': '눌러서 말하기',
+  'live.releaseToSend': '듣는 중... 손을 떼면 전송',
+  'live.holdToTalkKey': '누르고 말하기 · 스페이스',
+  'live.step2': '2단계: 다듬기',
+  'live.refineHint': '"더 말해 주세요! 양념(세부 사항)을 많이 넣을수록 일정이 좋아져요."',
+  'live.reconnecting': '연결이 끊겨 Somsri에게 다시 연결하는 중... 마이크가 일시 정지되었어요.',
+  'live.disconnected': 'Somsri와 연결이 끊겼어요. 지금까지 들은 내용으로 일정을 요리할 수 있어요.',
+  'live.captionsEmpty': '대화하는 동안 자막이 여기에 표시돼요.',
+  'live.you': '나',
+  'live.somsri': 'Somsri',
+  'live.tripSoFar': '지금까지의 여행',
+  'live.tripEmpty': '대화하는 동안 Somsri가 목적지, 날짜, 예산, 관심사를 여기에 적어 둬요.',
+  'live.destinationUnknown': '목적지는?',
+  'live.budget.budget': '저예산',
+  'live.budget.mid-range': '중간 예산',
+  'live.budget.luxury': '럭셔리 예산',
+  'live.perDay': '하루 {amount}',
+  'live.update.goingTo': '목적지: {city}',
+  'live.update.addedCity': '{city} 추가',
+  'live.update.likes': '좋아하는 것: {interest}',
+  'live.update.alreadyNoted': '{interest}은(는) 이미 적어 뒀어요',
+  'live.update.dates': '{start} ~ {end}',
+  'live.update.starting': '{start} 출발',
+  'live.ready': '준비됐나요?',
+  'live.startCooking': '일정 요리 시작',
+  'live.cancel': '세션 취소',
+  'live.reviewTitle': 'Somsri가 들은 내용 확인',
+  'live.reviewHint': '요리하기 전에 잘못 들린 장소 이름을 고쳐 주세요. 마이크는 일시 정지되었어요.',
+  'live.destination': '목적지',
+  'live.transcript': '대화 기록',
+  'live.nothingHeard': '아직 들린 내용이 없어요.',
+  'live.cookIt': '좋아요, 요리해 주세요!',
+  'live.keepTalking': 'Somsri와 계속 이야기하기',
+  'live.step3': '3단계: 요리 중',
+  'live.cooking': 'Somsri가 재료를 섞고 있어요...',
+  'live.step4': '4단계: 완성!',
+  'live.served': '맞춤 일정이 준비되었어요.',
+  'live.opening': '여행 플래너를 여는 중...',
+
+  'mic.echoCancellation': '에코 제거',
+  'mic.noiseSuppression': '소음 억제',
+  'mic.autoGainControl': '자동 음량',
+  'mic.microphone': '마이크',
+  'mic.systemDefault': '시스템 기본값',
+  'mic.numbered': '마이크 {number}',
+
+  'settings.title': '설정',
+  'settings.subtitle': 'Somsri에게 나에 대해 알려 주고, 언어와 그녀의 목소리 및 말투를 선택하세요.',
+  'settings.language': '언어',
+  'settings.previewText': 'Sawasdee ka! 저는 Somsri예요. 시내에서 제일 맛있는 망고 찹쌀밥을 찾으러 가 볼까요?',
+  'settings.persona.politeParticles': '공손한 "ka"',
+  'settings.persona.politeParticles.hint': '태국식으로 문장 끝맺기',
+  'settings.persona.foodMetaphors': '음식 비유',
+  'settings.persona.foodMetaphors.hint': '"둘째 날에 양념을 좀 더 쳐 볼까요!"',
+  'settings.previewError': '목소리 미리 듣기를 재생하지 못했어요.',
+  'settings.previewVoice': '이 목소리 듣기',
+  'settings.voiceStyle.Firm': '단호한',
+  'settings.voiceStyle.Bright': '밝은',
+  'settings.voiceStyle.Breezy': '산뜻한',
+  'settings.voiceStyle.Youthful': '젊은',
+  'settings.voiceStyle.Upbeat': '경쾌한',
+  'settings.voiceStyle.Informative': '차분한',
+  'settings.voiceStyle.Excitable': '들뜬',
+  'settings.languageHint': 'Somsri가 이 언어로 계획하고, 채팅하고, 말해요. 태국 지명은 태국 문자로 함께 표기해요.',
+  'settings.voice': 'Somsri의 목소리',
+  'settings.ttsVoice': '소리 내어 읽기 목소리',
+  'settings.liveVoice': '라이브 가이드 목소리',
+  'settings.pace': '말하기 속도',
+  'settings.pace.slow': '느리게',
+  'settings.pace.normal': '보통',
+  'settings.pace.fast': '빠르게',
+  'settings.style': 'Somsri의 스타일',
+  'settings.verbosity': '말하는 분량',
+  'settings.verbosity.brief': '간단히',
+  'settings.verbosity.balanced': '적당히',
+  'settings.verbosity.detailed': '자세히',
+
+  'profile.title': '나에 대해',
+  'profile.hint': 'Somsri가 모든 일정, 채팅, 라이브 대화에서 기억하니 한 번만 알려 주면 돼요.',
+  'profile.diet': '식단',
+  'profile.diet.vegetarian': '채식',
+  'profile.diet.vegan': '비건',
+  'profile.diet.halal': '할랄',
+  'profile.diet.noPork': '돼지고기 제외',
+  'profile.diet.noBeef': '소고기 제외',
+  'profile.diet.glutenFree': '글루텐 프리',
+  'profile.diet.mildSpice': '맵지 않게',
+  'profile.allergies': '알레르기',
+  'profile.allergiesPlaceholder': '예: 땅콩, 갑각류',
+  'profile.mobility': '이동',
+  'profile.mobility.none': '제한 없음',
+  'profile.mobility.limitedWalking': '짧은 도보만',
+  'profile.mobility.noStairs': '계단 불가',
+  'profile.mobility.wheelchair': '휠체어',
+  'profile.pace': '여행 속도',
+  'profile.pace.any': '상관없음',
+  'profile.pace.relaxed': '여유롭게',
+  'profile.pace.moderate': '적당히',
+  'profile.pace.packed': '빡빡하게',
+  'profile.budget': '예산',
+  'profile.budget.any': '상관없음',
+  'profile.budget.budget': '저예산',
+  'profile.budget.mid-range': '중간',
+  'profile.budget.luxury': '럭셔리',
+  'profile.companions': '동행',
+  'profile.companions.kids': '아이',
+  'profile.companions.elderly': '어르신',
+  'profile.interests': '평소 관심사',
+};
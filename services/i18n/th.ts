@@ -0,0 +1,353 @@
+import { Messages } from "./en";
+
+// Thai
+export const th: Messages = {
+  'common.cancel': 'ยกเลิก',
+  'common.day': 'วันที่ {day}',
+  'common.undo': 'เลิกทำ',
+  'common.dismiss': 'ปิด',
+  'common.days.one': '{count} วัน',
+  'common.days.other': '{count} วัน',
+  'common.nights.one': '{count} คืน',
+  'common.nights.other': '{count} คืน',
+  'common.moveUp': 'เลื่อนขึ้น',
+  'common.moveDown': 'เลื่อนลง',
+  'common.stops.one': '{count} จุดแวะ',
+  'common.stops.other': '{count} จุดแวะ',
+
+  'nav.live': 'ไกด์สด',
+  'nav.planner': 'วางแผนทริป',
+  'nav.trips': 'ทริปของฉัน',
+  'nav.chat': 'แชตกับคนท้องถิ่น',
+  'nav.phrasebook': 'สมุดวลี',
+  'nav.settings': 'ตั้งค่า',
+  'nav.poweredBy': 'ขับเคลื่อนโดย Gemini 2.5',
+
+  'planner.generateFailed': 'สร้างแผนการเดินทางไม่สำเร็จ กรุณาลองอีกครั้ง',
+  'planner.saveFailed': 'บันทึกทริปนี้ไม่ได้',
+  'planner.title': 'สร้างการเดินทางของคุณ',
+  'planner.subtitle': 'เที่ยวไทยด้วยแผนการเดินทางเฉพาะตัวที่สร้างโดย AI',
+  'planner.interests': 'ความสนใจ',
+  'planner.interestsPlaceholder': 'เช่น อาหารรสจัด วัดเก่า',
+  'planner.profileUsed': 'Somsri ใช้โปรไฟล์นักเดินทางของคุณด้วย · แก้ไข',
+  'planner.profileMissing': 'บอก Somsri เรื่องอาหาร การเดินทาง และจังหวะเที่ยวของคุณครั้งเดียวในการตั้งค่า',
+  'planner.thinking': 'สมศรีกำลังคิด...',
+  'planner.generate': 'สร้างแผน',
+  'planner.cancelTitle': 'หยุดสร้าง',
+  'planner.deepThinking': 'เปิดโหมดคิดอย่างละเอียด',
+
+  'tripBuilder.arrive': 'มาถึง',
+  'tripBuilder.depart': 'เดินทางกลับ',
+  'tripBuilder.route': 'เส้นทาง',
+  'tripBuilder.nights': 'จำนวนคืน',
+  'tripBuilder.nightsUnit.one': 'คืน',
+  'tripBuilder.nightsUnit.other': 'คืน',
+  'tripBuilder.removeCity': 'ลบเมือง',
+  'tripBuilder.addCity': 'เพิ่มเมือง',
+  'tripBuilder.transfers': 'การเดินทางระหว่างเมือง',
+  'tripBuilder.transfer.any': 'ตัวเลือกที่ดีที่สุด',
+  'tripBuilder.transfer.flight': 'เครื่องบิน',
+  'tripBuilder.transfer.train': 'รถไฟ (รถไฟกลางคืนได้)',
+  'tripBuilder.transfer.bus': 'รถบัส / รถตู้',
+  'tripBuilder.travelers': 'จำนวนผู้เดินทาง',
+  'tripBuilder.budget': 'งบประมาณสูงสุด (ทั้งกลุ่ม)',
+  'tripBuilder.noBudget': 'ไม่จำกัด',
+  'tripBuilder.budgetPerDay': 'ประมาณ {amount} ต่อคนต่อวัน',
+
+  'result.speechFailed': 'สร้างเสียงพูดไม่ได้',
+  'result.audioGuideFailed': 'บันทึกไกด์เสียงไม่ได้',
+  'result.shareFailed': 'สร้างลิงก์แชร์ไม่ได้',
+  'result.curatedBy': 'คัดสรรโดยสมศรี',
+  'result.writing': 'สมศรีกำลังเขียน...',
+  'result.saved': 'บันทึกแล้ว',
+  'result.save': 'บันทึก',
+  'result.shareTitle': 'คัดลอกลิงก์ที่เปิดทริปนี้',
+  'result.linkCopied': 'คัดลอกลิงก์แล้ว',
+  'result.share': 'แชร์',
+  'result.recording': 'กำลังบันทึก {done}/{total}...',
+  'result.export': 'ส่งออก',
+  'result.exportAs.ics': 'ปฏิทิน (.ics)',
+  'result.exportAs.gpx': 'เส้นทาง GPS (.gpx)',
+  'result.exportAs.kml': 'Google Earth (.kml)',
+  'result.exportAs.md': 'Markdown (.md)',
+  'result.exportAs.json': 'ไฟล์ทริป (.json)',
+  'result.exportAs.wav': 'ไกด์เสียง (.wav)',
+  'result.exportAs.print': 'พิมพ์',
+  'result.readAloud': 'อ่านออกเสียง',
+  'result.narrationLoading': 'กำลังสร้าง...',
+  'result.narrationPaused': 'หยุดชั่วคราว',
+  'result.narrationReading': 'กำลังอ่าน',
+  'result.resume': 'เล่นต่อ',
+  'result.pause': 'หยุดชั่วคราว',
+  'result.skipDay': 'ข้ามไปวันถัดไป',
+  'result.stopReading': 'หยุดอ่าน',
+  'result.recommendedStops': 'จุดแวะแนะนำ',
+  'result.showDayOnMap': 'แสดงวันนี้บนแผนที่',
+  'result.noPlaces': 'สถานที่ที่กล่าวถึงในแผนการเดินทางจะแสดงที่นี่',
+  'result.sources': 'แหล่งข้อมูล',
+
+  'map.optimizeFailed': 'ปรับเส้นทางนี้ไม่ได้',
+  'map.distance': 'ระยะทาง',
+  'map.duration': 'ระยะเวลา',
+  'map.stops': 'จุดแวะ',
+  'map.optimizeTitle': 'จัดลำดับจุดแวะของวันนี้ใหม่ให้เดินทางน้อยลง โดยยังคงจุดที่ปักหมุดและเวลาเปิดปิดไว้',
+  'map.optimizing': 'กำลังปรับ...',
+  'map.optimize': 'ปรับลำดับ',
+  'map.optimizeSaved': 'ประหยัดเวลาเดินทาง {time}',
+  'map.optimizeReordered': 'จัดลำดับใหม่ตามเวลาเปิดปิดและการจอง · เดินทาง {before} → {after}',
+  'map.optimizeQuickest': 'ลำดับนี้เร็วที่สุดแล้ว (เดินทาง {time})',
+  'map.placeholderLabel': 'มุมมองแผนที่',
+  'map.placeholderHint': 'สำรวจสถานที่ที่แนะนำ',
+
+  'route.title': 'ไทม์ไลน์เส้นทาง',
+  'route.backBy': 'กลับถึงเวลา {time}',
+  'route.toCheck': 'ต้องตรวจสอบ {count} รายการ',
+  'route.start': 'เริ่ม',
+  'route.doneBy': 'เสร็จภายใน',
+  'route.overrun': 'วันนี้เกินเวลา {end} ไป {time} ลองตัดจุดแวะออกหรือออกเดินทางให้เร็วขึ้น',
+  'route.booked': 'จองแล้ว',
+  'route.warning.lateForBooking': 'ถึง {arrival} แต่จองไว้ {planned}',
+  'route.warning.offPlan': 'ถึง {arrival} แต่วางแผนไว้ {planned}',
+  'route.warning.notOpenYet': 'ยังไม่เปิด (เปิด {opens})',
+  'route.warning.closedOnArrival': 'ปิดแล้วตอนไปถึง (ปิด {closes})',
+
+  'budget.title': 'ประมาณการค่าใช้จ่าย',
+  'budget.estimate': 'ราคาประมาณการเป็นบาทจาก Somsri แก้ไขได้ถ้าคุณรู้ราคาที่แม่นกว่า',
+  'budget.unpriced.one': '{count} รายการยังไม่มีราคา',
+  'budget.unpriced.other': '{count} รายการยังไม่มีราคา',
+  'budget.edit': 'แก้ไขค่าใช้จ่าย',
+  'budget.hide': 'ซ่อนรายละเอียด',
+  'budget.perPerson': 'ต่อคน',
+  'budget.group.one': 'รวม {count} คน',
+  'budget.group.other': 'รวม {count} คน',
+  'budget.over': 'แผนนี้เกินงบ {cap} ไป {amount} ลองเปลี่ยนกิจกรรมที่เสียเงินหรือมื้อที่แพงกว่าดู',
+  'budget.left': 'เหลือ {amount} จากงบ {cap}',
+  'budget.missingRates': 'ไม่มีอัตราแลกเปลี่ยนของ {currencies} จึงไม่ได้นับยอดเหล่านั้น',
+  'budget.category.sights': 'สถานที่และกิจกรรม',
+  'budget.category.food': 'อาหาร',
+  'budget.category.transport': 'การเดินทาง',
+  'budget.category.lodging': 'ที่พัก',
+  'budget.category.shopping': 'ช้อปปิ้ง',
+  'budget.category.other': 'อื่น ๆ',
+  'budget.wholeTrip': 'ทั้งทริป',
+  'budget.dayTotal': '{amount} ต่อคน',
+  'budget.perPersonHint': 'บาทต่อคน',
+  'budget.removeCost': 'ลบค่าใช้จ่ายนี้',
+  'budget.extraLabel': 'ค่าใช้จ่ายอื่น เช่น ซิมการ์ดหรือทิป',
+  'budget.addCost': 'เพิ่ม',
+  'budget.homeCurrency': 'สกุลเงินของคุณ',
+  'budget.resetRate': 'รีเซ็ต',
+  'budget.rateUpdated': 'อัตราที่คุณตั้งไว้เมื่อ {date} อัตราแลกเปลี่ยนไม่อัปเดตอัตโนมัติ',
+  'budget.rateDefault': 'เป็นอัตราโดยประมาณ ใส่อัตราของวันนี้เพื่อให้แม่นยำขึ้น',
+
+  'place.jumpToStop': 'ไปที่จุดแวะนี้ในแผน',
+  'place.unpin': 'จองแล้ว: คงเวลานี้ไว้เมื่อปรับเส้นทาง คลิกเพื่อเลิกปักหมุด',
+  'place.pin': 'ปักหมุดจุดแวะนี้ (เช่น ที่จองไว้) เพื่อให้การปรับเส้นทางคงเวลาไว้',
+
+  'print.departs': 'ออกเดินทาง {time}',
+  'print.booked': 'จองแล้ว',
+  'print.open': 'เปิด {open}–{close}',
+  'print.notes': 'บันทึกของสมศรี',
+
+  'share.brokenLink': 'ลิงก์ทริปนี้เสีย หรือสร้างจาก ThaiGuide เวอร์ชันที่ใหม่กว่า',
+
+  'trips.title': 'ทริปของฉัน',
+  'trips.subtitle': 'เปิด เปลี่ยนชื่อ หรือจัดการแผนที่คุณบันทึกไว้',
+  'trips.confirmDelete': 'ลบ "{name}" ใช่ไหม การลบนี้ย้อนกลับไม่ได้',
+  'trips.importError': 'ไฟล์นี้ไม่ใช่ทริปที่ส่งออกจาก ThaiGuide หรือมาจากเวอร์ชันที่ใหม่กว่า',
+  'trips.renameFailed': 'ไม่สามารถเปลี่ยนชื่อทริปนี้ได้',
+  'trips.duplicateFailed': 'ไม่สามารถทำสำเนาทริปนี้ได้',
+  'trips.deleteFailed': 'ไม่สามารถลบทริปนี้ได้',
+  'trips.search': 'ค้นหาด้วยชื่อ เมือง หรือสถานที่...',
+  'trips.importTitle': 'เปิดไฟล์ทริปที่มีคนแชร์ให้คุณ',
+  'trips.import': 'นำเข้า',
+  'trips.loading': 'กำลังโหลดทริปของคุณ...',
+  'trips.empty': 'ยังไม่มีทริปที่บันทึกไว้ สร้างแผนแล้วกดบันทึกเลย!',
+  'trips.noMatches': 'ไม่มีทริปที่ตรงกับคำค้นหา',
+  'trips.saved': 'บันทึกเมื่อ {date}',
+  'trips.open': 'เปิด',
+  'trips.rename': 'เปลี่ยนชื่อ',
+  'trips.duplicate': 'ทำสำเนา',
+  'trips.delete': 'ลบ',
+
+  'chat.title': 'ถามสมศรี',
+  'chat.subtitle': 'ผู้เชี่ยวชาญด้านวัฒนธรรมส่วนตัว เรื่องมารยาท การต่อราคา และที่เที่ยวลับ',
+  'chat.greeting': 'สวัสดีค่ะ! สมศรีเองค่ะ ถามได้ทุกเรื่องเกี่ยวกับธรรมเนียมไทย อาหาร หรือประโยคพื้นฐานเลยนะคะ!',
+  'chat.stopped': 'หยุดก่อนที่จะตอบได้',
+  'chat.noAnswer': 'ขอโทษค่ะ ไม่เข้าใจคำถาม',
+  'chat.error': 'ขอโทษค่ะ การเชื่อมต่อมีปัญหา กรุณาลองอีกครั้ง',
+  'chat.newChat': '+ แชตใหม่',
+  'chat.emptyList': 'แชตของคุณจะแสดงที่นี่',
+  'chat.role': 'ไกด์ท้องถิ่น AI',
+  'chat.planUpdated': 'อัปเดตแผนแล้ว',
+  'chat.edit.replaced': 'วันที่ {day}: เปลี่ยน {from} เป็น {to}',
+  'chat.edit.added': 'วันที่ {day}: เพิ่ม {stop}',
+  'chat.edit.removed': 'วันที่ {day}: ลบ {stop}',
+  'chat.edit.movedAfter': 'ย้าย {stop} ไปหลัง {after}',
+  'chat.edit.movedAfterOnDay': 'ย้าย {stop} ไปหลัง {after} ในวันที่ {day}',
+  'chat.edit.movedFirst': 'ย้าย {stop} ไปไว้แรกสุด',
+  'chat.edit.movedFirstOfDay': 'ย้าย {stop} ไปไว้แรกสุดของวันที่ {day}',
+  'chat.edit.retimed': 'วันที่ {day}: {stop} เปลี่ยนเป็นเวลา {time}',
+  'chat.viewPlan': 'ดูแผน →',
+  'chat.retry': 'ลองอีกครั้ง',
+  'chat.regenerate': 'สร้างใหม่',
+  'chat.placeholder': 'ถามเรื่อง \'ตุ๊กตุ๊ก\' หรือ \'ผัดไทย\'...',
+  'chat.stop': 'หยุดสร้าง',
+  'chat.renameFailed': 'ไม่สามารถเปลี่ยนชื่อแชตนี้ได้',
+  'chat.deleteFailed': 'ไม่สามารถลบแชตนี้ได้',
+
+  'phrasebook.title': 'สมุดวลีภาษาไทย',
+  'phrasebook.subtitle': 'พูดให้เหมือนคนท้องถิ่น แตะวลีเพื่อฟัง แล้วพูดตามสมศรี',
+  'phrasebook.speaker': 'ผู้พูด',
+  'phrasebook.speaker.female': 'ผู้หญิง · ค่ะ',
+  'phrasebook.speaker.male': 'ผู้ชาย · ครับ',
+  'phrasebook.search': 'ค้นหาวลี...',
+  'phrasebook.category.greetings': 'ทักทาย',
+  'phrasebook.category.food': 'สั่งอาหาร',
+  'phrasebook.category.spice': 'ระดับความเผ็ด',
+  'phrasebook.category.directions': 'ถามทาง',
+  'phrasebook.category.bargaining': 'ต่อราคา',
+  'phrasebook.category.emergencies': 'เหตุฉุกเฉิน',
+  'phrasebook.category.favorites': 'รายการโปรด',
+  'phrasebook.play': 'ฟังเสียง',
+  'phrasebook.playFailed': 'เล่นวลีนี้ไม่ได้',
+  'phrasebook.favorite': 'เพิ่มในรายการโปรด',
+  'phrasebook.unfavorite': 'นำออกจากรายการโปรด',
+  'phrasebook.noFavorites': 'แตะ ☆ ที่วลีเพื่อเก็บไว้ที่นี่',
+  'phrasebook.noMatches': 'ไม่มีวลีที่ตรงกับคำค้นหา',
+  'phrasebook.download': 'บันทึกเสียงไว้ใช้ออฟไลน์',
+  'phrasebook.downloading': 'กำลังบันทึกเสียง {done}/{total}',
+  'phrasebook.downloadFailed': 'บันทึกเสียงได้ไม่ครบ ลองอีกครั้งเมื่อออนไลน์',
+  'phrasebook.offlineCount': 'เล่นออฟไลน์ได้ {count} จาก {total} วลี',
+  'phrasebook.offlineReady': 'ทุกวลีเล่นออฟไลน์ได้',
+  'phrasebook.playsOffline': 'เล่นออฟไลน์ได้',
+  'phrasebook.offline': 'คุณออฟไลน์อยู่ วลีที่บันทึกเสียงไว้ยังเล่นได้',
+
+  'live.title': 'ไกด์เสียงสด',
+  'live.subtitle': 'คุยแบบเรียลไทม์กับเพื่อนร่วมทาง AI ของคุณ',
+  'live.stage.prep': 'เตรียม',
+  'live.stage.refine': 'ปรุง',
+  'live.stage.cook': 'ผัด',
+  'live.stage.serve': 'เสิร์ฟ',
+  'live.step1': 'ขั้นที่ 1: เตรียม',
+  'live.intro': 'พร้อมปรุงแผนเที่ยวหรือยัง? บอกสมศรีว่าคุณอยู่ที่ไหนและชอบอะไร',
+  'live.start': 'เริ่มคุย',
+  'live.micSettings': 'ตั้งค่าไมค์',
+  'live.speaking': 'สมศรีกำลังพูด',
+  'live.micPaused': 'ไมค์หยุดชั่วคราว',
+  'live.muted': 'ปิดเสียงอยู่',
+  'live.holdToTalk': 'กดค้างเพื่อพูด',
+  'live.hearing': 'กำลังฟังคุณ...',
+  'live.listening': 'กำลังฟัง...',
+  'live.unmute': 'เปิดเสียง',
+  'live.mute': 'ปิดเสียง',
+  'live.openMic': 'เปิดไมค์ตลอด',
+  'live.pushToTalk': 'กดเพื่อพูด',
+  'live.releaseToSend': 'กำลังฟัง... ปล่อยเพื่อส่ง',
+  'live.holdToTalkKey': 'กดค้างเพื่อพูด · Space',
+  'live.step2': 'ขั้นที่ 2: ปรุง',
+  'live.refineHint': '"เล่าอีกสิ! ยิ่งใส่เครื่องปรุง (รายละเอียด) มาก แผนก็ยิ่งอร่อย"',
+  'live.reconnecting': 'การเชื่อมต่อขาด กำลังเชื่อมต่อสมศรีอีกครั้ง... ไมค์ของคุณหยุดชั่วคราว',
+  'live.disconnected': 'สมศรีหลุดการเชื่อมต่อ คุณยังสร้างแผนจากสิ่งที่เธอได้ยินมาแล้วได้',
+  'live.captionsEmpty': 'คำบรรยายจะแสดงที่นี่ขณะคุยกัน',
+  'live.you': 'คุณ',
+  'live.somsri': 'สมศรี',
+  'live.tripSoFar': 'ทริปของคุณตอนนี้',
+  'live.tripEmpty': 'สมศรีจะจดจุดหมาย วันที่ งบประมาณ และความสนใจของคุณไว้ที่นี่ขณะคุยกัน',
+  'live.destinationUnknown': 'ไปที่ไหนดี?',
+  'live.budget.budget': 'งบประหยัด',
+  'live.budget.mid-range': 'งบปานกลาง',
+  'live.budget.luxury': 'งบหรูหรา',
+  'live.perDay': '{amount}/วัน',
+  'live.update.goingTo': 'ไป {city}',
+  'live.update.addedCity': 'เพิ่ม {city}',
+  'live.update.likes': 'ชอบ {interest}',
+  'live.update.alreadyNoted': 'จดไว้แล้ว: {interest}',
+  'live.update.dates': '{start} ถึง {end}',
+  'live.update.starting': 'เริ่ม {start}',
+  'live.ready': 'พร้อมไหม?',
+  'live.startCooking': 'เริ่มปรุงแผน',
+  'live.cancel': 'ยกเลิกการคุย',
+  'live.reviewTitle': 'ตรวจสิ่งที่สมศรีได้ยิน',
+  'live.reviewHint': 'แก้ชื่อสถานที่ที่ได้ยินผิดก่อนปรุงแผน ไมค์หยุดชั่วคราวอยู่',
+  'live.destination': 'จุดหมาย',
+  'live.transcript': 'บทสนทนา',
+  'live.nothingHeard': 'ยังไม่ได้ยินอะไรเลย',
+  'live.cookIt': 'เรียบร้อย ลงกระทะเลย!',
+  'live.keepTalking': 'คุยกับสมศรีต่อ',
+  'live.step3': 'ขั้นที่ 3: กำลังผัด',
+  'live.cooking': 'สมศรีกำลังผสมวัตถุดิบของคุณ...',
+  'live.step4': 'ขั้นที่ 4: เสิร์ฟแล้ว!',
+  'live.served': 'แผนการเดินทางเฉพาะคุณพร้อมแล้ว',
+  'live.opening': 'กำลังเปิดหน้าวางแผน...',
+
+  'mic.echoCancellation': 'ตัดเสียงสะท้อน',
+  'mic.noiseSuppression': 'ลดเสียงรบกวน',
+  'mic.autoGainControl': 'ปรับระดับเสียงอัตโนมัติ',
+  'mic.microphone': 'ไมโครโฟน',
+  'mic.systemDefault': 'ค่าเริ่มต้นของระบบ',
+  'mic.numbered': 'ไมโครโฟน {number}',
+
+  'settings.title': 'ตั้งค่า',
+  'settings.subtitle': 'บอก Somsri เกี่ยวกับตัวคุณ แล้วเลือกภาษา รวมถึงเสียงและวิธีพูดของเธอ',
+  'settings.language': 'ภาษา',
+  'settings.previewText': 'สวัสดีค่ะ! สมศรีเองค่ะ ไปหาข้าวเหนียวมะม่วงที่อร่อยที่สุดในเมืองกันไหมคะ?',
+  'settings.persona.politeParticles': 'ลงท้าย "ค่ะ"',
+  'settings.persona.politeParticles.hint': 'ลงท้ายประโยคอย่างสุภาพแบบไทย',
+  'settings.persona.foodMetaphors': 'เปรียบเทียบกับอาหาร',
+  'settings.persona.foodMetaphors.hint': '"เพิ่มความเผ็ดให้วันที่สองกันเถอะ!"',
+  'settings.previewError': 'เล่นเสียงตัวอย่างไม่ได้',
+  'settings.previewVoice': 'ฟังเสียงนี้',
+  'settings.voiceStyle.Firm': 'หนักแน่น',
+  'settings.voiceStyle.Bright': 'สดใส',
+  'settings.voiceStyle.Breezy': 'สบาย ๆ',
+  'settings.voiceStyle.Youthful': 'วัยรุ่น',
+  'settings.voiceStyle.Upbeat': 'ร่าเริง',
+  'settings.voiceStyle.Informative': 'ให้ข้อมูล',
+  'settings.voiceStyle.Excitable': 'ตื่นเต้น',
+  'settings.languageHint': 'สมศรีจะวางแผน แชต และพูดเป็นภาษานี้',
+  'settings.voice': 'เสียงของสมศรี',
+  'settings.ttsVoice': 'เสียงอ่านออกเสียง',
+  'settings.liveVoice': 'เสียงไกด์สด',
+  'settings.pace': 'ความเร็วในการพูด',
+  'settings.pace.slow': 'ช้า',
+  'settings.pace.normal': 'ปกติ',
+  'settings.pace.fast': 'เร็ว',
+  'settings.style': 'สไตล์ของสมศรี',
+  'settings.verbosity': 'พูดมากแค่ไหน',
+  'settings.verbosity.brief': 'สั้น ๆ',
+  'settings.verbosity.balanced': 'พอดี',
+  'settings.verbosity.detailed': 'ละเอียด',
+
+  'profile.title': 'เกี่ยวกับคุณ',
+  'profile.hint': 'Somsri จะจำข้อมูลนี้ไว้ในทุกแผน แชท และการสนทนาสด บอกเธอแค่ครั้งเดียวพอ',
+  'profile.diet': 'อาหาร',
+  'profile.diet.vegetarian': 'มังสวิรัติ',
+  'profile.diet.vegan': 'วีแกน',
+  'profile.diet.halal': 'ฮาลาล',
+  'profile.diet.noPork': 'ไม่กินหมู',
+  'profile.diet.noBeef': 'ไม่กินเนื้อวัว',
+  'profile.diet.glutenFree': 'ปลอดกลูเตน',
+  'profile.diet.mildSpice': 'ไม่เผ็ด',
+  'profile.allergies': 'อาการแพ้',
+  'profile.allergiesPlaceholder': 'เช่น ถั่วลิสง อาหารทะเลเปลือกแข็ง',
+  'profile.mobility': 'การเคลื่อนไหว',
+  'profile.mobility.none': 'ไม่มีข้อจำกัด',
+  'profile.mobility.limitedWalking': 'เดินได้ระยะสั้น',
+  'profile.mobility.noStairs': 'ขึ้นบันไดไม่ได้',
+  'profile.mobility.wheelchair': 'วีลแชร์',
+  'profile.pace': 'จังหวะการเที่ยว',
+  'profile.pace.any': 'แบบไหนก็ได้',
+  'profile.pace.relaxed': 'สบาย ๆ',
+  'profile.pace.moderate': 'ปานกลาง',
+  'profile.pace.packed': 'อัดแน่น',
+  'profile.budget': 'งบประมาณ',
+  'profile.budget.any': 'แบบไหนก็ได้',
+  'profile.budget.budget': 'ประหยัด',
+  'profile.budget.mid-range': 'ปานกลาง',
+  'profile.budget.luxury': 'หรูหรา',
+  'profile.companions': 'เดินทางกับ',
+  'profile.companions.kids': 'เด็ก',
+  'profile.companions.elderly': 'ผู้สูงอายุ',
+  'profile.interests': 'ความสนใจทั่วไป',
+};
@@ -0,0 +1,353 @@
+import { Messages } from "./en";
+
+// Simplified Chinese
+export const zh: Messages = {
+  'common.cancel': '取消',
+  'common.day': '第{day}天',
+  'common.undo': '撤销',
+  'common.dismiss': '关闭',
+  'common.days.one': '{count} 天',
+  'common.days.other': '{count} 天',
+  'common.nights.one': '{count} 晚',
+  'common.nights.other': '{count} 晚',
+  'common.moveUp': '上移',
+  'common.moveDown': '下移',
+  'common.stops.one': '{count} 个地点',
+  'common.stops.other': '{count} 个地点',
+
+  'nav.live': '实时导游',
+  'nav.planner': '行程规划',
+  'nav.trips': '我的行程',
+  'nav.chat': '本地聊天',
+  'nav.phrasebook': '常用语手册',
+  'nav.settings': '设置',
+  'nav.poweredBy': '由 Gemini 2.5 提供支持',
+
+  'planner.generateFailed': '行程生成失败，请重试。',
+  'planner.saveFailed': '无法保存此行程。',
+  'planner.title': '打造你的旅程',
+  'planner.subtitle': '用 AI 定制的个性化行程探索泰国。',
+  'planner.interests': '兴趣',
+  'planner.interestsPlaceholder': '例如：辣味美食、古老寺庙',
+  'planner.profileUsed': 'Somsri 也会参考你的旅行者资料 · 编辑',
+  'planner.profileMissing': '在设置中告诉 Somsri 你的饮食、行动和节奏偏好，只需一次',
+  'planner.thinking': 'Somsri 正在思考...',
+  'planner.generate': '生成行程',
+  'planner.cancelTitle': '停止生成',
+  'planner.deepThinking': '启用深度思考模式',
+
+  'tripBuilder.arrive': '抵达',
+  'tripBuilder.depart': '离开',
+  'tripBuilder.route': '路线',
+  'tripBuilder.nights': '晚数',
+  'tripBuilder.nightsUnit.one': '晚',
+  'tripBuilder.nightsUnit.other': '晚',
+  'tripBuilder.removeCity': '移除城市',
+  'tripBuilder.addCity': '添加城市',
+  'tripBuilder.transfers': '城市间交通',
+  'tripBuilder.transfer.any': '最佳选择',
+  'tripBuilder.transfer.flight': '飞机',
+  'tripBuilder.transfer.train': '火车（可坐夜车）',
+  'tripBuilder.transfer.bus': '巴士 / 面包车',
+  'tripBuilder.travelers': '人数',
+  'tripBuilder.budget': '预算上限（全体）',
+  'tripBuilder.noBudget': '不限',
+  'tripBuilder.budgetPerDay': '约每人每天 {amount}',
+
+  'result.speechFailed': '无法生成语音。',
+  'result.audioGuideFailed': '无法录制语音导览。',
+  'result.shareFailed': '无法创建分享链接。',
+  'result.curatedBy': '由 Somsri 精心策划',
+  'result.writing': 'Somsri 正在撰写...',
+  'result.saved': '已保存',
+  'result.save': '保存',
+  'result.shareTitle': '复制可打开此行程的链接',
+  'result.linkCopied': '链接已复制',
+  'result.share': '分享',
+  'result.recording': '正在录制 {done}/{total}...',
+  'result.export': '导出',
+  'result.exportAs.ics': '日历 (.ics)',
+  'result.exportAs.gpx': 'GPS 轨迹 (.gpx)',
+  'result.exportAs.kml': 'Google 地球 (.kml)',
+  'result.exportAs.md': 'Markdown (.md)',
+  'result.exportAs.json': '行程文件 (.json)',
+  'result.exportAs.wav': '语音导览 (.wav)',
+  'result.exportAs.print': '打印',
+  'result.readAloud': '朗读',
+  'result.narrationLoading': '生成中...',
+  'result.narrationPaused': '已暂停',
+  'result.narrationReading': '朗读中',
+  'result.resume': '继续',
+  'result.pause': '暂停',
+  'result.skipDay': '跳到下一天',
+  'result.stopReading': '停止朗读',
+  'result.recommendedStops': '推荐地点',
+  'result.showDayOnMap': '在地图上显示这一天',
+  'result.noPlaces': '行程中提到的地点会显示在这里。',
+  'result.sources': '来源',
+
+  'map.optimizeFailed': '无法优化这条路线。',
+  'map.distance': '距离',
+  'map.duration': '时长',
+  'map.stops': '地点',
+  'map.optimizeTitle': '重新排列这一天的地点以减少路程。已固定的地点和营业时间会被保留。',
+  'map.optimizing': '优化中...',
+  'map.optimize': '优化顺序',
+  'map.optimizeSaved': '节省 {time} 路程时间',
+  'map.optimizeReordered': '已按营业时间和预订重新排序 · 路程 {before} → {after}',
+  'map.optimizeQuickest': '当前顺序已是最快（路程 {time}）。',
+  'map.placeholderLabel': '地图视图',
+  'map.placeholderHint': '探索推荐地点',
+
+  'route.title': '路线时间表',
+  'route.backBy': '{time} 前返回',
+  'route.toCheck': '{count} 项待确认',
+  'route.start': '出发',
+  'route.doneBy': '结束于',
+  'route.overrun': '这一天比 {end} 多出 {time}。可以考虑删掉一个地点或早点出发。',
+  'route.booked': '已预订',
+  'route.warning.lateForBooking': '{arrival} 到达，预订时间为 {planned}',
+  'route.warning.offPlan': '{arrival} 到达，计划时间为 {planned}',
+  'route.warning.notOpenYet': '尚未营业（{opens} 开门）',
+  'route.warning.closedOnArrival': '到达时已关门（{closes} 关门）',
+
+  'budget.title': '费用估算',
+  'budget.estimate': 'Somsri 估算的泰铢金额，知道更准确的可以直接修改。',
+  'budget.unpriced.one': '{count} 项未标价',
+  'budget.unpriced.other': '{count} 项未标价',
+  'budget.edit': '编辑费用',
+  'budget.hide': '收起明细',
+  'budget.perPerson': '每人',
+  'budget.group.one': '{count} 人合计',
+  'budget.group.other': '{count} 人合计',
+  'budget.over': '此行程超出 {cap} 预算 {amount}。可以换掉一项付费活动或较贵的一餐。',
+  'budget.left': '{cap} 预算还剩 {amount}',
+  'budget.missingRates': '没有 {currencies} 的汇率，这些金额未计入。',
+  'budget.category.sights': '景点与活动',
+  'budget.category.food': '餐饮',
+  'budget.category.transport': '交通',
+  'budget.category.lodging': '住宿',
+  'budget.category.shopping': '购物',
+  'budget.category.other': '其他',
+  'budget.wholeTrip': '整个行程',
+  'budget.dayTotal': '每人 {amount}',
+  'budget.perPersonHint': '每人泰铢金额',
+  'budget.removeCost': '删除此费用',
+  'budget.extraLabel': '其他费用，例如电话卡或小费',
+  'budget.addCost': '添加',
+  'budget.homeCurrency': '本国货币',
+  'budget.resetRate': '重置',
+  'budget.rateUpdated': '你于 {date} 设置的汇率，汇率不会自动更新。',
+  'budget.rateDefault': '这是大致汇率，输入今天的汇率会更准确。',
+
+  'place.jumpToStop': '跳转到行程中的这个地点',
+  'place.unpin': '已预订：优化时保持此时间。点击取消固定。',
+  'place.pin': '固定此地点（例如已预订），路线优化时保留其时间',
+
+  'print.departs': '{time} 出发',
+  'print.booked': '已预订',
+  'print.open': '营业时间 {open}–{close}',
+  'print.notes': 'Somsri 的笔记',
+
+  'share.brokenLink': '此行程链接已损坏，或来自更新版本的 ThaiGuide。',
+
+  'trips.title': '我的行程',
+  'trips.subtitle': '重新打开、重命名或整理你保存的行程。',
+  'trips.confirmDelete': '删除“{name}”？此操作无法撤销。',
+  'trips.importError': '该文件不是从 ThaiGuide 导出的行程，或来自更新的版本。',
+  'trips.renameFailed': '无法重命名此行程。',
+  'trips.duplicateFailed': '无法复制此行程。',
+  'trips.deleteFailed': '无法删除此行程。',
+  'trips.search': '按名称、城市或地点搜索...',
+  'trips.importTitle': '打开别人分享给你的行程文件',
+  'trips.import': '导入',
+  'trips.loading': '正在加载你的行程...',
+  'trips.empty': '还没有保存的行程。生成一个行程并点击保存吧！',
+  'trips.noMatches': '没有符合搜索条件的行程。',
+  'trips.saved': '保存于 {date}',
+  'trips.open': '打开',
+  'trips.rename': '重命名',
+  'trips.duplicate': '复制',
+  'trips.delete': '删除',
+
+  'chat.title': '问问 Somsri',
+  'chat.subtitle': '你的私人文化顾问：礼仪、砍价和小众好去处。',
+  'chat.greeting': 'Sawasdee ka！我是 Somsri。泰国的习俗、美食或常用语，尽管问我吧！',
+  'chat.stopped': '在我回答之前已停止。',
+  'chat.noAnswer': '抱歉，我没听明白。',
+  'chat.error': '抱歉，连接出了问题，请重试。',
+  'chat.newChat': '+ 新对话',
+  'chat.emptyList': '你的对话会显示在这里。',
+  'chat.role': 'AI 本地导游',
+  'chat.planUpdated': '行程已更新',
+  'chat.edit.replaced': '第{day}天：将{from}换成了{to}',
+  'chat.edit.added': '第{day}天：添加了{stop}',
+  'chat.edit.removed': '第{day}天：删除了{stop}',
+  'chat.edit.movedAfter': '已将{stop}移到{after}之后',
+  'chat.edit.movedAfterOnDay': '已将{stop}移到第{day}天的{after}之后',
+  'chat.edit.movedFirst': '已将{stop}移到最前面',
+  'chat.edit.movedFirstOfDay': '已将{stop}移到第{day}天的最前面',
+  'chat.edit.retimed': '第{day}天：{stop}改为{time}',
+  'chat.viewPlan': '查看行程 →',
+  'chat.retry': '重试',
+  'chat.regenerate': '重新生成',
+  'chat.placeholder': '问问“嘟嘟车”或“泰式炒河粉”...',
+  'chat.stop': '停止生成',
+  'chat.renameFailed': '无法重命名此对话。',
+  'chat.deleteFailed': '无法删除此对话。',
+
+  'phrasebook.title': '泰语常用语',
+  'phrasebook.subtitle': '像当地人一样说：点一下短语听发音，然后跟着 Somsri 念。',
+  'phrasebook.speaker': '我的身份',
+  'phrasebook.speaker.female': '女性 · ค่ะ',
+  'phrasebook.speaker.male': '男性 · ครับ',
+  'phrasebook.search': '搜索短语（中文、泰文或罗马拼音）...',
+  'phrasebook.category.greetings': '问候',
+  'phrasebook.category.food': '点餐',
+  'phrasebook.category.spice': '辣度',
+  'phrasebook.category.directions': '问路',
+  'phrasebook.category.bargaining': '砍价',
+  'phrasebook.category.emergencies': '紧急情况',
+  'phrasebook.category.favorites': '收藏',
+  'phrasebook.play': '听发音',
+  'phrasebook.playFailed': '无法播放这个短语。',
+  'phrasebook.favorite': '加入收藏',
+  'phrasebook.unfavorite': '取消收藏',
+  'phrasebook.noFavorites': '点短语旁的 ☆ 即可收藏到这里。',
+  'phrasebook.noMatches': '没有符合搜索条件的短语。',
+  'phrasebook.download': '保存音频以便离线使用',
+  'phrasebook.downloading': '正在保存音频 {done}/{total}',
+  'phrasebook.downloadFailed': '未能保存全部音频，请联网后重试。',
+  'phrasebook.offlineCount': '{total} 个短语中有 {count} 个可离线播放',
+  'phrasebook.offlineReady': '所有短语均可离线播放',
+  'phrasebook.playsOffline': '可离线播放',
+  'phrasebook.offline': '你已离线：已保存音频的短语仍可播放。',
+
+  'live.title': '实时语音导游',
+  'live.subtitle': '与你的 AI 旅伴实时对话。',
+  'live.stage.prep': '备料',
+  'live.stage.refine': '调味',
+  'live.stage.cook': '烹饪',
+  'live.stage.serve': '上菜',
+  'live.step1': '第 1 步：备料',
+  'live.intro': '准备好一起烹制行程了吗？告诉 Somsri 你在哪里、喜欢什么。',
+  'live.start': '开始对话',
+  'live.micSettings': '麦克风设置',
+  'live.speaking': 'Somsri 正在说话',
+  'live.micPaused': '麦克风已暂停',
+  'live.muted': '已静音',
+  'live.holdToTalk': '按住说话',
+  'live.hearing': '正在听你说...',
+  'live.listening': '聆听中...',
+  'live.unmute': '取消静音',
+  'live.mute': '静音',
+  'live.openMic': '开放麦克风',
+  'live.pushToTalk': '按键说话',
+  'live.releaseToSend': '聆听中... 松开即发送',
+  'live.holdToTalkKey': '按住说话 · 空格键',
+  'live.step2': '第 2 步：调味',
+  'live.refineHint': '“再多说一点！你加的料（细节）越多，行程就越好。”',
+  'live.reconnecting': '连接中断，正在重新连接 Somsri... 你的麦克风已暂停。',
+  'live.disconnected': '与 Somsri 的连接已断开。你仍可以根据她目前听到的内容烹制行程。',
+  'live.captionsEmpty': '对话时字幕会显示在这里。',
+  'live.you': '你',
+  'live.somsri': 'Somsri',
+  'live.tripSoFar': '目前的行程',
+  'live.tripEmpty': '对话时 Somsri 会在这里记下你的目的地、日期、预算和兴趣。',
+  'live.destinationUnknown': '目的地？',
+  'live.budget.budget': '经济预算',
+  'live.budget.mid-range': '中等预算',
+  'live.budget.luxury': '豪华预算',
+  'live.perDay': '{amount}/天',
+  'live.update.goingTo': '目的地：{city}',
+  'live.update.addedCity': '已添加{city}',
+  'live.update.likes': '喜欢{interest}',
+  'live.update.alreadyNoted': '已记下{interest}',
+  'live.update.dates': '{start} 至 {end}',
+  'live.update.starting': '{start} 出发',
+  'live.ready': '准备好了？',
+  'live.startCooking': '开始烹制行程',
+  'live.cancel': '取消对话',
+  'live.reviewTitle': '确认 Somsri 听到的内容',
+  'live.reviewHint': '开始烹制前，请修正听错的地名。麦克风已暂停。',
+  'live.destination': '目的地',
+  'live.transcript': '对话记录',
+  'live.nothingHeard': '还没有听到任何内容。',
+  'live.cookIt': '没问题，开锅！',
+  'live.keepTalking': '继续和 Somsri 聊',
+  'live.step3': '第 3 步：烹饪中',
+  'live.cooking': 'Somsri 正在翻炒你的食材...',
+  'live.step4': '第 4 步：上菜啦！',
+  'live.served': '你的专属行程已准备好。',
+  'live.opening': '正在打开行程规划...',
+
+  'mic.echoCancellation': '回声消除',
+  'mic.noiseSuppression': '降噪',
+  'mic.autoGainControl': '自动音量',
+  'mic.microphone': '麦克风',
+  'mic.systemDefault': '系统默认',
+  'mic.numbered': '麦克风 {number}',
+
+  'settings.title': '设置',
+  'settings.subtitle': '告诉 Somsri 关于你的信息，并选择语言以及她的声音和说话方式。',
+  'settings.language': '语言',
+  'settings.previewText': 'Sawasdee ka！我是 Somsri。要不要带你去找城里最好吃的芒果糯米饭？',
+  'settings.persona.politeParticles': '礼貌的“ka”',
+  'settings.persona.politeParticles.hint': '用泰式方式结束句子',
+  'settings.persona.foodMetaphors': '美食比喻',
+  'settings.persona.foodMetaphors.hint': '“给第二天加点辣吧！”',
+  'settings.previewError': '无法播放试听语音。',
+  'settings.previewVoice': '试听这个声音',
+  'settings.voiceStyle.Firm': '沉稳',
+  'settings.voiceStyle.Bright': '明亮',
+  'settings.voiceStyle.Breezy': '轻快',
+  'settings.voiceStyle.Youthful': '年轻',
+  'settings.voiceStyle.Upbeat': '欢快',
+  'settings.voiceStyle.Informative': '知性',
+  'settings.voiceStyle.Excitable': '活泼',
+  'settings.languageHint': 'Somsri 会用这种语言规划、聊天和说话，泰国地名保留泰文。',
+  'settings.voice': 'Somsri 的声音',
+  'settings.ttsVoice': '朗读声音',
+  'settings.liveVoice': '实时导游声音',
+  'settings.pace': '语速',
+  'settings.pace.slow': '慢',
+  'settings.pace.normal': '正常',
+  'settings.pace.fast': '快',
+  'settings.style': 'Somsri 的风格',
+  'settings.verbosity': '她说多少',
+  'settings.verbosity.brief': '简短',
+  'settings.verbosity.balanced': '适中',
+  'settings.verbosity.detailed': '详细',
+
+  'profile.title': '关于你',
+  'profile.hint': 'Somsri 在每次规划、聊天和实时对话中都会记住这些，你只需说一次。',
+  'profile.diet': '饮食',
+  'profile.diet.vegetarian': '素食',
+  'profile.diet.vegan': '纯素',
+  'profile.diet.halal': '清真',
+  'profile.diet.noPork': '不吃猪肉',
+  'profile.diet.noBeef': '不吃牛肉',
+  'profile.diet.glutenFree': '无麸质',
+  'profile.diet.mildSpice': '不吃辣',
+  'profile.allergies': '过敏',
+  'profile.allergiesPlaceholder': '例如：花生、贝类',
+  'profile.mobility': '行动能力',
+  'profile.mobility.none': '无限制',
+  'profile.mobility.limitedWalking': '只能短距离步行',
+  'profile.mobility.noStairs': '不能爬楼梯',
+  'profile.mobility.wheelchair': '轮椅',
+  'profile.pace': '旅行节奏',
+  'profile.pace.any': '不限',
+  'profile.pace.relaxed': '悠闲',
+  'profile.pace.moderate': '适中',
+  'profile.pace.packed': '紧凑',
+  'profile.budget': '预算',
+  'profile.budget.any': '不限',
+  'profile.budget.budget': '经济',
+  'profile.budget.mid-range': '中等',
+  'profile.budget.luxury': '豪华',
+  'profile.companions': '同行人',
+  'profile.companions.kids': '儿童',
+  'profile.companions.elderly': '老人',
+  'profile.interests': '常有的兴趣',
+};
@@ -0,0 +1,129 @@
+import { Itinerary, ItineraryDay, ItineraryStop } from "../types";
+import { dayHeadingNumber } from "./markdown";
+
+export const allStops = (itinerary: Itinerary): ItineraryStop[] =>
+  itinerary.days.flatMap(day => day.stops);
+
+// Transfers (flights, trains) aren't places to visit, so they never get a map pin or place card
+export const isVisitableStop = (stop: ItineraryStop): boolean => stop.category !== 'transfer';
+
+// The text we hand to Places / Directions for a stop: the grounded Maps title when we have one
+export const stopPlaceQuery = (stop: ItineraryStop): string => stop.place?.title || stop.name;
+
+/**
+ * The stops a day's route passes through, skipping transfers and consecutive repeats
+ * of the same place. Directions legs line up with consecutive pairs of these.
+ */
+export const routeStops = (stops: ItineraryStop[]): ItineraryStop[] => {
+  const result: ItineraryStop[] = [];
+  for (const stop of stops) {
+    if (!isVisitableStop(stop)) continue;
+    const last = result[result.length - 1];
+    if (!last || stopPlaceQuery(last) !== stopPlaceQuery(stop)) result.push(stop);
+  }
+  return result;
+};
+
+export const routeQueries = (stops: ItineraryStop[]): string[] => routeStops(stops).map(stopPlaceQuery);
+
+const DEFAULT_DWELL_MINUTES = 60;
+
+// How long we plan to stay at a stop when the plan doesn't say
+export const stopDwellMinutes = (stop: ItineraryStop): number => stop.durationMinutes ?? DEFAULT_DWELL_MINUTES;
+
+export const timeToMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Minutes since midnight to "HH:MM"; wraps past midnight
+export const minutesToTime = (minutes: number): string => {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+export const formatCost = (amount: number, currency: string = 'THB'): string =>
+  currency === 'THB' ? `฿${amount.toLocaleString()}` : `${amount.toLocaleString()} ${currency}`;
+
+export const replaceDayStops = (itinerary: Itinerary, dayNumber: number, stops: ItineraryStop[]): Itinerary => ({
+  ...itinerary,
+  days: itinerary.days.map(d => d.day === dayNumber ? { ...d, stops } : d),
+});
+
+// A day's transfer and stops as Markdown list lines, one timed line per stop
+const dayProseLines = (day: ItineraryDay): string[] => {
+  const lines: string[] = [];
+  if (day.transfer) {
+    const { from, to, departureTime, durationMinutes } = day.transfer;
+    lines.push(`- ${departureTime ? `**${departureTime}** ` : ''}**${from} → ${to}**${durationMinutes ? ` (${formatDuration(durationMinutes)})` : ''}`);
+  }
+  for (const stop of day.stops) {
+    const extras = [
+      stop.durationMinutes ? formatDuration(stop.durationMinutes) : null,
+      stop.cost ? formatCost(stop.cost.amount, stop.cost.currency) : null,
+    ].filter(Boolean).join(' · ');
+    lines.push(`- ${stop.time ? `**${stop.time}** ` : ''}**${stop.name}**${stop.description ? `: ${stop.description}` : ''}${extras ? ` _(${extras})_` : ''}`);
+  }
+  return lines;
+};
+
+/**
+ * Markdown write-up of a plan from its structured days, in the shape the model writes
+ * ("Day N" headings, one timed line per stop). Stands in for the model's own prose when
+ * there is none to patch (see rewriteChangedDays).
+ */
+export const itineraryToProse = (itinerary: Itinerary, dayLabel = 'Day {day}'): string => {
+  const out: string[] = [];
+  if (itinerary.summary) out.push(itinerary.summary, '');
+  for (const day of itinerary.days) {
+    const label = dayLabel.replace('{day}', String(day.day));
+    // Fallback titles are just "Day N" again
+    out.push(`## ${dayHeadingNumber(day.title) === null ? `${label}: ${day.title}` : label}`, '');
+    out.push(...dayProseLines(day), '');
+  }
+  return out.join('\n').trim();
+};
+
+const HEADING_LINE = /^(#{1,6})\s+(.*)$/;
+const headingLevel = (line: string): number => line.trim().match(HEADING_LINE)?.[1].length ?? Infinity;
+
+/**
+ * Brings the model's prose in line with an edited plan: the sections of days that differ
+ * between `before` and `after` get their stops rewritten under the model's own heading,
+ * while its intro, tips and untouched days stay as written. Falls back to the whole plan
+ * as prose when a changed day has no single heading to rewrite under.
+ */
+export const rewriteChangedDays = (text: string, before: Itinerary, after: Itinerary, dayLabel = 'Day {day}'): string => {
+  const changed = after.days.filter(day => before.days.find(d => d.day === day.day) !== day);
+  if (!changed.length) return text;
+
+  const lines = text.split('\n');
+  const sections = new Map<number, { start: number; end: number }[]>();
+  lines.forEach((line, i) => {
+    const heading = line.trim().match(HEADING_LINE);
+    const dayNumber = heading ? dayHeadingNumber(heading[2].replace(/[*_`]/g, '').trim()) : null;
+    if (!heading || dayNumber === null) return;
+    // The section runs to the next heading of the same or a higher level
+    const level = heading[1].length;
+    let end = i + 1;
+    while (end < lines.length && headingLevel(lines[end]) > level) end++;
+    sections.set(dayNumber, [...(sections.get(dayNumber) || []), { start: i, end }]);
+  });
+  if (changed.some(day => sections.get(day.day)?.length !== 1)) return itineraryToProse(after, dayLabel);
+
+  // Bottom up, so earlier sections keep their line numbers
+  const rewrites = changed
+    .map(day => ({ day, ...sections.get(day.day)![0] }))
+    .sort((a, b) => b.start - a.start);
+  for (const { day, start, end } of rewrites) {
+    lines.splice(start + 1, end - start - 1, '', ...dayProseLines(day), '');
+  }
+  return lines.join('\n').trim();
+};
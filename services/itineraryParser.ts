@@ -0,0 +1,328 @@
+import { DayTransfer, ExtraCost, GroundingChunk, Itinerary, ItineraryDay, ItineraryStop, OpeningHours, StopCategory, StopCost, StopPlace, TransferMode } from "../types";
+import { DAY_LABEL, sanitizeUrl } from "./markdown";
+
+export const STOP_CATEGORIES: StopCategory[] = ['attraction', 'meal', 'activity', 'shopping', 'transfer', 'hotel'];
+const TRANSFER_MODES: TransferMode[] = ['flight', 'train', 'bus', 'ferry'];
+
+/**
+ * Appended to system instructions so the model ends its answer with a machine-readable plan.
+ */
+export const ITINERARY_FORMAT_INSTRUCTIONS = `
+OUTPUT FORMAT:
+First write the itinerary for the traveler in friendly Markdown.
+Then, at the very end, add ONE fenced code block tagged \`json\` containing the same plan in this exact shape:
+{
+  "title": string,
+  "summary": string,
+  "days": [
+    {
+      "day": number,
+      "title": string,
+      "date": "YYYY-MM-DD",
+      "city": string (where the traveler sleeps that night),
+      "transfer": null, or on travel days { "from": string, "to": string, "mode": "flight" | "train" | "bus" | "ferry", "departureTime": "HH:MM", "durationMinutes": number, "cost": { "amount": number, "currency": "THB", "note": string } },
+      "stops": [
+        {
+          "time": "HH:MM" (24h start time),
+          "name": string (the exact place name as found on Google Maps),
+          "category": "attraction" | "meal" | "activity" | "shopping" | "transfer" | "hotel",
+          "durationMinutes": number,
+          "description": string,
+          "cost": { "amount": number, "currency": "THB", "note": string },
+          "openingHours": { "open": "HH:MM", "close": "HH:MM" } (omit if unknown or always open),
+          "fixed": true only for bookings with a set time (reservations, tours, departures)
+        }
+      ]
+    }
+  ]
+}
+Every cost is an estimate per person (a hotel's share of the room per night), including meals, tickets and fares.
+Do not mention the code block in the prose.
+`;
+
+const FENCE = '```';
+const FENCE_TAG = /^(?:json)?\s*\n/;
+
+// Splits the model answer into the prose shown to the traveler and the trailing JSON plan (if any).
+// Only the last fenced block counts, so code blocks earlier in the prose stay prose.
+export function splitItineraryText(text: string): { prose: string; json: string | null } {
+  const trimmed = text.trimEnd();
+  const noPlan = { prose: text.trim(), json: null };
+  if (!trimmed.endsWith(FENCE)) return noPlan;
+  const close = trimmed.length - FENCE.length;
+  const open = trimmed.lastIndexOf(FENCE, close - FENCE.length);
+  if (open === -1) return noPlan;
+  const block = trimmed.slice(open + FENCE.length, close);
+  const tag = block.match(FENCE_TAG);
+  if (!tag) return noPlan;
+  return { prose: trimmed.slice(0, open).trim(), json: block.slice(tag[0].length).replace(/\n$/, '') };
+}
+
+// Normalizes "9:30 AM", "9.30", "21:00" etc. to 24h "HH:MM"
+export function normalizeTime(raw: string | undefined | null): string | undefined {
+  if (!raw) return undefined;
+  const match = raw.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return undefined;
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const toCategory = (value: unknown): StopCategory => {
+  const v = typeof value === 'string' ? value.toLowerCase() : '';
+  return (STOP_CATEGORIES as string[]).includes(v) ? v as StopCategory : 'attraction';
+};
+
+const toCost = (value: unknown): StopCost | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const amount = toNumber(raw.amount);
+  if (amount === undefined) return undefined;
+  return { amount, currency: toText(raw.currency)?.toUpperCase() || 'THB', note: toText(raw.note) };
+};
+
+const toTransfer = (value: unknown): DayTransfer | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const from = toText(raw.from);
+  const to = toText(raw.to);
+  if (!from || !to) return undefined;
+  const mode = typeof raw.mode === 'string' ? raw.mode.toLowerCase() : '';
+  return {
+    from,
+    to,
+    mode: (TRANSFER_MODES as string[]).includes(mode) ? mode as TransferMode : 'bus',
+    departureTime: normalizeTime(toText(raw.departureTime)),
+    durationMinutes: toNumber(raw.durationMinutes),
+    cost: toCost(raw.cost),
+  };
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  const text = toText(value);
+  return text && /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : undefined;
+};
+
+const toOpeningHours = (value: unknown): OpeningHours | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const open = normalizeTime(toText(raw.open));
+  const close = normalizeTime(toText(raw.close));
+  return open && close ? { open, close } : undefined;
+};
+
+// Not asked of the model, but present in plans that come back from share links
+const toPlace = (value: unknown): StopPlace | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const title = toText(raw.title);
+  const uri = toText(raw.uri);
+  const safeUri = uri && /^https?:/i.test(uri) ? sanitizeUrl(uri) : null;
+  return title ? { title, uri: safeUri || undefined } : undefined;
+};
+
+// Not asked of the model either: lines the traveler added to the cost sheet
+const toExtraCosts = (value: unknown): ExtraCost[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const costs = value
+    .filter((c): c is Record<string, unknown> => !!c && typeof c === 'object' && !!toText((c as Record<string, unknown>).label))
+    .map((c, idx) => ({ id: `x${idx + 1}`, label: toText(c.label)!, amount: toNumber(c.amount) ?? 0, day: toNumber(c.day) }));
+  return costs.length ? costs : undefined;
+};
+
+// Coerces loosely-typed model JSON into an Itinerary, dropping anything unusable
+export function normalizeItinerary(raw: unknown): Itinerary | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  if (!Array.isArray(data.days)) return null;
+
+  const days: ItineraryDay[] = data.days
+    .filter((d): d is Record<string, unknown> => !!d && typeof d === 'object')
+    .map((d, dayIdx) => {
+      const dayNumber = toNumber(d.day) ?? dayIdx + 1;
+      const rawStops = Array.isArray(d.stops) ? d.stops : [];
+      // Ids follow the day's position, so a repeated "day" number can't repeat ids
+      const stops: ItineraryStop[] = rawStops
+        .filter((s): s is Record<string, unknown> => !!s && typeof s === 'object' && !!toText((s as Record<string, unknown>).name))
+        .map((s, stopIdx) => ({
+          id: `d${dayIdx + 1}-s${stopIdx + 1}`,
+          name: toText(s.name)!,
+          category: toCategory(s.category),
+          time: normalizeTime(toText(s.time)),
+          durationMinutes: toNumber(s.durationMinutes),
+          description: toText(s.description),
+          cost: toCost(s.cost),
+          openingHours: toOpeningHours(s.openingHours),
+          fixed: s.fixed === true || undefined,
+          place: toPlace(s.place),
+        }));
+      return {
+        day: dayNumber,
+        title: toText(d.title) || `Day ${dayNumber}`,
+        date: toIsoDate(d.date),
+        city: toText(d.city),
+        transfer: toTransfer(d.transfer),
+        stops,
+      };
+    });
+
+  if (days.every(d => d.stops.length === 0 && !d.transfer)) return null;
+  return { title: toText(data.title) || 'Your Thai Adventure', summary: toText(data.summary), days, extraCosts: toExtraCosts(data.extraCosts) };
+}
+
+// A clock time needs minutes or am/pm so numbered lists ("1. Wat Pho") aren't read as times
+const TIME_TOKEN = String.raw`\d{1,2}(?:[:.]\d{2})?\s*[ap]\.?m\.?|\d{1,2}[:.]\d{2}`;
+const TIME_PREFIX = new RegExp(String.raw`^(?:[-*+]\s+|\d+\.\s+)?\**\s*(${TIME_TOKEN})\s*\**\s*(?:[-–—]\s*(?:${TIME_TOKEN})\s*\**)?\s*[-–—:|]?\s*(.+)$`, 'i');
+const DAY_HEADING = new RegExp(String.raw`^#{0,4}\s*\**\s*${DAY_LABEL}(?![\p{L}\p{N}])\s*[:：\-–—]?\s*(.*?)\**\s*$`, 'iu');
+const COST_PATTERN = /(?:฿\s*([\d,]+(?:\.\d+)?)|([\d,]+(?:\.\d+)?)\s*(?:THB|baht|฿))/i;
+const DURATION_PATTERN = /(\d+(?:\.\d+)?)\s*(hours?|hrs?|minutes?|mins?)\b/i;
+
+const guessCategory = (line: string): StopCategory => {
+  const l = line.toLowerCase();
+  if (/breakfast|lunch|dinner|restaurant|cafe|street food|market food|eat/.test(l)) return 'meal';
+  if (/flight|train|bus|ferry|transfer|taxi|airport/.test(l)) return 'transfer';
+  if (/hotel|check[- ]in|resort|hostel/.test(l)) return 'hotel';
+  if (/market|mall|shopping/.test(l)) return 'shopping';
+  if (/massage|cooking class|tour|cruise|hike|kayak/.test(l)) return 'activity';
+  return 'attraction';
+};
+
+// Best-effort recovery from plain prose: "Day N" headings start days, time-prefixed lines start stops
+export function parseItineraryFromProse(prose: string): Itinerary {
+  const days: ItineraryDay[] = [];
+  let current: ItineraryDay | null = null;
+
+  for (const rawLine of prose.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const dayMatch = line.match(DAY_HEADING);
+    if (dayMatch) {
+      const dayNumber = parseInt(dayMatch[1] ?? dayMatch[2], 10);
+      current = { day: dayNumber, title: dayMatch[3]?.replace(/\*/g, '').trim() || `Day ${dayNumber}`, stops: [] };
+      days.push(current);
+      continue;
+    }
+
+    const stopMatch = line.match(TIME_PREFIX);
+    const time = stopMatch ? normalizeTime(stopMatch[1]) : undefined;
+    if (!stopMatch || !time) continue;
+
+    if (!current) {
+      current = { day: 1, title: 'Day 1', stops: [] };
+      days.push(current);
+    }
+
+    const body = stopMatch[2];
+    const bold = body.match(/\*\*(.+?)\*\*/);
+    const name = (bold ? bold[1] : body.split(/[:(–—]| - /)[0]).replace(/\*/g, '').trim();
+    if (!name) continue;
+
+    const cost = body.match(COST_PATTERN);
+    const duration = body.match(DURATION_PATTERN);
+    const durationValue = duration ? parseFloat(duration[1]) : undefined;
+
+    current.stops.push({
+      id: `d${days.length}-s${current.stops.length + 1}`, // By position: "Day N" headings can repeat
+      name,
+      category: guessCategory(body),
+      time,
+      durationMinutes: durationValue === undefined ? undefined
+        : /^h/i.test(duration![2]) ? Math.round(durationValue * 60) : Math.round(durationValue),
+      description: body.replace(/\*\*/g, '').trim(),
+      cost: cost ? { amount: parseFloat((cost[1] || cost[2]).replace(/,/g, '')), currency: 'THB' } : undefined,
+    });
+  }
+
+  return { title: 'Your Thai Adventure', days };
+}
+
+const tokenize = (value: string): Set<string> =>
+  new Set(value.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(t => t.length > 1));
+
+// Jaccard-style overlap between two place names, 0..1
+const nameSimilarity = (a: string, b: string): number => {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / Math.min(ta.size, tb.size);
+};
+
+// Attaches the best-matching Google Maps grounding place to each stop
+export function linkStopsToPlaces(itinerary: Itinerary, groundingChunks?: GroundingChunk[]): Itinerary {
+  const places = (groundingChunks || [])
+    .filter(c => c.maps?.title)
+    .map(c => ({ title: c.maps!.title, uri: c.maps!.uri }));
+  if (places.length === 0) return itinerary;
+
+  return {
+    ...itinerary,
+    days: itinerary.days.map(day => ({
+      ...day,
+      stops: day.stops.map(stop => {
+        if (stop.place) return stop;
+        let best: { title: string; uri?: string } | null = null;
+        let bestScore = 0.5; // Require at least half the shorter name to match
+        for (const place of places) {
+          const score = nameSimilarity(stop.name, place.title);
+          if (score > bestScore) {
+            best = place;
+            bestScore = score;
+          }
+        }
+        return best ? { ...stop, place: best } : stop;
+      }),
+    })),
+  };
+}
+
+/**
+ * Turns raw model output into display prose plus a structured Itinerary.
+ * Prefers the trailing JSON block; falls back to parsing the prose itself.
+ */
+export function parseItineraryResponse(
+  text: string,
+  groundingChunks?: GroundingChunk[]
+): { prose: string; itinerary: Itinerary } {
+  const { prose, json } = splitItineraryText(text);
+
+  let itinerary: Itinerary | null = null;
+  if (json) {
+    try {
+      itinerary = normalizeItinerary(JSON.parse(json));
+    } catch (e) {
+      console.warn("Itinerary JSON block could not be parsed, falling back to prose", e);
+    }
+  }
+  if (!itinerary) itinerary = parseItineraryFromProse(prose);
+
+  return { prose, itinerary: linkStopsToPlaces(itinerary, groundingChunks) };
+}
+
+/**
+ * Same as parseItineraryResponse, for text that is still streaming in: hides the
+ * half-written JSON block and ignores the last, possibly incomplete, line.
+ */
+export function parsePartialItineraryResponse(
+  text: string,
+  groundingChunks?: GroundingChunk[]
+): { prose: string; itinerary: Itinerary } {
+  const fenceStart = text.indexOf('```');
+  const prose = (fenceStart === -1 ? text : text.slice(0, fenceStart)).trim();
+  const completeLines = prose.slice(0, Math.max(0, prose.lastIndexOf('\n')));
+  return { prose, itinerary: linkStopsToPlaces(parseItineraryFromProse(completeLines), groundingChunks) };
+}
@@ -0,0 +1,227 @@
+import { Itinerary, ItineraryDay, ItineraryStop, StopCategory } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+import { replaceDayStops } from "./itinerary";
+import { STOP_CATEGORIES, normalizeTime } from "./itineraryParser";
+import { ToolDeclaration } from "./providers/types";
+
+// Tools the chat assistant uses to read and edit the plan open in the planner
+
+const STOP_FIELDS = {
+  name: { type: 'string', description: 'Name of the place, as it would be searched on Google Maps.' },
+  category: { type: 'string', enum: STOP_CATEGORIES },
+  time: { type: 'string', description: '24h start time, "HH:MM".' },
+  durationMinutes: { type: 'number' },
+  description: { type: 'string', description: 'One sentence on why to go.' },
+  costTHB: { type: 'number', description: 'Typical cost per person in Thai baht.' },
+};
+
+export const ITINERARY_TOOL_DECLARATIONS: ToolDeclaration[] = [
+  {
+    name: 'get_itinerary',
+    description: "Returns the traveler's current plan: days and their stops, with stop ids, in visiting order. Call it before editing.",
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'replace_stop',
+    description: 'Replaces a stop with a different place, keeping its slot in the day.',
+    parameters: {
+      type: 'object',
+      properties: { stopId: { type: 'string' }, ...STOP_FIELDS },
+      required: ['stopId', 'name'],
+    },
+  },
+  {
+    name: 'add_stop',
+    description: 'Adds a stop to a day. It goes after `afterStopId` if given, else in time order, else at the end.',
+    parameters: {
+      type: 'object',
+      properties: { day: { type: 'number' }, afterStopId: { type: 'string' }, ...STOP_FIELDS },
+      required: ['day', 'name'],
+    },
+  },
+  {
+    name: 'remove_stop',
+    description: 'Removes a stop from the plan.',
+    parameters: { type: 'object', properties: { stopId: { type: 'string' } }, required: ['stopId'] },
+  },
+  {
+    name: 'move_stop',
+    description: 'Moves a stop to another position or day. It goes after `afterStopId`, or first in `day` when no afterStopId is given.',
+    parameters: {
+      type: 'object',
+      properties: { stopId: { type: 'string' }, day: { type: 'number' }, afterStopId: { type: 'string' } },
+      required: ['stopId'],
+    },
+  },
+  {
+    name: 'set_time',
+    description: 'Changes the start time (and optionally the duration) of a stop.',
+    parameters: {
+      type: 'object',
+      properties: { stopId: { type: 'string' }, time: { type: 'string', description: '24h "HH:MM".' }, durationMinutes: { type: 'number' } },
+      required: ['stopId', 'time'],
+    },
+  },
+];
+
+export const ITINERARY_TOOL_INSTRUCTIONS = `
+You can see and edit the traveler's current trip plan with tools.
+When they ask to change the plan (swap, add, drop, move or retime a stop), call get_itinerary first to find the stop ids, then make the change with the matching tool and briefly say what you changed.
+Only edit the plan when they ask for a change. If a tool returns an error, explain it instead of retrying blindly.`;
+
+export interface ItineraryToolResult {
+  itinerary: Itinerary;
+  change: { key: MessageKey; params: MessageParams }; // What changed, for the traveler in their language
+}
+
+// Compact view of the plan for the model
+export const describeItineraryForTool = (itinerary: Itinerary) => ({
+  title: itinerary.title,
+  days: itinerary.days.map(day => ({
+    day: day.day,
+    title: day.title,
+    city: day.city,
+    date: day.date,
+    stops: day.stops.map(stop => ({
+      id: stop.id,
+      name: stop.name,
+      category: stop.category,
+      time: stop.time,
+      durationMinutes: stop.durationMinutes,
+      booked: stop.fixed || undefined,
+    })),
+  })),
+});
+
+const str = (value: unknown): string | undefined => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const num = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const findStop = (itinerary: Itinerary, stopId: unknown): { day: ItineraryDay; index: number; stop: ItineraryStop } => {
+  for (const day of itinerary.days) {
+    const index = day.stops.findIndex(s => s.id === stopId);
+    if (index >= 0) return { day, index, stop: day.stops[index] };
+  }
+  throw new Error(`No stop with id "${stopId}". Call get_itinerary for the current ids.`);
+};
+
+const findDay = (itinerary: Itinerary, dayNumber: unknown): ItineraryDay => {
+  const day = itinerary.days.find(d => d.day === dayNumber);
+  if (!day) throw new Error(`No day ${dayNumber}; the plan has days ${itinerary.days.map(d => d.day).join(', ')}.`);
+  return day;
+};
+
+const toTime = (value: unknown): string | undefined => {
+  if (value === undefined) return undefined;
+  const time = normalizeTime(str(value));
+  if (!time) throw new Error(`"${value}" is not a time; use 24h "HH:MM".`);
+  return time;
+};
+
+const toCategory = (value: unknown): StopCategory | undefined => {
+  if (value === undefined) return undefined;
+  if (!(STOP_CATEGORIES as unknown[]).includes(value)) throw new Error(`Unknown category "${value}".`);
+  return value as StopCategory;
+};
+
+const nextStopId = (itinerary: Itinerary, dayNumber: number): string => {
+  const used = new Set(itinerary.days.flatMap(d => d.stops.map(s => s.id)));
+  let n = 1;
+  while (used.has(`d${dayNumber}-s${n}`)) n++;
+  return `d${dayNumber}-s${n}`;
+};
+
+// Fields shared by replace_stop and add_stop
+const stopFromArgs = (args: Record<string, unknown>) => {
+  const name = str(args.name);
+  if (!name) throw new Error('A stop needs a name.');
+  const costTHB = num(args.costTHB);
+  return {
+    name,
+    category: toCategory(args.category),
+    time: toTime(args.time),
+    durationMinutes: num(args.durationMinutes),
+    description: str(args.description),
+    cost: costTHB !== undefined ? { amount: costTHB, currency: 'THB' } : undefined,
+  };
+};
+
+const insertAfter = (stops: ItineraryStop[], stop: ItineraryStop, afterStopId: string | undefined): ItineraryStop[] => {
+  if (afterStopId === undefined) return [stop, ...stops];
+  const index = stops.findIndex(s => s.id === afterStopId);
+  if (index < 0) throw new Error(`Stop "${afterStopId}" is not on that day.`);
+  return [...stops.slice(0, index + 1), stop, ...stops.slice(index + 1)];
+};
+
+const label = (stop: ItineraryStop) => stop.time ? `${stop.name} (${stop.time})` : stop.name;
+
+/**
+ * Applies one edit tool call to the plan. Throws with a message for the model when
+ * the call doesn't fit the plan (unknown id, bad time...), leaving the plan untouched.
+ */
+export const applyItineraryTool = (itinerary: Itinerary, name: string, args: Record<string, unknown>): ItineraryToolResult => {
+  switch (name) {
+    case 'replace_stop': {
+      const { day, index, stop } = findStop(itinerary, args.stopId);
+      const fields = stopFromArgs(args);
+      // A different place: its grounded Maps match, hours and booking no longer apply
+      const replacement: ItineraryStop = {
+        id: stop.id,
+        name: fields.name,
+        category: fields.category || stop.category,
+        time: fields.time || stop.time,
+        durationMinutes: fields.durationMinutes ?? stop.durationMinutes,
+        description: fields.description,
+        cost: fields.cost,
+      };
+      const stops = day.stops.map((s, i) => i === index ? replacement : s);
+      return { itinerary: replaceDayStops(itinerary, day.day, stops), change: { key: 'chat.edit.replaced', params: { day: day.day, from: stop.name, to: label(replacement) } } };
+    }
+    case 'add_stop': {
+      const day = findDay(itinerary, args.day);
+      const fields = stopFromArgs(args);
+      const stop: ItineraryStop = { id: nextStopId(itinerary, day.day), ...fields, category: fields.category || 'attraction' };
+      const afterStopId = str(args.afterStopId);
+      let stops: ItineraryStop[];
+      if (afterStopId) {
+        stops = insertAfter(day.stops, stop, afterStopId);
+      } else if (stop.time) {
+        const at = day.stops.findIndex(s => s.time && s.time > stop.time!);
+        stops = at < 0 ? [...day.stops, stop] : [...day.stops.slice(0, at), stop, ...day.stops.slice(at)];
+      } else {
+        stops = [...day.stops, stop];
+      }
+      return { itinerary: replaceDayStops(itinerary, day.day, stops), change: { key: 'chat.edit.added', params: { day: day.day, stop: label(stop) } } };
+    }
+    case 'remove_stop': {
+      const { day, stop } = findStop(itinerary, args.stopId);
+      return {
+        itinerary: replaceDayStops(itinerary, day.day, day.stops.filter(s => s.id !== stop.id)),
+        change: { key: 'chat.edit.removed', params: { day: day.day, stop: stop.name } },
+      };
+    }
+    case 'move_stop': {
+      const { day: from, stop } = findStop(itinerary, args.stopId);
+      const target = args.day !== undefined ? findDay(itinerary, args.day) : from;
+      const afterStopId = str(args.afterStopId);
+      if (afterStopId === stop.id) throw new Error('A stop cannot go after itself.');
+      const without = replaceDayStops(itinerary, from.day, from.stops.filter(s => s.id !== stop.id));
+      const targetStops = without.days.find(d => d.day === target.day)!.stops;
+      const moved = replaceDayStops(without, target.day, insertAfter(targetStops, stop, afterStopId));
+      const otherDay = target.day !== from.day;
+      const params: MessageParams = { stop: stop.name, day: target.day };
+      if (!afterStopId) return { itinerary: moved, change: { key: otherDay ? 'chat.edit.movedFirstOfDay' : 'chat.edit.movedFirst', params } };
+      params.after = targetStops.find(s => s.id === afterStopId)!.name;
+      return { itinerary: moved, change: { key: otherDay ? 'chat.edit.movedAfterOnDay' : 'chat.edit.movedAfter', params } };
+    }
+    case 'set_time': {
+      const { day, index, stop } = findStop(itinerary, args.stopId);
+      const time = toTime(args.time);
+      if (!time) throw new Error('set_time needs the new start time as 24h "HH:MM".');
+      const durationMinutes = num(args.durationMinutes) ?? stop.durationMinutes;
+      const stops = day.stops.map((s, i) => i === index ? { ...s, time, durationMinutes } : s);
+      return { itinerary: replaceDayStops(itinerary, day.day, stops), change: { key: 'chat.edit.retimed', params: { day: day.day, stop: stop.name, time } } };
+    }
+    default:
+      throw new Error(`Unknown tool "${name}".`);
+  }
+};
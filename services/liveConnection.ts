@@ -0,0 +1,126 @@
+import { LiveServerMessage } from "@google/genai";
+import { connectLiveSession } from "./geminiService";
+import { LiveConnectParams, LiveSessionHandle } from "./providers/types";
+
+// Keeps a Live conversation going across dropped sockets by resuming the server-side session
+
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+export interface ResilientLiveOptions {
+  // The socket dropped; audio sent until onReconnected is discarded
+  onReconnecting?: (attempt: number) => void;
+  onReconnected?: () => void;
+}
+
+export interface ResilientLiveSession extends LiveSessionHandle {
+  readonly connected: boolean;
+}
+
+/**
+ * Connects like connectLiveSession, but when the socket closes unexpectedly (or the server
+ * announces it will) a new one is opened with the latest resumption handle, backing off
+ * between attempts. Long chats are kept under the context limit with a sliding window.
+ *
+ * The callbacks' onopen fires once, for the first connection, and onclose only when the
+ * session is closed by the caller or reconnecting gives up.
+ */
+export const connectResilientLive = async (params: LiveConnectParams, options: ResilientLiveOptions = {}): Promise<ResilientLiveSession> => {
+  let current: LiveSessionHandle | null = null;
+  let open = false;
+  let closedByUser = false;
+  let resumeHandle: string | undefined;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let generation = 0; // Tells the callbacks of replaced sockets apart from the live one
+
+  const connect = (isFirst: boolean): Promise<LiveSessionHandle> => {
+    const id = ++generation;
+    const isCurrent = () => id === generation && !closedByUser;
+    return connectLiveSession({
+      tools: params.tools,
+      config: {
+        ...params.config,
+        sessionResumption: { handle: resumeHandle },
+        contextWindowCompression: { slidingWindow: {} },
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          open = true;
+          attempt = 0;
+          if (isFirst) params.callbacks.onopen?.();
+          else options.onReconnected?.();
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          const update = message.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) resumeHandle = update.newHandle;
+          params.callbacks.onmessage(message);
+          // The server is about to drop this socket: move to a new one while we still can
+          if (message.goAway) reconnect();
+        },
+        onerror: (event) => {
+          if (isCurrent()) console.warn("Live socket error", event);
+        },
+        onclose: (event) => {
+          if (!isCurrent()) return;
+          open = false;
+          current = null;
+          scheduleReconnect(event);
+        },
+      },
+    });
+  };
+
+  const scheduleReconnect = (event?: CloseEvent) => {
+    if (closedByUser || retryTimer) return;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      params.callbacks.onclose?.(event || new CloseEvent('close'));
+      return;
+    }
+    attempt++;
+    options.onReconnecting?.(attempt);
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect(false).then(session => {
+        if (closedByUser) session.close();
+        else current = session;
+      }).catch(err => {
+        console.warn("Live reconnect failed", err);
+        scheduleReconnect();
+      });
+    }, delay);
+  };
+
+  // Replaces the socket right away, e.g. on goAway; late callbacks from the old one are ignored
+  const reconnect = () => {
+    const previous = current;
+    open = false;
+    current = null;
+    generation++;
+    previous?.close();
+    scheduleReconnect();
+  };
+
+  current = await connect(true);
+
+  return {
+    get connected() {
+      return open;
+    },
+    sendRealtimeInput: (input) => {
+      if (open && current) current.sendRealtimeInput(input);
+    },
+    close: () => {
+      if (closedByUser) return;
+      closedByUser = true;
+      open = false;
+      if (retryTimer) clearTimeout(retryTimer);
+      current?.close();
+      params.callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+};
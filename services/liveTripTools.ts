@@ -0,0 +1,152 @@
+import { BudgetLevel, LiveTripDraft, TripRequest } from "../types";
+import { MessageKey, MessageParams } from "./i18n";
+import { ToolDeclaration } from "./providers/types";
+import { createDefaultTripRequest, daysBetween, planTripDays, setTripEndDate } from "./tripPlanner";
+import { formatCost } from "./itinerary";
+
+// Tools Somsri uses in a Live voice chat to fill in the trip request as the traveler talks
+
+const BUDGET_LEVELS: BudgetLevel[] = ['budget', 'mid-range', 'luxury'];
+
+// For prompt text; the UI shows the live.budget.* messages
+export const BUDGET_LABELS: Record<BudgetLevel, string> = {
+  budget: 'Low budget',
+  'mid-range': 'Mid-range budget',
+  luxury: 'Luxury budget',
+};
+
+export const LIVE_TRIP_TOOL_DECLARATIONS: ToolDeclaration[] = [
+  {
+    name: 'set_destination',
+    description: 'Sets where the traveler is going. Use append for each further city of a multi-city trip.',
+    parameters: {
+      type: 'object',
+      properties: {
+        city: { type: 'string', description: 'City or island in Thailand, e.g. "Chiang Mai".' },
+        nights: { type: 'number', description: 'Nights to stay there, if the traveler said.' },
+        append: { type: 'boolean', description: 'Add this city after the ones already set instead of replacing them.' },
+      },
+      required: ['city'],
+    },
+  },
+  {
+    name: 'add_interest',
+    description: 'Records something the traveler wants from the trip, e.g. "street food" or "hiking".',
+    parameters: { type: 'object', properties: { interest: { type: 'string' } }, required: ['interest'] },
+  },
+  {
+    name: 'set_budget',
+    description: "Records the traveler's budget.",
+    parameters: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: BUDGET_LEVELS },
+        dailyTHB: { type: 'number', description: 'Spending per person per day in Thai baht, if the traveler named an amount.' },
+      },
+      required: ['level'],
+    },
+  },
+  {
+    name: 'set_dates',
+    description: 'Records when the trip starts and, if known, ends.',
+    parameters: {
+      type: 'object',
+      properties: {
+        startDate: { type: 'string', description: 'ISO date, "YYYY-MM-DD".' },
+        endDate: { type: 'string', description: 'ISO date of the last day, "YYYY-MM-DD".' },
+      },
+      required: ['startDate'],
+    },
+  },
+  {
+    name: 'finish_plan',
+    description: 'Starts creating the itinerary. Call it when the traveler says they are ready, after confirming the destination.',
+    parameters: { type: 'object', properties: {} },
+  },
+];
+
+export const liveTripToolInstructions = (today: string) => `
+Today is ${today}.
+As soon as the traveler tells you something about their trip, record it with the tools: set_destination, add_interest, set_budget and set_dates. Turn relative dates like "next Friday" into ISO dates. Don't read the recorded details back unless asked.
+When they say they are ready for their plan, call finish_plan and tell them you are cooking it up.`;
+
+export const createLiveTripDraft = (): LiveTripDraft => ({ legs: [], interests: [] });
+
+export interface LiveTripToolResult {
+  draft: LiveTripDraft;
+  change: { key: MessageKey; params?: MessageParams }; // What Somsri noted, for the traveler in their language
+}
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const titleCase = (text: string) => text.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Applies one Live tool call to the draft. Throws with a message for the model when
+ * the arguments don't make sense. finish_plan is handled by the caller.
+ */
+export const applyLiveTripTool = (draft: LiveTripDraft, name: string, args: Record<string, unknown>): LiveTripToolResult => {
+  switch (name) {
+    case 'set_destination': {
+      const city = typeof args.city === 'string' ? titleCase(args.city.trim()) : '';
+      if (!city) throw new Error('A destination needs a city.');
+      const nights = typeof args.nights === 'number' && Number.isInteger(args.nights) && args.nights >= 0 ? args.nights : undefined;
+      const leg = { city, nights };
+      const legs = args.append ? [...draft.legs.filter(l => l.city !== city), leg] : [leg];
+      return { draft: { ...draft, legs }, change: { key: args.append ? 'live.update.addedCity' : 'live.update.goingTo', params: { city } } };
+    }
+    case 'add_interest': {
+      const interest = typeof args.interest === 'string' ? args.interest.trim().toLowerCase() : '';
+      if (!interest) throw new Error('An interest needs some text.');
+      if (draft.interests.includes(interest)) return { draft, change: { key: 'live.update.alreadyNoted', params: { interest } } };
+      return { draft: { ...draft, interests: [...draft.interests, interest] }, change: { key: 'live.update.likes', params: { interest } } };
+    }
+    case 'set_budget': {
+      const level = BUDGET_LEVELS.find(l => l === args.level);
+      if (!level) throw new Error(`Budget level must be one of ${BUDGET_LEVELS.join(', ')}.`);
+      const dailyTHB = typeof args.dailyTHB === 'number' && args.dailyTHB > 0 ? Math.round(args.dailyTHB) : undefined;
+      return { draft: { ...draft, budget: { level, dailyTHB } }, change: { key: `live.budget.${level}` } };
+    }
+    case 'set_dates': {
+      if (!isIsoDate(args.startDate)) throw new Error('startDate must be an ISO date, "YYYY-MM-DD".');
+      const endDate = isIsoDate(args.endDate) ? args.endDate : undefined;
+      if ((args.endDate !== undefined && !endDate) || (endDate && daysBetween(args.startDate, endDate) < 0)) {
+        throw new Error('endDate must be an ISO date on or after startDate.');
+      }
+      return {
+        draft: { ...draft, startDate: args.startDate, endDate },
+        change: endDate
+          ? { key: 'live.update.dates', params: { start: args.startDate, end: endDate } }
+          : { key: 'live.update.starting', params: { start: args.startDate } },
+      };
+    }
+    default:
+      throw new Error(`Unknown tool "${name}".`);
+  }
+};
+
+/**
+ * The trip builder request for a draft, or undefined while there is no destination.
+ * Cities without a night count get one night each (none for a lone day trip), and an
+ * end date stretches or shortens the last stay.
+ */
+export const liveDraftToTripRequest = (draft: LiveTripDraft): TripRequest | undefined => {
+  if (!draft.legs.length) return undefined;
+  const defaults = createDefaultTripRequest();
+  const request: TripRequest = {
+    ...defaults,
+    startDate: draft.startDate || defaults.startDate,
+    legs: draft.legs.map(leg => ({ city: leg.city, nights: leg.nights ?? (draft.legs.length > 1 ? 1 : 0) })),
+  };
+  const dated = draft.endDate ? setTripEndDate(request, draft.endDate) : request;
+  // The daily budget Somsri heard is per person, so it becomes a cap for one traveler
+  const dailyTHB = draft.budget?.dailyTHB;
+  return dailyTHB ? { ...dated, budgetTHB: dailyTHB * planTripDays(dated).length } : dated;
+};
+
+// The planner's interests field, with the budget folded in
+export const liveDraftInterests = (draft: LiveTripDraft): string => {
+  const budget = draft.budget && `${BUDGET_LABELS[draft.budget.level].toLowerCase()}${draft.budget.dailyTHB ? ` (about ${formatCost(draft.budget.dailyTHB, 'THB')} per person per day)` : ''}`;
+  return [...draft.interests, budget].filter(Boolean).join(', ');
+};
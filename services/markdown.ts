@@ -0,0 +1,303 @@
+// Small Markdown parser for model output. It produces a tree that components render as
+// React elements, so raw HTML in the source is never interpreted, only shown as text.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'break' };
+
+export interface MdListItem {
+  children: MdInline[];
+  text: string;
+  time?: string; // Leading time block, e.g. "09:00 – 11:00"
+  sublist?: MdList;
+}
+
+export interface MdList {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: MdListItem[];
+}
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: number; children: MdInline[]; text: string }
+  | { type: 'paragraph'; children: MdInline[]; text: string; time?: string }
+  | MdList
+  | { type: 'table'; header: MdInline[][]; align: MdAlign[]; rows: MdInline[][][] }
+  | { type: 'blockquote'; children: MdBlock[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'hr' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Returns the URL if it is safe to put in an href (web, mail, phone or in-page anchor), else null.
+ */
+export function sanitizeUrl(raw: string): string | null {
+  const url = raw.trim();
+  if (url.startsWith('#')) return url;
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// "Day 3" in each language Somsri writes plans in: Day/Tag 3, 第3天, 3일차, วันที่ 3
+export const DAY_LABEL = String.raw`(?:(?:day|tag|วันที่|第)\s*(\d+)\s*天?|(\d+)\s*일\s*차)`;
+const DAY_HEADING = new RegExp(String.raw`^${DAY_LABEL}(?![\p{L}\p{N}])`, 'iu');
+
+// The day number a heading starts with, if it opens a day of the plan
+export const dayHeadingNumber = (text: string): number | null => {
+  const match = text.match(DAY_HEADING);
+  return match ? Number(match[1] ?? match[2]) : null;
+};
+
+export const slugify = (text: string): string =>
+  text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+export const inlineText = (nodes: MdInline[]): string => nodes.map(n =>
+  n.type === 'text' || n.type === 'code' ? n.text
+    : n.type === 'break' ? ' '
+    : inlineText(n.children)
+).join('');
+
+// --- Inline ---
+
+const INLINE_RULES: { pattern: RegExp; build: (m: RegExpExecArray) => MdInline }[] = [
+  { pattern: /`([^`]+)`/, build: m => ({ type: 'code', text: m[1] }) },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/,
+    build: m => {
+      const href = sanitizeUrl(m[2]);
+      const children = parseInline(m[1]);
+      // Unsafe links (javascript:, data:...) keep their text but lose the link
+      return href ? { type: 'link', href, children } : { type: 'em', children };
+    },
+  },
+  { pattern: /\*\*(.+?)\*\*|__(.+?)__/, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(.+?)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /\*(?!\s)(.+?)\*|(?<![\p{L}\p{N}])_(?!\s)(.+?)_(?![\p{L}\p{N}])/u, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+  {
+    pattern: /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/,
+    build: m => ({ type: 'link', href: sanitizeUrl(m[0]) || '#', children: [{ type: 'text', text: m[0] }] }),
+  },
+];
+
+export function parseInline(text: string): MdInline[] {
+  const nodes: MdInline[] = [];
+  let rest = text;
+  while (rest) {
+    // Take whichever rule matches earliest; ties go to the rule listed first
+    let best: { index: number; match: RegExpExecArray; rule: typeof INLINE_RULES[number] } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      if (match && (!best || match.index < best.index)) best = { index: match.index, match, rule };
+    }
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (best.index > 0) nodes.push({ type: 'text', text: rest.slice(0, best.index) });
+    nodes.push(best.rule.build(best.match));
+    rest = rest.slice(best.index + best.match[0].length);
+  }
+  return nodes;
+}
+
+const LEADING_TIME = /^\s*(\d{1,2}[:.]\d{2}\s*(?:[AaPp]\.?[Mm]\.?)?(?:\s*[-–—]\s*\d{1,2}[:.]\d{2}\s*(?:[AaPp]\.?[Mm]\.?)?)?)\s*[-–—:|]?\s*/;
+
+/**
+ * Pulls a leading "09:00 –" style time off the first text node, looking inside
+ * bold/italic wrappers, so it can be shown as a time block.
+ */
+function extractLeadingTime(nodes: MdInline[]): { time?: string; nodes: MdInline[] } {
+  const [first, ...rest] = nodes;
+  if (!first) return { nodes };
+  if (first.type === 'text') {
+    const match = first.text.match(LEADING_TIME);
+    if (!match) return { nodes };
+    const remaining = first.text.slice(match[0].length);
+    return { time: match[1].trim(), nodes: remaining ? [{ type: 'text', text: remaining }, ...rest] : stripLeadingPunctuation(rest) };
+  }
+  if (first.type === 'strong' || first.type === 'em') {
+    const inner = extractLeadingTime(first.children);
+    if (!inner.time) return { nodes };
+    const wrapper = inner.nodes.length ? [{ ...first, children: inner.nodes }] : [];
+    return { time: inner.time, nodes: wrapper.length ? [...wrapper, ...rest] : stripLeadingPunctuation(rest) };
+  }
+  return { nodes };
+}
+
+// "**09:00**: Wat Pho" leaves ": Wat Pho" behind once the bold time is removed
+function stripLeadingPunctuation(nodes: MdInline[]): MdInline[] {
+  const [first, ...rest] = nodes;
+  if (first?.type !== 'text') return nodes;
+  const text = first.text.replace(/^\s*[-–—:|]?\s*/, '');
+  return text ? [{ type: 'text', text }, ...rest] : rest;
+}
+
+// Lines of one block keep their line breaks, as chat replies rely on them
+const parseTimedInline = (lines: string[]) => {
+  const inline = lines.flatMap((line, idx): MdInline[] => idx === 0 ? parseInline(line) : [{ type: 'break' }, ...parseInline(line)]);
+  const { time, nodes } = extractLeadingTime(inline);
+  return { time, children: nodes, text: inlineText(nodes) };
+};
+
+// --- Blocks ---
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^\s*>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line)
+  || (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+function parseList(lines: string[], start: number): { list: MdList; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const list: MdList = { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+  let raw: string[] | null = null;
+  let i = start;
+
+  const flush = () => {
+    if (raw !== null) list.items.push(parseTimedInline(raw));
+    raw = null;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      // A blank line ends the list unless the next line continues it
+      const next = lines[i + 1];
+      const nextItem = next?.match(LIST_ITEM);
+      if (nextItem && indentOf(nextItem[1]) >= baseIndent) { i++; continue; }
+      break;
+    }
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = indentOf(item[1]);
+      if (indent < baseIndent) break;
+      if (indent > baseIndent) {
+        flush();
+        const { list: sublist, next } = parseList(lines, i);
+        const last = list.items[list.items.length - 1];
+        if (last) last.sublist = sublist;
+        else list.items.push({ children: [], text: '', sublist });
+        i = next;
+        continue;
+      }
+      if (/\d/.test(item[2]) !== ordered) break;
+      flush();
+      raw = [item[3]];
+      i++;
+      continue;
+    }
+    if (indentOf(line) > baseIndent && raw !== null) {
+      raw.push(line.trim()); // Continuation of the current item
+      i++;
+      continue;
+    }
+    break;
+  }
+  flush();
+  return { list, next: i };
+}
+
+/**
+ * Parses Markdown into blocks: headings, paragraphs, (nested) lists, GFM tables,
+ * blockquotes, fenced code and rules. Lines that start with a time become their own block.
+ */
+export function parseMarkdown(source: string): MdBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ type: 'code', lang: fence[1], text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const children = parseInline(heading[2]);
+      blocks.push({ type: 'heading', level: heading[1].length, children, text: inlineText(children) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && lines[i + 1] !== undefined && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const align: MdAlign[] = splitTableRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+      );
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]).slice(0, header.length).map(parseInline));
+        i++;
+      }
+      blocks.push({ type: 'table', header: header.map(parseInline), align: align.slice(0, header.length), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) body.push(lines[i++].match(BLOCKQUOTE)![1]);
+      blocks.push({ type: 'blockquote', children: parseMarkdown(body.join('\n')) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { list, next } = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line, another block, or a line starting with a time
+    const body: string[] = [line.trim()];
+    i++;
+    while (
+      i < lines.length && lines[i].trim()
+      && !startsBlock(lines[i], lines[i + 1])
+      && !LEADING_TIME.test(lines[i].replace(/^\W+/, ''))
+    ) {
+      body.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', ...parseTimedInline(body) });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,169 @@
+import { createAudioContext } from "./audioUtils";
+
+// Microphone capture for the Live API: an AudioWorklet that resamples whatever rate the
+// device runs at to 16kHz PCM16, measures the level and skips silence.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const FRAME_MS = 50;
+
+// Runs on the audio thread. Plain JS, loaded from a Blob so no extra file needs serving.
+const WORKLET_SOURCE = `
+const TARGET_RATE = ${CAPTURE_SAMPLE_RATE};
+const FRAME_SAMPLES = ${(CAPTURE_SAMPLE_RATE * FRAME_MS) / 1000};
+const MIN_SPEECH_DB = -50;     // Quieter than this is never speech
+const SPEECH_ABOVE_NOISE_DB = 10;
+const HANGOVER_FRAMES = 12;    // Keep sending this long after speech, so word endings aren't cut
+const PREROLL_FRAMES = 4;      // ...and this much from before it started
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.vad = options.processorOptions.vad;
+    this.ratio = sampleRate / TARGET_RATE;
+    this.pending = [];
+    this.pos = 0;
+    this.frame = new Float32Array(FRAME_SAMPLES);
+    this.frameLength = 0;
+    this.noiseDb = -60;
+    this.silentFrames = HANGOVER_FRAMES + 1;
+    this.preroll = [];
+  }
+
+  // Box filter when downsampling (a cheap anti-alias), linear interpolation when upsampling
+  resample(input) {
+    for (let i = 0; i < input.length; i++) this.pending.push(input[i]);
+    const half = this.ratio / 2;
+    while (this.pos + Math.max(half, 1) < this.pending.length) {
+      let value;
+      if (this.ratio > 1) {
+        const from = Math.max(0, Math.floor(this.pos - half));
+        const to = Math.floor(this.pos + half);
+        let sum = 0;
+        for (let j = from; j <= to; j++) sum += this.pending[j];
+        value = sum / (to - from + 1);
+      } else {
+        const j = Math.floor(this.pos);
+        const t = this.pos - j;
+        value = this.pending[j] * (1 - t) + this.pending[j + 1] * t;
+      }
+      this.pushSample(value);
+      this.pos += this.ratio;
+    }
+    const consumed = Math.max(0, Math.floor(this.pos - half) - 1);
+    if (consumed > 0) {
+      this.pending.splice(0, consumed);
+      this.pos -= consumed;
+    }
+  }
+
+  pushSample(value) {
+    this.frame[this.frameLength++] = value;
+    if (this.frameLength === FRAME_SAMPLES) {
+      this.flushFrame();
+      this.frameLength = 0;
+    }
+  }
+
+  flushFrame() {
+    let sum = 0;
+    const pcm = new Int16Array(FRAME_SAMPLES);
+    for (let i = 0; i < FRAME_SAMPLES; i++) {
+      const s = Math.max(-1, Math.min(1, this.frame[i]));
+      sum += s * s;
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    const db = 10 * Math.log10(sum / FRAME_SAMPLES + 1e-10);
+    const voiced = db > Math.max(MIN_SPEECH_DB, this.noiseDb + SPEECH_ABOVE_NOISE_DB);
+    // The noise floor follows quiet stretches down quickly and creeps up slowly
+    if (!voiced) this.noiseDb = db < this.noiseDb ? db : this.noiseDb * 0.95 + db * 0.05;
+
+    const wasSpeaking = this.silentFrames <= HANGOVER_FRAMES;
+    this.silentFrames = voiced ? 0 : this.silentFrames + 1;
+    const speaking = this.silentFrames <= HANGOVER_FRAMES;
+
+    this.port.postMessage({ type: 'level', db, speaking });
+    if (!this.vad || speaking) {
+      for (const early of this.preroll) this.port.postMessage({ type: 'audio', pcm: early }, [early]);
+      this.preroll = [];
+      this.port.postMessage({ type: 'audio', pcm: pcm.buffer }, [pcm.buffer]);
+    } else {
+      this.preroll.push(pcm.buffer);
+      if (this.preroll.length > PREROLL_FRAMES) this.preroll.shift();
+    }
+    if (this.vad && wasSpeaking && !speaking) this.port.postMessage({ type: 'speechEnd' });
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.resample(channel);
+    return true;
+  }
+}
+
+registerProcessor('pcm16-capture', Pcm16CaptureProcessor);
+`;
+
+export interface MicCaptureOptions {
+  // 16kHz mono PCM16 (little-endian), in 50ms frames
+  onAudio: (pcm16: Uint8Array) => void;
+  // 0-1 loudness for a meter, and whether the voice detector thinks someone is talking
+  onLevel?: (level: number, speaking: boolean) => void;
+  // Called when speech stops, so the stream can be marked as paused
+  onSpeechEnd?: () => void;
+  // Skip silence (default). Without it every frame is sent.
+  vad?: boolean;
+}
+
+export interface MicCapture {
+  readonly deviceSampleRate: number;
+  stop: () => Promise<void>;
+}
+
+// Level meter range: -60 dBFS (silence) to 0 dBFS (clipping)
+const dbToLevel = (db: number) => Math.max(0, Math.min(1, (db + 60) / 60));
+
+/**
+ * Starts capturing `stream` at the device's own rate and hands out 16kHz PCM16 frames.
+ * Stopping disconnects the graph and closes its AudioContext; the stream's tracks are the caller's.
+ */
+export const startMicCapture = async (stream: MediaStream, options: MicCaptureOptions): Promise<MicCapture> => {
+  const context = createAudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (err) {
+    await context.close();
+    throw err;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'pcm16-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { vad: options.vad ?? true },
+  });
+  node.port.onmessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (message.type === 'audio') options.onAudio(new Uint8Array(message.pcm));
+    else if (message.type === 'level') options.onLevel?.(dbToLevel(message.db), message.speaking);
+    else if (message.type === 'speechEnd') options.onSpeechEnd?.();
+  };
+  source.connect(node);
+  // The node writes silence; being connected keeps it processing in every browser
+  node.connect(context.destination);
+  if (context.state === 'suspended') await context.resume();
+
+  return {
+    deviceSampleRate: context.sampleRate,
+    stop: async () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      if (context.state !== 'closed') await context.close();
+    },
+  };
+};
@@ -0,0 +1,77 @@
+// The traveler's microphone choices for Live sessions, kept in localStorage so they
+// are ready synchronously before getUserMedia is called
+
+const STORAGE_KEY = 'thai_guide_mic_settings';
+
+export type MicMode = 'open' | 'push-to-talk';
+
+export interface MicSettings {
+  deviceId?: string; // Unset: the browser's default microphone
+  mode: MicMode;
+  muted: boolean;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  mode: 'open',
+  muted: false,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export const loadMicSettings = (): MicSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_MIC_SETTINGS;
+    const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+    return {
+      deviceId: typeof raw.deviceId === 'string' && raw.deviceId ? raw.deviceId : undefined,
+      mode: raw.mode === 'push-to-talk' ? 'push-to-talk' : 'open',
+      muted: flag(raw.muted, DEFAULT_MIC_SETTINGS.muted),
+      echoCancellation: flag(raw.echoCancellation, DEFAULT_MIC_SETTINGS.echoCancellation),
+      noiseSuppression: flag(raw.noiseSuppression, DEFAULT_MIC_SETTINGS.noiseSuppression),
+      autoGainControl: flag(raw.autoGainControl, DEFAULT_MIC_SETTINGS.autoGainControl),
+    };
+  } catch {
+    return DEFAULT_MIC_SETTINGS;
+  }
+};
+
+export const saveMicSettings = (settings: MicSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save mic settings", e);
+  }
+};
+
+const micConstraints = (settings: MicSettings, withDevice: boolean): MediaTrackConstraints => ({
+  deviceId: withDevice && settings.deviceId ? { exact: settings.deviceId } : undefined,
+  channelCount: 1,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+/**
+ * Opens the chosen microphone, falling back to the default one when the saved device
+ * is gone (unplugged headset, another browser profile...).
+ */
+export const openMicrophone = async (settings: MicSettings): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: micConstraints(settings, true) });
+  } catch (err: any) {
+    if (!settings.deviceId || (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError')) throw err;
+    return navigator.mediaDevices.getUserMedia({ audio: micConstraints(settings, false) });
+  }
+};
+
+// Labels are only filled in once the page has had mic permission
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default');
+};
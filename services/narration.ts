@@ -0,0 +1,269 @@
+import { createAudioContext } from "./audioUtils";
+import { SpeechOptions, TTS_SAMPLE_RATE, generateSpeech, synthesizeSpeechPCM } from "./geminiService";
+import { MdBlock, MdList, dayHeadingNumber, parseMarkdown } from "./markdown";
+import { encodeWav, pcm16Silence } from "./wav";
+
+// Reads a whole itinerary aloud: the markdown is cut into paragraph-sized chunks that are
+// synthesized a little ahead of playback and queued back to back on one AudioContext,
+// or joined into a WAV file to take along.
+
+const MAX_CHUNK_CHARS = 400;
+const LOOKAHEAD_CHUNKS = 2;       // Synthesized beyond the one being queued
+const SCHEDULE_MARGIN_S = 0.05;   // Lead time for a chunk that starts "now"
+
+export interface NarrationChunk {
+  text: string;
+  block: number;  // Index of the top-level markdown block it was read from
+  item?: number;  // ...and of the list item, for lists
+  section: number;
+}
+
+// Long paragraphs are split between sentences so no request gets too big
+const splitSentences = (text: string): string[] => {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of text.split(/(?<=[.!?…])\s+/)) {
+    if (current && current.length + sentence.length + 1 > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const spoken = (text: string, time?: string) => (time ? `${time}. ${text}` : text).replace(/\s+/g, ' ').trim();
+
+const listItemTexts = (list: MdList): string[][] => list.items.map(item => [
+  spoken(item.text, item.time),
+  ...(item.sublist ? listItemTexts(item.sublist).flat() : []),
+]);
+
+const blockText = (block: MdBlock): string => {
+  switch (block.type) {
+    case 'heading': return block.text;
+    case 'paragraph': return spoken(block.text, block.time);
+    case 'list': return listItemTexts(block).flat().join('. ');
+    case 'blockquote': return block.children.map(blockText).filter(Boolean).join(' ');
+    // Tables, code and rules don't read well
+    default: return '';
+  }
+};
+
+/**
+ * Cuts markdown into narration chunks. Sections start at "Day N" headings, or at every
+ * heading when the text has no days, so the player can skip a whole day at a time.
+ */
+export const buildNarration = (markdown: string): NarrationChunk[] => {
+  const blocks = parseMarkdown(markdown);
+  const hasDays = blocks.some(block => block.type === 'heading' && dayHeadingNumber(block.text) !== null);
+  const chunks: NarrationChunk[] = [];
+  let section = 0;
+  const push = (text: string, block: number, item?: number) => {
+    for (const part of splitSentences(text.trim())) {
+      if (part) chunks.push({ text: part, block, item, section });
+    }
+  };
+  blocks.forEach((block, index) => {
+    if (block.type === 'heading' && (!hasDays || dayHeadingNumber(block.text) !== null) && chunks.length > 0) section++;
+    if (block.type === 'list') {
+      listItemTexts(block).forEach((texts, item) => texts.forEach(text => push(text, index, item)));
+    } else {
+      push(blockText(block), index);
+    }
+  });
+  return chunks;
+};
+
+export type NarrationState = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface NarrationCallbacks {
+  onStateChange: (state: NarrationState) => void;
+  // The chunk being spoken, or null once narration stops
+  onChunk: (chunk: NarrationChunk | null) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface NarrationPlayer {
+  pause: () => void;
+  resume: () => void;
+  skipSection: () => void;
+  stop: () => void;
+}
+
+/**
+ * Starts reading `chunks` aloud. Call it from a click handler so the AudioContext may start.
+ * Each chunk is scheduled to begin exactly when the previous one ends; if synthesis falls
+ * behind the player waits in the 'loading' state and carries on when the audio arrives.
+ */
+export const startNarration = (chunks: NarrationChunk[], callbacks: NarrationCallbacks, speech: SpeechOptions = {}): NarrationPlayer => {
+  const ctx = createAudioContext();
+  const buffers = new Map<number, Promise<AudioBuffer | null>>();
+  const sources = new Map<number, AudioBufferSourceNode>();
+  let synthesisTail: Promise<unknown> = Promise.resolve();
+  let state: NarrationState = 'idle';
+  let current = 0;         // Chunk being spoken (or waited for)
+  let nextToSchedule = 0;
+  let nextStartTime = 0;
+  let generation = 0;      // Bumped on skip/stop so stale work gives up
+  let wake: (() => void) | null = null;
+
+  const setState = (next: NarrationState) => {
+    if (state === next) return;
+    state = next;
+    callbacks.onStateChange(next);
+  };
+
+  const setCurrent = (index: number) => {
+    current = index;
+    callbacks.onChunk(chunks[index]);
+    wake?.();
+  };
+
+  // One request at a time, in order; chunks skipped past while waiting are never synthesized
+  const load = (index: number): Promise<AudioBuffer | null> => {
+    let buffer = buffers.get(index);
+    if (!buffer) {
+      buffer = synthesisTail.then(() => index < current ? null : generateSpeech(chunks[index].text, speech));
+      synthesisTail = buffer.catch(() => undefined);
+      buffers.set(index, buffer);
+    }
+    return buffer;
+  };
+
+  const prefetch = (from: number) => {
+    for (let i = from; i < Math.min(chunks.length, from + LOOKAHEAD_CHUNKS + 1); i++) load(i);
+  };
+
+  const silenceSources = () => {
+    sources.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch { /* never started */ }
+    });
+    sources.clear();
+  };
+
+  const finish = () => {
+    generation++;
+    wake?.();
+    silenceSources();
+    buffers.clear();
+    setState('idle');
+    callbacks.onChunk(null);
+    if (ctx.state !== 'closed') ctx.close().catch(console.error);
+  };
+
+  const schedule = (index: number, buffer: AudioBuffer) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    const startAt = Math.max(nextStartTime, ctx.currentTime + SCHEDULE_MARGIN_S);
+    source.start(startAt);
+    nextStartTime = startAt + buffer.duration;
+    sources.set(index, source);
+
+    const scheduledIn = generation;
+    source.onended = () => {
+      if (scheduledIn !== generation) return;
+      sources.delete(index);
+      buffers.delete(index);
+      if (index + 1 >= chunks.length) return finish();
+      setCurrent(index + 1);
+      // Synthesis is behind: nothing is queued to take over
+      if (!sources.has(index + 1) && state === 'playing') setState('loading');
+    };
+    if (index === current && state === 'loading') setState('playing');
+  };
+
+  // Keeps the chunk after the one playing queued, so playback never waits on scheduling
+  const pump = async () => {
+    const runningIn = generation;
+    while (nextToSchedule < chunks.length && runningIn === generation) {
+      if (nextToSchedule > current + 1) {
+        await new Promise<void>(resolve => { wake = resolve; });
+        continue;
+      }
+      const index = nextToSchedule;
+      prefetch(index);
+      let buffer: AudioBuffer | null;
+      try {
+        buffer = await load(index);
+      } catch (error) {
+        if (runningIn !== generation) return;
+        callbacks.onError?.(error);
+        return finish();
+      }
+      if (runningIn !== generation) return;
+      if (buffer) schedule(index, buffer);
+      nextToSchedule = index + 1;
+    }
+  };
+
+  const playFrom = (index: number) => {
+    generation++;
+    wake?.();
+    silenceSources();
+    for (const key of [...buffers.keys()]) if (key < index) buffers.delete(key);
+    nextStartTime = 0;
+    nextToSchedule = index;
+    if (state !== 'paused') setState('loading');
+    setCurrent(index);
+    pump();
+  };
+
+  if (chunks.length === 0) {
+    finish();
+  } else {
+    playFrom(0);
+  }
+
+  return {
+    pause: () => {
+      if (state !== 'playing' && state !== 'loading') return;
+      ctx.suspend().catch(console.error);
+      setState('paused');
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      ctx.resume().catch(console.error);
+      setState(sources.has(current) ? 'playing' : 'loading');
+    },
+    skipSection: () => {
+      if (state === 'idle') return;
+      const section = chunks[current].section;
+      const target = chunks.findIndex((chunk, i) => i > current && chunk.section > section);
+      if (target < 0) finish();
+      else playFrom(target);
+    },
+    stop: () => {
+      if (state !== 'idle') finish();
+    },
+  };
+};
+
+const CHUNK_PAUSE_MS = 350;
+const SECTION_PAUSE_MS = 1200;
+
+/**
+ * Synthesizes every chunk (reusing cached clips) into one WAV file, with short pauses
+ * between paragraphs and longer ones between days, for listening offline.
+ */
+export const renderNarrationWav = async (
+  chunks: NarrationChunk[],
+  { onProgress, signal, ...speech }: SpeechOptions & { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<Blob> => {
+  const clips: Uint8Array[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    if (signal?.aborted) throw new DOMException('Audio guide cancelled', 'AbortError');
+    if (i > 0) {
+      const pause = chunks[i].section !== chunks[i - 1].section ? SECTION_PAUSE_MS : CHUNK_PAUSE_MS;
+      clips.push(pcm16Silence(pause, TTS_SAMPLE_RATE));
+    }
+    clips.push(await synthesizeSpeechPCM(chunks[i].text, speech));
+    onProgress?.(i + 1, chunks.length);
+  }
+  return encodeWav(clips, TTS_SAMPLE_RATE);
+};
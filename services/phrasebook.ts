@@ -0,0 +1,205 @@
+import { SpeechOptions, generateSpeech, isSpeechCached, synthesizeSpeechPCM } from "./geminiService";
+import { Locale } from "./i18n";
+
+// Everyday Thai for travelers. The phrases ship with the app, so the book works offline;
+// their audio goes through the speech cache once played (or downloaded in one go).
+//
+// Romanization: aspirated consonants are kh/ph/th/ch, long vowels are doubled, aw is the
+// vowel in "saw", ae the one in "cat" and ue an unrounded "oo". Tones are marked on the
+// vowel: à low, â falling, á high, ǎ rising, unmarked mid.
+
+const STORAGE_KEY = 'thai_guide_phrasebook';
+
+export type PhraseCategory = 'greetings' | 'food' | 'spice' | 'directions' | 'bargaining' | 'emergencies';
+
+export const PHRASE_CATEGORIES: { id: PhraseCategory; icon: string }[] = [
+  { id: 'greetings', icon: '🙏' },
+  { id: 'food', icon: '🍜' },
+  { id: 'spice', icon: '🌶️' },
+  { id: 'directions', icon: '🧭' },
+  { id: 'bargaining', icon: '🛍️' },
+  { id: 'emergencies', icon: '🚑' },
+];
+
+// Who is speaking decides the polite particle at the end of a sentence
+export type Speaker = 'female' | 'male';
+
+export interface Phrase {
+  id: string;
+  category: PhraseCategory;
+  thai: string;
+  romanization: string;
+  // Statements and questions take different particles when a woman speaks (ค่ะ / คะ);
+  // no particle for cries like "Help!"
+  particle?: 'statement' | 'question';
+  meaning: Record<Exclude<Locale, 'th'>, string>;
+}
+
+const PARTICLES: Record<Speaker, Record<'statement' | 'question', { thai: string; romanization: string }>> = {
+  female: { statement: { thai: 'ค่ะ', romanization: 'khâ' }, question: { thai: 'คะ', romanization: 'khá' } },
+  male: { statement: { thai: 'ครับ', romanization: 'khráp' }, question: { thai: 'ครับ', romanization: 'khráp' } },
+};
+
+// Voices matching the speaker, so the particle is heard the way it would be said
+export const PHRASE_VOICES: Record<Speaker, string> = { female: 'Kore', male: 'Charon' };
+
+export const PHRASES: Phrase[] = [
+  { id: 'hello', category: 'greetings', thai: 'สวัสดี', romanization: 'sà-wàt-dii', particle: 'statement',
+    meaning: { en: 'Hello / Goodbye', zh: '你好 / 再见', de: 'Hallo / Auf Wiedersehen', ko: '안녕하세요 / 안녕히 가세요' } },
+  { id: 'thank-you', category: 'greetings', thai: 'ขอบคุณ', romanization: 'khàwp-khun', particle: 'statement',
+    meaning: { en: 'Thank you', zh: '谢谢', de: 'Danke', ko: '감사합니다' } },
+  { id: 'sorry', category: 'greetings', thai: 'ขอโทษ', romanization: 'khǎw-thôht', particle: 'statement',
+    meaning: { en: 'Sorry / Excuse me', zh: '对不起 / 打扰一下', de: 'Entschuldigung', ko: '죄송합니다 / 실례합니다' } },
+  { id: 'how-are-you', category: 'greetings', thai: 'สบายดีไหม', romanization: 'sà-baai-dii mái', particle: 'question',
+    meaning: { en: 'How are you?', zh: '你好吗？', de: 'Wie geht es dir?', ko: '잘 지내세요?' } },
+  { id: 'fine', category: 'greetings', thai: 'สบายดี', romanization: 'sà-baai-dii', particle: 'statement',
+    meaning: { en: "I'm fine", zh: '我很好', de: 'Mir geht es gut', ko: '잘 지내요' } },
+  { id: 'nice-to-meet-you', category: 'greetings', thai: 'ยินดีที่ได้รู้จัก', romanization: 'yin-dii thîi dâai rúu-jàk', particle: 'statement',
+    meaning: { en: 'Nice to meet you', zh: '很高兴认识你', de: 'Freut mich, dich kennenzulernen', ko: '만나서 반가워요' } },
+  { id: 'dont-understand', category: 'greetings', thai: 'ไม่เข้าใจ', romanization: 'mâi khâo-jai', particle: 'statement',
+    meaning: { en: "I don't understand", zh: '我听不懂', de: 'Ich verstehe nicht', ko: '이해하지 못했어요' } },
+  { id: 'never-mind', category: 'greetings', thai: 'ไม่เป็นไร', romanization: 'mâi pen rai', particle: 'statement',
+    meaning: { en: 'No problem / Never mind', zh: '没关系', de: 'Kein Problem', ko: '괜찮아요' } },
+
+  { id: 'menu', category: 'food', thai: 'ขอเมนูหน่อย', romanization: 'khǎw mee-nuu nàwy', particle: 'statement',
+    meaning: { en: 'The menu, please', zh: '请给我菜单', de: 'Die Speisekarte, bitte', ko: '메뉴판 좀 주세요' } },
+  { id: 'this-one', category: 'food', thai: 'เอาอันนี้', romanization: 'ao an-níi', particle: 'statement',
+    meaning: { en: "I'll have this one", zh: '我要这个', de: 'Ich nehme das hier', ko: '이걸로 할게요' } },
+  { id: 'water', category: 'food', thai: 'ขอน้ำเปล่า', romanization: 'khǎw náam-plàao', particle: 'statement',
+    meaning: { en: 'Water, please', zh: '请给我白开水', de: 'Wasser, bitte', ko: '물 좀 주세요' } },
+  { id: 'no-meat', category: 'food', thai: 'ไม่กินเนื้อสัตว์', romanization: 'mâi kin núea-sàt', particle: 'statement',
+    meaning: { en: "I don't eat meat", zh: '我不吃肉', de: 'Ich esse kein Fleisch', ko: '고기를 안 먹어요' } },
+  { id: 'peanut-allergy', category: 'food', thai: 'แพ้ถั่ว', romanization: 'pháe thùa', particle: 'statement',
+    meaning: { en: "I'm allergic to peanuts", zh: '我对花生过敏', de: 'Ich bin allergisch gegen Erdnüsse', ko: '땅콩 알레르기가 있어요' } },
+  { id: 'no-msg', category: 'food', thai: 'ไม่ใส่ผงชูรส', romanization: 'mâi sài phǒng-chuu-rót', particle: 'statement',
+    meaning: { en: 'No MSG', zh: '不要放味精', de: 'Ohne Glutamat', ko: 'MSG 넣지 마세요' } },
+  { id: 'delicious', category: 'food', thai: 'อร่อยมาก', romanization: 'à-ròi mâak', particle: 'statement',
+    meaning: { en: 'Very delicious!', zh: '非常好吃！', de: 'Sehr lecker!', ko: '정말 맛있어요!' } },
+  { id: 'bill', category: 'food', thai: 'เช็กบิลด้วย', romanization: 'chék bin dûai', particle: 'statement',
+    meaning: { en: 'The bill, please', zh: '请结账', de: 'Die Rechnung, bitte', ko: '계산해 주세요' } },
+
+  { id: 'is-it-spicy', category: 'spice', thai: 'เผ็ดไหม', romanization: 'phèt mái', particle: 'question',
+    meaning: { en: 'Is it spicy?', zh: '辣吗？', de: 'Ist es scharf?', ko: '매워요?' } },
+  { id: 'not-spicy', category: 'spice', thai: 'ไม่เผ็ด', romanization: 'mâi phèt', particle: 'statement',
+    meaning: { en: 'Not spicy', zh: '不要辣', de: 'Nicht scharf', ko: '안 맵게 해 주세요' } },
+  { id: 'little-spicy', category: 'spice', thai: 'เผ็ดนิดหน่อย', romanization: 'phèt nít-nàwy', particle: 'statement',
+    meaning: { en: 'A little spicy', zh: '微辣', de: 'Ein bisschen scharf', ko: '조금 맵게' } },
+  { id: 'medium-spicy', category: 'spice', thai: 'เผ็ดกลาง ๆ', romanization: 'phèt klaang-klaang', particle: 'statement',
+    meaning: { en: 'Medium spicy', zh: '中辣', de: 'Mittelscharf', ko: '중간 맵기로' } },
+  { id: 'very-spicy', category: 'spice', thai: 'เผ็ดมาก', romanization: 'phèt mâak', particle: 'statement',
+    meaning: { en: 'Very spicy', zh: '特辣', de: 'Sehr scharf', ko: '아주 맵게' } },
+  { id: 'no-chili', category: 'spice', thai: 'ไม่ใส่พริก', romanization: 'mâi sài phrík', particle: 'statement',
+    meaning: { en: 'No chili, please', zh: '不要放辣椒', de: 'Ohne Chili, bitte', ko: '고추 빼 주세요' } },
+
+  { id: 'toilet', category: 'directions', thai: 'ห้องน้ำอยู่ที่ไหน', romanization: 'hâwng-náam yùu thîi-nǎi', particle: 'question',
+    meaning: { en: 'Where is the toilet?', zh: '洗手间在哪里？', de: 'Wo ist die Toilette?', ko: '화장실이 어디예요?' } },
+  { id: 'go-here', category: 'directions', thai: 'ไปที่นี่', romanization: 'pai thîi-nîi', particle: 'statement',
+    meaning: { en: 'Please go here (pointing at the map)', zh: '请去这里（指着地图）', de: 'Bitte hierhin (auf die Karte zeigen)', ko: '여기로 가 주세요 (지도를 가리키며)' } },
+  { id: 'is-it-far', category: 'directions', thai: 'ไกลไหม', romanization: 'klai mái', particle: 'question',
+    meaning: { en: 'Is it far?', zh: '远吗？', de: 'Ist es weit?', ko: '멀어요?' } },
+  { id: 'straight', category: 'directions', thai: 'ตรงไป', romanization: 'trong pai', particle: 'statement',
+    meaning: { en: 'Go straight', zh: '直走', de: 'Geradeaus', ko: '직진해 주세요' } },
+  { id: 'left', category: 'directions', thai: 'เลี้ยวซ้าย', romanization: 'líao sáai', particle: 'statement',
+    meaning: { en: 'Turn left', zh: '左转', de: 'Links abbiegen', ko: '좌회전해 주세요' } },
+  { id: 'right', category: 'directions', thai: 'เลี้ยวขวา', romanization: 'líao khwǎa', particle: 'statement',
+    meaning: { en: 'Turn right', zh: '右转', de: 'Rechts abbiegen', ko: '우회전해 주세요' } },
+  { id: 'stop-here', category: 'directions', thai: 'จอดที่นี่', romanization: 'jàwt thîi-nîi', particle: 'statement',
+    meaning: { en: 'Stop here', zh: '在这里停', de: 'Hier anhalten', ko: '여기 세워 주세요' } },
+
+  { id: 'how-much', category: 'bargaining', thai: 'ราคาเท่าไหร่', romanization: 'raa-khaa thâo-rài', particle: 'question',
+    meaning: { en: 'How much is it?', zh: '多少钱？', de: 'Wie viel kostet das?', ko: '얼마예요?' } },
+  { id: 'too-expensive', category: 'bargaining', thai: 'แพงไป', romanization: 'phaeng pai', particle: 'statement',
+    meaning: { en: 'Too expensive', zh: '太贵了', de: 'Zu teuer', ko: '너무 비싸요' } },
+  { id: 'discount', category: 'bargaining', thai: 'ลดได้ไหม', romanization: 'lót dâai mái', particle: 'question',
+    meaning: { en: 'Can you lower the price?', zh: '能便宜点吗？', de: 'Geht es etwas günstiger?', ko: '깎아 주실 수 있어요?' } },
+  { id: 'hundred-baht', category: 'bargaining', thai: 'ร้อยบาทได้ไหม', romanization: 'ráwy bàat dâai mái', particle: 'question',
+    meaning: { en: 'Would 100 baht be OK?', zh: '一百铢可以吗？', de: 'Geht es für 100 Baht?', ko: '100바트 괜찮아요?' } },
+  { id: 'just-looking', category: 'bargaining', thai: 'ขอดูก่อน', romanization: 'khǎw duu kàwn', particle: 'statement',
+    meaning: { en: "I'm just looking", zh: '我先看看', de: 'Ich schaue nur', ko: '그냥 구경할게요' } },
+  { id: 'dont-want', category: 'bargaining', thai: 'ไม่เอา', romanization: 'mâi ao', particle: 'statement',
+    meaning: { en: "No thanks, I don't want it", zh: '不用了，我不要', de: 'Nein danke, ich möchte das nicht', ko: '괜찮아요, 안 살게요' } },
+
+  { id: 'help', category: 'emergencies', thai: 'ช่วยด้วย', romanization: 'chûai dûai',
+    meaning: { en: 'Help!', zh: '救命！', de: 'Hilfe!', ko: '도와주세요!' } },
+  { id: 'police', category: 'emergencies', thai: 'เรียกตำรวจ', romanization: 'rîak tam-rùat', particle: 'statement',
+    meaning: { en: 'Call the police (tourist police: 1155)', zh: '请叫警察（旅游警察：1155）', de: 'Rufen Sie die Polizei (Touristenpolizei: 1155)', ko: '경찰을 불러 주세요 (관광 경찰: 1155)' } },
+  { id: 'ambulance', category: 'emergencies', thai: 'เรียกรถพยาบาล', romanization: 'rîak rót-phá-yaa-baan', particle: 'statement',
+    meaning: { en: 'Call an ambulance (1669)', zh: '请叫救护车（1669）', de: 'Rufen Sie einen Krankenwagen (1669)', ko: '구급차를 불러 주세요 (1669)' } },
+  { id: 'hospital', category: 'emergencies', thai: 'ไปโรงพยาบาล', romanization: 'pai roong-phá-yaa-baan', particle: 'statement',
+    meaning: { en: 'To the hospital', zh: '去医院', de: 'Zum Krankenhaus', ko: '병원으로 가 주세요' } },
+  { id: 'sick', category: 'emergencies', thai: 'ไม่สบาย', romanization: 'mâi sà-baai', particle: 'statement',
+    meaning: { en: "I don't feel well", zh: '我不舒服', de: 'Mir geht es nicht gut', ko: '몸이 안 좋아요' } },
+  { id: 'lost', category: 'emergencies', thai: 'หลงทาง', romanization: 'lǒng-thaang', particle: 'statement',
+    meaning: { en: "I'm lost", zh: '我迷路了', de: 'Ich habe mich verlaufen', ko: '길을 잃었어요' } },
+  { id: 'bag-lost', category: 'emergencies', thai: 'กระเป๋าหาย', romanization: 'krà-pǎo hǎai', particle: 'statement',
+    meaning: { en: 'My bag is lost', zh: '我的包丢了', de: 'Meine Tasche ist weg', ko: '가방을 잃어버렸어요' } },
+];
+
+/**
+ * The phrase as `speaker` would say it, polite particle included.
+ */
+export const speakPhrase = (phrase: Phrase, speaker: Speaker): { thai: string; romanization: string } => {
+  if (!phrase.particle) return { thai: phrase.thai, romanization: phrase.romanization };
+  const particle = PARTICLES[speaker][phrase.particle];
+  return { thai: `${phrase.thai}${particle.thai}`, romanization: `${phrase.romanization} ${particle.romanization}` };
+};
+
+// Slowly, to repeat after, in a voice matching the speaker
+const phraseSpeech = (speaker: Speaker): SpeechOptions => ({ voiceName: PHRASE_VOICES[speaker], pace: 'slow', locale: 'th' });
+
+export const phraseAudio = (phrase: Phrase, speaker: Speaker): Promise<AudioBuffer> =>
+  generateSpeech(speakPhrase(phrase, speaker).thai, phraseSpeech(speaker));
+
+// Ids of the phrases whose audio is already cached for `speaker`
+export const cachedPhraseIds = async (speaker: Speaker): Promise<Set<string>> => {
+  const cached = await Promise.all(PHRASES.map(phrase => isSpeechCached(speakPhrase(phrase, speaker).thai, phraseSpeech(speaker))));
+  return new Set(PHRASES.filter((_, i) => cached[i]).map(phrase => phrase.id));
+};
+
+/**
+ * Fetches the audio of every phrase not yet cached for `speaker`, so the whole book plays offline.
+ */
+export const downloadPhraseAudio = async (
+  speaker: Speaker,
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<void> => {
+  const cached = await cachedPhraseIds(speaker);
+  const missing = PHRASES.filter(phrase => !cached.has(phrase.id));
+  for (let i = 0; i < missing.length; i++) {
+    if (signal?.aborted) throw new DOMException('Download cancelled', 'AbortError');
+    await synthesizeSpeechPCM(speakPhrase(missing[i], speaker).thai, phraseSpeech(speaker));
+    onProgress?.(i + 1, missing.length);
+  }
+};
+
+// Thai travelers don't need the meaning, so they get the English one
+export const phraseMeaning = (phrase: Phrase, locale: Locale): string =>
+  locale === 'th' ? phrase.meaning.en : phrase.meaning[locale];
+
+export interface PhrasebookSettings {
+  speaker: Speaker;
+  favorites: string[]; // Phrase ids
+}
+
+export const DEFAULT_PHRASEBOOK_SETTINGS: PhrasebookSettings = { speaker: 'female', favorites: [] };
+
+export const loadPhrasebookSettings = (): PhrasebookSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_PHRASEBOOK_SETTINGS;
+    return {
+      speaker: raw.speaker === 'male' ? 'male' : 'female',
+      favorites: Array.isArray(raw.favorites) ? raw.favorites.filter((id: unknown) => PHRASES.some(p => p.id === id)) : [],
+    };
+  } catch {
+    return DEFAULT_PHRASEBOOK_SETTINGS;
+  }
+};
+
+export const savePhrasebookSettings = (settings: PhrasebookSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save phrasebook settings", e);
+  }
+};
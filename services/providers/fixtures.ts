@@ -0,0 +1,175 @@
+import { GroundingChunk } from "../../types";
+
+// Recorded model answers replayed by the mock provider
+
+export interface ItineraryFixture {
+  text: string;
+  groundingChunks: GroundingChunk[];
+}
+
+const mapsChunk = (title: string, placeId: string): GroundingChunk => ({
+  maps: { title, uri: `https://maps.google.com/?cid=${placeId}` },
+});
+
+export const BANGKOK_DAY_FIXTURE: ItineraryFixture = {
+  text: `Sawasdee ka! Here is a delicious day in Bangkok, mixing royal temples with the best street food ka.
+
+## Day 1: Old Town Temples and River Life
+
+- **08:30 – The Grand Palace**: Start early before the crowds and the heat. Entry 500 THB, allow 2 hours. Dress modestly ka!
+- **10:45 – Wat Pho**: Home of the Reclining Buddha, a 10 minute walk away. Entry 300 THB, about 1.5 hours.
+- **12:30 – Lunch at Tha Tien Market**: Boat noodles and mango sticky rice, around 150 THB.
+- **14:00 – Wat Arun**: Take the cross-river ferry (5 THB) and climb the central prang. Entry 200 THB, 1 hour.
+- **16:00 – Thai massage at Wat Pho Massage School**: The original! 1 hour, 420 THB.
+- **18:30 – Dinner on Yaowarat Road**: Chinatown street food crawl, budget 400 THB, 2 hours.
+
+Tip: carry small notes for the ferry and street stalls ka.
+
+\`\`\`json
+{
+  "title": "Bangkok Temples & Street Food",
+  "summary": "Royal temples in the morning, river crossing after lunch, Chinatown at night.",
+  "days": [
+    {
+      "day": 1,
+      "title": "Old Town Temples and River Life",
+      "city": "Bangkok",
+      "transfer": null,
+      "stops": [
+        { "time": "08:30", "name": "The Grand Palace", "category": "attraction", "durationMinutes": 120, "description": "Royal palace complex and the Emerald Buddha.", "cost": { "amount": 500, "currency": "THB", "note": "Entry" } },
+        { "time": "10:45", "name": "Wat Pho", "category": "attraction", "durationMinutes": 90, "description": "The Reclining Buddha.", "cost": { "amount": 300, "currency": "THB", "note": "Entry" } },
+        { "time": "12:30", "name": "Tha Tien Market", "category": "meal", "durationMinutes": 60, "description": "Boat noodles and mango sticky rice.", "cost": { "amount": 150, "currency": "THB", "note": "Lunch" } },
+        { "time": "14:00", "name": "Wat Arun", "category": "attraction", "durationMinutes": 60, "description": "Temple of Dawn across the river.", "cost": { "amount": 200, "currency": "THB", "note": "Entry" } },
+        { "time": "16:00", "name": "Wat Pho Thai Traditional Massage School", "category": "activity", "durationMinutes": 60, "description": "Traditional Thai massage.", "cost": { "amount": 420, "currency": "THB", "note": "1 hour massage" } },
+        { "time": "18:30", "name": "Yaowarat Road", "category": "meal", "durationMinutes": 120, "description": "Chinatown street food crawl.", "cost": { "amount": 400, "currency": "THB", "note": "Dinner" } }
+      ]
+    }
+  ]
+}
+\`\`\``,
+  groundingChunks: [
+    mapsChunk("The Grand Palace", "1001"),
+    mapsChunk("Wat Pho", "1002"),
+    mapsChunk("Tha Tien Market", "1003"),
+    mapsChunk("Wat Arun Ratchawararam Ratchawaramahawihan", "1004"),
+    mapsChunk("Wat Pho Thai Traditional Massage School", "1005"),
+    mapsChunk("Yaowarat Road", "1006"),
+    { web: { title: "tourismthailand.org", uri: "https://www.tourismthailand.org/" } },
+  ],
+};
+
+export const MULTI_CITY_FIXTURE: ItineraryFixture = {
+  text: `Sawasdee ka! Two cities, one happy stomach. Here is your plan ka.
+
+## Day 1: Bangkok Highlights
+
+- **09:00 – Wat Pho**: Reclining Buddha, 300 THB, 1.5 hours.
+- **12:00 – Lunch at Thipsamai**: The famous pad thai, 120 THB.
+- **15:00 – Jim Thompson House**: Teak houses and silk, 200 THB, 1 hour.
+
+## Day 2: Transfer to Chiang Mai
+
+- **07:05 – Flight BKK to CNX**: Thai AirAsia from Don Mueang, about 1,200 THB, 1h 10m.
+- **11:00 – Wat Phra Singh**: Lanna temple in the Old City, 40 THB, 1 hour.
+- **18:00 – Chiang Mai Night Bazaar**: Khao soi and shopping, 300 THB.
+
+## Day 3: Doi Suthep and Departure
+
+- **08:00 – Wat Phra That Doi Suthep**: Climb the naga staircase, 50 THB, 2 hours.
+- **12:30 – Lunch at Khao Soi Khun Yai**: 60 THB.
+
+\`\`\`json
+{
+  "title": "Bangkok to Chiang Mai",
+  "summary": "A taste of the capital, then the temples of the north.",
+  "days": [
+    {
+      "day": 1, "title": "Bangkok Highlights", "city": "Bangkok", "transfer": null,
+      "stops": [
+        { "time": "09:00", "name": "Wat Pho", "category": "attraction", "durationMinutes": 90, "description": "Reclining Buddha.", "cost": { "amount": 300, "currency": "THB", "note": "Entry" } },
+        { "time": "12:00", "name": "Thipsamai Pad Thai Pratu Phi", "category": "meal", "durationMinutes": 60, "description": "Famous pad thai.", "cost": { "amount": 120, "currency": "THB", "note": "Lunch" } },
+        { "time": "15:00", "name": "Jim Thompson House", "category": "attraction", "durationMinutes": 60, "description": "Museum of teak houses and silk.", "cost": { "amount": 200, "currency": "THB", "note": "Entry" } }
+      ]
+    },
+    {
+      "day": 2, "title": "Transfer to Chiang Mai", "city": "Chiang Mai",
+      "transfer": { "from": "Bangkok", "to": "Chiang Mai", "mode": "flight", "departureTime": "07:05", "durationMinutes": 70 },
+      "stops": [
+        { "time": "07:05", "name": "Flight BKK to CNX", "category": "transfer", "durationMinutes": 70, "description": "Thai AirAsia from Don Mueang.", "cost": { "amount": 1200, "currency": "THB", "note": "Fare" } },
+        { "time": "11:00", "name": "Wat Phra Singh", "category": "attraction", "durationMinutes": 60, "description": "Lanna temple.", "cost": { "amount": 40, "currency": "THB", "note": "Entry" } },
+        { "time": "18:00", "name": "Chiang Mai Night Bazaar", "category": "shopping", "durationMinutes": 120, "description": "Night market.", "cost": { "amount": 300, "currency": "THB", "note": "Food and shopping" } }
+      ]
+    },
+    {
+      "day": 3, "title": "Doi Suthep and Departure", "city": "Chiang Mai", "transfer": null,
+      "stops": [
+        { "time": "08:00", "name": "Wat Phra That Doi Suthep", "category": "attraction", "durationMinutes": 120, "description": "Mountain temple.", "cost": { "amount": 50, "currency": "THB", "note": "Entry" } },
+        { "time": "12:30", "name": "Khao Soi Khun Yai", "category": "meal", "durationMinutes": 45, "description": "Khao soi.", "cost": { "amount": 60, "currency": "THB", "note": "Lunch" } }
+      ]
+    }
+  ]
+}
+\`\`\``,
+  groundingChunks: [
+    mapsChunk("Wat Pho", "2001"),
+    mapsChunk("Thipsamai Pad Thai Pratu Phi", "2002"),
+    mapsChunk("Jim Thompson House", "2003"),
+    mapsChunk("Wat Phra Singh Woramahawihan", "2004"),
+    mapsChunk("Chiang Mai Night Bazaar", "2005"),
+    mapsChunk("Wat Phra That Doi Suthep", "2006"),
+    mapsChunk("Khao Soi Khun Yai", "2007"),
+  ],
+};
+
+export const CHAT_FIXTURES: { match: RegExp; reply: string }[] = [
+  { match: /tuk.?tuk|taxi|grab|transport/i, reply: "For tuk-tuks, always agree the price before you climb in ka! Short hops in Bangkok are usually 60-100 THB. For longer rides, Grab or a metered taxi is cheaper and calmer." },
+  { match: /pad thai|food|eat|spicy/i, reply: "Pad thai is a great start ka! If you like it hot, say \"phet mak\" (very spicy). If not, \"mai phet\" (not spicy) is your best friend." },
+  { match: /temple|wat|dress/i, reply: "At temples, cover shoulders and knees, take off your shoes before entering the hall, and never point your feet at the Buddha ka." },
+  { match: /hello|hi|sawasdee|phrase/i, reply: "Sawasdee ka! Say \"sawasdee krap\" if you are a man, \"sawasdee ka\" if you are a woman. Add a small wai (palms together) and you will get big smiles ka." },
+];
+
+// Plan edits the mock replays when the chat can use itinerary tools: the first stop of
+// `category` is replaced, and {old}/{new} in the reply name the stops involved
+export const CHAT_TOOL_FIXTURES: { match: RegExp; category: string; replacement: Record<string, unknown>; reply: string; noMatch: string }[] = [
+  {
+    match: /vegetarian|vegan/i,
+    category: 'meal',
+    replacement: {
+      name: "Ethos Vegetarian & Vegan Restaurant",
+      description: "Meat-free Thai classics near Khao San Road.",
+      costTHB: 250,
+    },
+    reply: "Done ka! I swapped {old} for {new}, their green curry with tofu is lovely. Just say \"jay\" (vegan) when ordering street food too.",
+    noMatch: "Your plan has no meal stops yet ka. Tell me when you would like to eat and I will add a vegetarian place.",
+  },
+];
+
+export const CHAT_FALLBACKS = [
+  "Good question ka! In Thailand a smile and a little patience go a long way. Tell me which city you are in and I can be more specific.",
+  "Hmm, let me think like a local ka... Could you tell me a bit more about what you would like to do?",
+];
+
+// A recorded voice conversation: each turn plays after the user has spoken for a while,
+// making its tool `calls` before Somsri answers
+export const LIVE_SCRIPT: { user?: string; guide: string; calls?: { name: string; args: Record<string, unknown> }[] }[] = [
+  { guide: "Sawasdee ka! I'm Somsri. Which city are you in, or where would you like to go?" },
+  {
+    user: "I'm going to Bangkok next week for three nights.",
+    calls: [{ name: 'set_destination', args: { city: 'Bangkok', nights: 3 } }],
+    guide: "Wonderful, Bangkok is delicious ka! What do you love most: food, temples, shopping or nature?",
+  },
+  {
+    user: "Mostly street food and old temples, and we're on a small budget.",
+    calls: [
+      { name: 'add_interest', args: { interest: 'street food' } },
+      { name: 'add_interest', args: { interest: 'old temples' } },
+      { name: 'set_budget', args: { level: 'budget' } },
+    ],
+    guide: "Perfect ka! Maybe the Grand Palace and Wat Pho in the morning, then Chinatown for dinner. How does that sound?",
+  },
+  {
+    user: "That sounds great, I'm ready for the plan.",
+    calls: [{ name: 'finish_plan', args: {} }],
+    guide: "Lovely ka! I'm cooking up your plan now.",
+  },
+];
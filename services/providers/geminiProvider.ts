@@ -0,0 +1,155 @@
+import { FunctionCall, GoogleGenAI, Modality, Part, PartListUnion } from "@google/genai";
+import { GroundingChunk } from "../../types";
+import { ChatTools, ChatTurn, GenerationRequest, LiveConnectParams, LiveSessionHandle, ModelProvider, ProviderChat, TextStreamChunk } from "./types";
+
+const MODELS = {
+  itinerary: "gemini-2.5-flash",
+  logistics: "gemini-3-pro-preview",
+  chat: "gemini-3-pro-preview",
+  tts: "gemini-2.5-flash-preview-tts",
+  live: "gemini-2.5-flash-native-audio-preview-09-2025",
+};
+
+// Tool call rounds allowed within one chat reply
+const MAX_TOOL_ROUNDS = 5;
+
+const toGeminiTools = (tools?: ChatTools) => tools?.declarations.length
+  ? [{ functionDeclarations: tools.declarations.map(d => ({ name: d.name, description: d.description, parametersJsonSchema: d.parameters })) }]
+  : undefined;
+
+// Runs one function call; a failure is reported to the model rather than thrown
+const runToolCall = async (tools: ChatTools, call: FunctionCall): Promise<Part> => {
+  const name = call.name || '';
+  let response: Record<string, unknown>;
+  try {
+    response = await tools.execute(name, call.args || {});
+  } catch (e: any) {
+    response = { error: e?.message || String(e) };
+  }
+  return { functionResponse: { id: call.id, name, response } };
+};
+
+/**
+ * Model provider backed by the Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const streamItinerary = async function* ({ prompt, systemInstruction, location, signal }: GenerationRequest): AsyncGenerator<TextStreamChunk> {
+    const toolConfig: any = {};
+    if (location) {
+      toolConfig.retrievalConfig = {
+        latLng: {
+          latitude: location.latitude,
+          longitude: location.longitude
+        }
+      };
+    }
+
+    const stream = await ai.models.generateContentStream({
+      model: MODELS.itinerary,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        tools: [{ googleMaps: {} }, { googleSearch: {} }],
+        toolConfig,
+        abortSignal: signal,
+      },
+    });
+
+    for await (const chunk of stream) {
+      yield {
+        text: chunk.text || '',
+        groundingChunks: chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined,
+      };
+    }
+  };
+
+  const streamLogistics = async function* ({ prompt, systemInstruction, signal }: GenerationRequest): AsyncGenerator<TextStreamChunk> {
+    const stream = await ai.models.generateContentStream({
+      model: MODELS.logistics,
+      contents: prompt,
+      config: {
+        thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget
+        systemInstruction,
+        abortSignal: signal,
+      },
+    });
+
+    for await (const chunk of stream) {
+      yield { text: chunk.text || '' };
+    }
+  };
+
+  const createChat = (systemInstruction: string, history: ChatTurn[] = [], tools?: ChatTools): ProviderChat => {
+    const config = { systemInstruction, tools: toGeminiTools(tools) };
+    const chat = ai.chats.create({
+      model: MODELS.chat,
+      config,
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    });
+    return {
+      sendMessageStream: async function* (message, signal) {
+        let next: PartListUnion = message;
+        // Each round either finishes the reply or asks for tools whose results start the next round
+        for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+          // A per-message config replaces the chat's, so carry the system instruction along
+          const stream = await chat.sendMessageStream({ message: next, config: { ...config, abortSignal: signal } });
+          const calls: FunctionCall[] = [];
+          for await (const chunk of stream) {
+            for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+              if (part.text && !part.thought) yield part.text;
+            }
+            calls.push(...(chunk.functionCalls || []));
+          }
+          if (!calls.length || !tools) return;
+          const responses: Part[] = [];
+          for (const call of calls) responses.push(await runToolCall(tools, call));
+          next = responses;
+        }
+        throw new Error("The assistant kept calling tools without answering.");
+      },
+    };
+  };
+
+  const synthesizeSpeech = async (text: string, voiceName: string, languageCode?: string): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: MODELS.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName },
+          },
+          languageCode,
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio data returned");
+    return base64Audio;
+  };
+
+  const connectLive = ({ config, callbacks, tools }: LiveConnectParams): Promise<LiveSessionHandle> => {
+    const session = ai.live.connect({
+      model: MODELS.live,
+      config: tools ? { ...config, tools: toGeminiTools(tools) } : config,
+      callbacks: {
+        ...callbacks,
+        onmessage: (message) => {
+          callbacks.onmessage(message);
+          const calls = message.toolCall?.functionCalls;
+          if (!calls?.length || !tools) return;
+          Promise.all(calls.map(call => runToolCall(tools, call)))
+            .then(parts => session.then(s => s.sendToolResponse({ functionResponses: parts.map(p => p.functionResponse!) })))
+            .catch(err => console.error("Live tool response failed", err));
+        },
+      },
+    });
+    return session;
+  };
+
+  return { name: 'gemini', streamItinerary, streamLogistics, createChat, synthesizeSpeech, connectLive };
+};
@@ -0,0 +1,30 @@
+import { ModelProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { ModelProvider } from "./types";
+
+let activeProvider: ModelProvider | null = null;
+
+/**
+ * Picks the backend: `?provider=mock|gemini` in the URL wins, then the MODEL_PROVIDER
+ * env var, then Gemini if an API key is configured, else the offline mock.
+ */
+const resolveProviderName = (): string => {
+  const fromUrl = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('provider') : null;
+  return fromUrl || process.env.MODEL_PROVIDER || (process.env.API_KEY ? 'gemini' : 'mock');
+};
+
+export const getProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderName() === 'mock'
+      ? createMockProvider()
+      : createGeminiProvider(process.env.API_KEY || '');
+  }
+  return activeProvider;
+};
+
+// Swaps the backend at runtime, e.g. to inject a custom fixture provider
+export const setProvider = (provider: ModelProvider) => {
+  activeProvider = provider;
+};
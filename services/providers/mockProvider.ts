@@ -0,0 +1,178 @@
+import { LiveServerMessage } from "@google/genai";
+import { encodeBase64, float32ToPCM16 } from "../audioUtils";
+import { ChatTools, ChatTurn, GenerationRequest, LiveConnectParams, LiveSessionHandle, ModelProvider, ProviderChat, TextStreamChunk } from "./types";
+import { BANGKOK_DAY_FIXTURE, CHAT_FALLBACKS, CHAT_FIXTURES, CHAT_TOOL_FIXTURES, ItineraryFixture, LIVE_SCRIPT, MULTI_CITY_FIXTURE } from "./fixtures";
+
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_DELAY_MS = 40;
+const CHAT_CHUNK_SIZE = 12;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Seconds of (16kHz) user audio the mock "hears" before answering with its next scripted turn,
+// or at least this much followed by the end of the utterance
+const LIVE_TURN_AFTER_SECONDS = 4;
+const LIVE_MIN_UTTERANCE_SECONDS = 1;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+  const id = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(id);
+    reject(new DOMException("Aborted", "AbortError"));
+  }, { once: true });
+});
+
+// Replays a fixture in fixed-size slices; grounding arrives with the last slice, like the real API
+async function* replay(fixture: ItineraryFixture, signal?: AbortSignal): AsyncGenerator<TextStreamChunk> {
+  for (let i = 0; i < fixture.text.length; i += STREAM_CHUNK_SIZE) {
+    await delay(STREAM_DELAY_MS, signal);
+    const isLast = i + STREAM_CHUNK_SIZE >= fixture.text.length;
+    yield {
+      text: fixture.text.slice(i, i + STREAM_CHUNK_SIZE),
+      groundingChunks: isLast ? fixture.groundingChunks : undefined,
+    };
+  }
+}
+
+// Multi-city prompts (see buildTripPrompt) get the multi-city recording
+const pickItineraryFixture = (prompt: string): ItineraryFixture =>
+  /TRANSFER DAY/.test(prompt) ? MULTI_CITY_FIXTURE : BANGKOK_DAY_FIXTURE;
+
+/**
+ * A soft two-note chime standing in for speech, about as long as reading the text
+ * would take. Deterministic so recordings and tests stay stable.
+ */
+const synthesizeChime = (text: string): Uint8Array => {
+  const seconds = Math.min(8, 0.5 + text.length / 40);
+  const samples = new Float32Array(Math.floor(seconds * OUTPUT_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const freq = Math.floor(t * 2) % 2 === 0 ? 523.25 : 659.25;
+    const envelope = Math.min(1, t * 10) * Math.min(1, (seconds - t) * 10);
+    samples[i] = 0.15 * envelope * Math.sin(2 * Math.PI * freq * t);
+  }
+  return float32ToPCM16(samples);
+};
+
+/**
+ * Offline model provider that replays recorded fixtures. No network or API key needed.
+ */
+export const createMockProvider = (): ModelProvider => {
+  const streamItinerary = (request: GenerationRequest) => replay(pickItineraryFixture(request.prompt), request.signal);
+  const streamLogistics = (request: GenerationRequest) => replay(pickItineraryFixture(request.prompt), request.signal);
+
+  const createChat = (_systemInstruction: string, history: ChatTurn[] = [], tools?: ChatTools): ProviderChat => {
+    // Carry on through the fallbacks where a resumed conversation left off
+    let fallbackIdx = history.filter(turn => turn.role === 'model').length;
+
+    // Looks the plan up and makes the recorded edit, like the model would with the same tools
+    const replayToolFixture = async (fixture: typeof CHAT_TOOL_FIXTURES[number]): Promise<string> => {
+      const plan = await tools!.execute('get_itinerary', {}) as { days?: { stops: { id: string; name: string; category: string }[] }[] };
+      const stop = plan.days?.flatMap(day => day.stops).find(s => s.category === fixture.category);
+      if (!stop) return fixture.noMatch;
+      await tools!.execute('replace_stop', { stopId: stop.id, category: fixture.category, ...fixture.replacement });
+      return fixture.reply.replace('{old}', stop.name).replace('{new}', String(fixture.replacement.name));
+    };
+
+    return {
+      sendMessageStream: async function* (message, signal) {
+        await delay(400, signal);
+        const toolFixture = tools ? CHAT_TOOL_FIXTURES.find(f => f.match.test(message)) : undefined;
+        const fixture = CHAT_FIXTURES.find(f => f.match.test(message));
+        let reply: string;
+        if (toolFixture) {
+          try {
+            reply = await replayToolFixture(toolFixture);
+          } catch (e: any) {
+            reply = `I couldn't change the plan ka: ${e?.message || e}`;
+          }
+        } else {
+          reply = fixture ? fixture.reply : CHAT_FALLBACKS[fallbackIdx++ % CHAT_FALLBACKS.length];
+        }
+        for (let i = 0; i < reply.length; i += CHAT_CHUNK_SIZE) {
+          if (i > 0) await delay(STREAM_DELAY_MS, signal);
+          yield reply.slice(i, i + CHAT_CHUNK_SIZE);
+        }
+      },
+    };
+  };
+
+  const synthesizeSpeech = async (text: string): Promise<string> => {
+    await delay(300);
+    return encodeBase64(synthesizeChime(text));
+  };
+
+  const connectLive = async ({ config, callbacks, tools }: LiveConnectParams): Promise<LiveSessionHandle> => {
+    let closed = false;
+    // A resumed session carries on with the script where the handle left it
+    const resumedTurn = Number(/^mock-turn-(\d+)$/.exec(config.sessionResumption?.handle || '')?.[1]);
+    const resumed = Number.isInteger(resumedTurn);
+    let turn = resumed ? resumedTurn : 0;
+    let heardSeconds = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const later = (ms: number, fn: () => void) => {
+      const id = setTimeout(() => {
+        timers.delete(id);
+        if (!closed) fn();
+      }, ms);
+      timers.add(id);
+    };
+
+    const playTurn = () => {
+      const step = LIVE_SCRIPT[turn++];
+      if (!step) return;
+      const messages: LiveServerMessage[] = [];
+      if (step.user) messages.push({ serverContent: { inputTranscription: { text: step.user } } } as LiveServerMessage);
+      messages.push({ serverContent: { outputTranscription: { text: step.guide } } } as LiveServerMessage);
+      messages.push({
+        serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: encodeBase64(synthesizeChime(step.guide)) } }] } },
+      } as LiveServerMessage);
+      messages.push({ serverContent: { turnComplete: true } } as LiveServerMessage);
+      if (config.sessionResumption) {
+        messages.push({ sessionResumptionUpdate: { newHandle: `mock-turn-${turn}`, resumable: true } } as LiveServerMessage);
+      }
+      messages.forEach((message, i) => later(150 * (i + 1), () => {
+        callbacks.onmessage(message);
+        // The model calls its tools once it has heard the user, before answering
+        if (i === 0 && tools) {
+          step.calls?.forEach(call => tools.execute(call.name, call.args).catch(err => console.warn("Live tool call failed", err)));
+        }
+      }));
+    };
+
+    later(300, () => {
+      callbacks.onopen?.();
+      if (!resumed) playTurn();
+    });
+
+    return {
+      sendRealtimeInput: ({ media, audioStreamEnd }) => {
+        if (closed) return;
+        // The user paused after saying something: answer, as the real model would
+        if (audioStreamEnd) {
+          if (heardSeconds >= LIVE_MIN_UTTERANCE_SECONDS) {
+            heardSeconds = 0;
+            playTurn();
+          }
+          return;
+        }
+        if (!media) return;
+        // base64 PCM16 at 16kHz: 4 chars -> 3 bytes, 2 bytes per sample
+        heardSeconds += (media.data.length * 3) / 4 / 2 / 16000;
+        if (heardSeconds >= LIVE_TURN_AFTER_SECONDS) {
+          heardSeconds = 0;
+          playTurn();
+        }
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearTimeout);
+        timers.clear();
+        callbacks.onclose?.(new CloseEvent('close'));
+      },
+    };
+  };
+
+  return { name: 'mock', streamItinerary, streamLogistics, createChat, synthesizeSpeech, connectLive };
+};
@@ -0,0 +1,70 @@
+import { LiveCallbacks, LiveConnectConfig } from "@google/genai";
+import { GroundingChunk } from "../../types";
+
+export interface GenerationRequest {
+  prompt: string;
+  systemInstruction: string;
+  location?: GeolocationCoordinates;
+  signal?: AbortSignal;
+}
+
+// One streamed piece of a generated answer
+export interface TextStreamChunk {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+}
+
+// A previous exchange, replayed when a chat is resumed
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// A function the model may call, described with a JSON Schema for its arguments
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Functions offered to a chat or live session, run by the app when the model calls them
+export interface ChatTools {
+  declarations: ToolDeclaration[];
+  // Resolves to the result sent back to the model; throwing reports the error to it instead
+  execute(name: string, args: Record<string, unknown>): Promise<Record<string, unknown>>;
+}
+
+export interface ProviderChat {
+  // Yields the reply as it is written, one text delta at a time
+  sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface LiveConnectParams {
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+  // Called by the provider, which sends the results back to the model
+  tools?: ChatTools;
+}
+
+// The subset of the SDK's live Session the app uses
+export interface LiveSessionHandle {
+  // audioStreamEnd: the mic went quiet, so the model shouldn't wait for more audio
+  sendRealtimeInput(input: { media?: { mimeType: string; data: string }; audioStreamEnd?: boolean }): void;
+  close(): void;
+}
+
+/**
+ * Everything the app asks of a model backend. Prompts and persona are built by the
+ * caller (geminiService), so every provider answers the exact same requests.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  // Grounded (Maps + Search) itinerary generation
+  streamItinerary(request: GenerationRequest): AsyncGenerator<TextStreamChunk>;
+  // Deep-thinking logistics planning
+  streamLogistics(request: GenerationRequest): AsyncGenerator<TextStreamChunk>;
+  createChat(systemInstruction: string, history?: ChatTurn[], tools?: ChatTools): ProviderChat;
+  // Returns base64 raw PCM, 24kHz mono 16-bit
+  synthesizeSpeech(text: string, voiceName: string, languageCode?: string): Promise<string>;
+  connectLive(params: LiveConnectParams): Promise<LiveSessionHandle>;
+}
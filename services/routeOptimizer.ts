@@ -0,0 +1,305 @@
+import { GeoPoint, ItineraryStop } from "../types";
+import { isVisitableStop, minutesToTime, stopDwellMinutes, stopPlaceQuery, timeToMinutes } from "./itinerary";
+
+// Seconds of travel between places: matrix[from][to]
+export type DurationMatrix = number[][];
+
+/**
+ * Where travel times come from. The app asks Google; tests and offline mode can
+ * hand in coordinates or a fixed matrix instead.
+ */
+export interface DistanceMatrixSource {
+  getDurations(places: string[]): Promise<DurationMatrix>;
+}
+
+export interface RouteStop {
+  id: string;
+  dwellMinutes: number;
+  // start/end: the day's hotel; fixed: a booking that keeps its slot
+  anchor?: 'start' | 'end' | 'fixed';
+  // Minutes since midnight; the visit must start in [open, latestStart]
+  window?: { open: number; latestStart: number };
+}
+
+export interface RouteSchedule {
+  travelSeconds: number;
+  starts: number[]; // When each visit begins (after any wait), minutes since midnight, in visiting order
+  waitMinutes: number;
+  lateMinutes: number; // How far past the windows we start visits, summed
+}
+
+export interface RouteOptimization {
+  order: number[]; // Indices into the input stops, in the new visiting order
+  before: RouteSchedule;
+  after: RouteSchedule;
+}
+
+const DEFAULT_START_MINUTES = 9 * 60;
+// Bookings can be reached a little late before we count it as missed
+const FIXED_SLACK_MINUTES = 15;
+// A minute outside a window costs as much as ten minutes on the road
+const LATE_PENALTY_SECONDS = 600;
+// Up to this many movable stops we try every order; beyond, local search
+const EXHAUSTIVE_LIMIT = 7;
+// Google allows 100 elements, and at most 25 origins or 25 destinations, per Distance Matrix request
+const MATRIX_ELEMENT_LIMIT = 100;
+const MATRIX_SIDE_LIMIT = 25;
+
+/**
+ * Simulates a day in the given order: travel, wait for opening, stay, move on.
+ */
+export const scheduleRoute = (stops: RouteStop[], order: number[], durations: DurationMatrix, startMinutes: number): RouteSchedule => {
+  let clock = startMinutes;
+  let travelSeconds = 0;
+  let waitMinutes = 0;
+  let lateMinutes = 0;
+  const starts: number[] = [];
+  order.forEach((stopIdx, pos) => {
+    if (pos > 0) {
+      const seconds = durations[order[pos - 1]][stopIdx];
+      travelSeconds += seconds;
+      clock += seconds / 60;
+    }
+    const window = stops[stopIdx].window;
+    if (window) {
+      if (clock < window.open) {
+        waitMinutes += window.open - clock;
+        clock = window.open;
+      }
+      lateMinutes += Math.max(0, clock - window.latestStart);
+    }
+    starts.push(clock);
+    clock += stops[stopIdx].dwellMinutes;
+  });
+  return { travelSeconds, starts, waitMinutes, lateMinutes };
+};
+
+const routeCost = (schedule: RouteSchedule) => schedule.travelSeconds + schedule.lateMinutes * LATE_PENALTY_SECONDS;
+
+function* permutations<T>(items: T[]): Generator<T[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const tail of permutations(rest)) yield [items[i], ...tail];
+  }
+}
+
+/**
+ * Reorders stops to cut travel time. Anchored stops keep their positions (hotel first
+ * and last, bookings in their slot); the others move freely, subject to their windows.
+ * Returns the original order when nothing better is found.
+ */
+export const optimizeRoute = (stops: RouteStop[], durations: DurationMatrix, startMinutes = DEFAULT_START_MINUTES): RouteOptimization => {
+  const original = stops.map((_, i) => i);
+  const before = scheduleRoute(stops, original, durations, startMinutes);
+
+  const isPinned = (stop: RouteStop, i: number) =>
+    stop.anchor === 'fixed' || (stop.anchor === 'start' && i === 0) || (stop.anchor === 'end' && i === stops.length - 1);
+  const slots = original.filter(i => !isPinned(stops[i], i));
+  const movable = [...slots];
+
+  const build = (arrangement: number[]) => {
+    const order = [...original];
+    slots.forEach((slot, k) => { order[slot] = arrangement[k]; });
+    return order;
+  };
+
+  let best = { order: original, cost: routeCost(before) };
+  const consider = (arrangement: number[]) => {
+    const order = build(arrangement);
+    const cost = routeCost(scheduleRoute(stops, order, durations, startMinutes));
+    if (cost < best.cost) best = { order, cost };
+    return cost;
+  };
+
+  if (movable.length <= EXHAUSTIVE_LIMIT) {
+    for (const arrangement of permutations(movable)) consider(arrangement);
+  } else {
+    // Swap pairs of movable stops until no swap helps
+    let arrangement = [...movable];
+    let current = consider(arrangement);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let a = 0; a < arrangement.length - 1; a++) {
+        for (let b = a + 1; b < arrangement.length; b++) {
+          const candidate = [...arrangement];
+          [candidate[a], candidate[b]] = [candidate[b], candidate[a]];
+          const cost = consider(candidate);
+          if (cost < current) {
+            arrangement = candidate;
+            current = cost;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  return { order: best.order, before, after: scheduleRoute(stops, best.order, durations, startMinutes) };
+};
+
+/**
+ * Turns a day's visitable stops into optimizer input: durations default to an hour,
+ * a hotel at either end anchors the day, and bookings keep their planned time.
+ */
+export const toRouteStops = (stops: ItineraryStop[]): RouteStop[] => stops.map((stop, i) => {
+  const routeStop: RouteStop = { id: stop.id, dwellMinutes: stopDwellMinutes(stop) };
+  if (stop.fixed) {
+    routeStop.anchor = 'fixed';
+    if (stop.time) {
+      const at = timeToMinutes(stop.time);
+      routeStop.window = { open: at, latestStart: at + FIXED_SLACK_MINUTES };
+    }
+  } else if (stop.category === 'hotel' && i === 0) {
+    routeStop.anchor = 'start';
+  } else if (stop.category === 'hotel' && i === stops.length - 1) {
+    routeStop.anchor = 'end';
+  }
+  if (!routeStop.window && stop.openingHours) {
+    const open = timeToMinutes(stop.openingHours.open);
+    let close = timeToMinutes(stop.openingHours.close);
+    if (close <= open) close += 24 * 60; // Night markets closing after midnight
+    routeStop.window = { open, latestStart: Math.max(open, close - routeStop.dwellMinutes) };
+  }
+  return routeStop;
+});
+
+export interface DayRouteOptimization extends RouteOptimization {
+  stops: ItineraryStop[]; // The day's full stop list, reordered and retimed
+}
+
+/**
+ * Optimizes one day's stops. Transfers stay where they are; the visitable stops are
+ * reordered among their own slots and, if the order changed, retimed from the new schedule.
+ */
+export const optimizeDayStops = async (dayStops: ItineraryStop[], source: DistanceMatrixSource): Promise<DayRouteOptimization | null> => {
+  const visitable = dayStops.filter(isVisitableStop);
+  if (visitable.length < 3) return null;
+
+  const places = [...new Set(visitable.map(stopPlaceQuery))];
+  const placeMatrix = await source.getDurations(places);
+  const placeIdx = visitable.map(stop => places.indexOf(stopPlaceQuery(stop)));
+  const durations = placeIdx.map(from => placeIdx.map(to => placeMatrix[from][to]));
+
+  const routeStops = toRouteStops(visitable);
+  const firstTime = visitable.find(stop => stop.time)?.time;
+  const result = optimizeRoute(routeStops, durations, firstTime ? timeToMinutes(firstTime) : DEFAULT_START_MINUTES);
+
+  if (result.order.every((idx, pos) => idx === pos)) return { ...result, stops: dayStops };
+
+  const reordered = result.order.map((idx, pos) => {
+    const stop = visitable[idx];
+    if (stop.fixed) return stop;
+    return { ...stop, time: minutesToTime(Math.ceil(result.after.starts[pos] / 5) * 5) };
+  });
+  let next = 0;
+  const stops = dayStops.map(stop => isVisitableStop(stop) ? reordered[next++] : stop);
+  return { ...result, stops };
+};
+
+// One Distance Matrix request: a block of origins against a block of destinations
+export interface MatrixBlock {
+  originStart: number;
+  originCount: number;
+  destinationStart: number;
+  destinationCount: number;
+}
+
+/**
+ * Tiles a places × places matrix into blocks that each stay within Google's per-request limits.
+ */
+export const matrixBlocks = (count: number): MatrixBlock[] => {
+  const destinationsPerRequest = Math.min(count, MATRIX_SIDE_LIMIT);
+  const originsPerRequest = Math.max(1, Math.min(MATRIX_SIDE_LIMIT, Math.floor(MATRIX_ELEMENT_LIMIT / destinationsPerRequest)));
+  const blocks: MatrixBlock[] = [];
+  for (let originStart = 0; originStart < count; originStart += originsPerRequest) {
+    for (let destinationStart = 0; destinationStart < count; destinationStart += destinationsPerRequest) {
+      blocks.push({
+        originStart,
+        originCount: Math.min(originsPerRequest, count - originStart),
+        destinationStart,
+        destinationCount: Math.min(destinationsPerRequest, count - destinationStart),
+      });
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Travel times from Google's Distance Matrix service, split into requests that stay
+ * within the per-request limits (see matrixBlocks).
+ */
+export const createGoogleMatrixSource = (travelMode: google.maps.TravelMode = google.maps.TravelMode.DRIVING): DistanceMatrixSource => ({
+  getDurations: async (places) => {
+    const service = new google.maps.DistanceMatrixService();
+    const matrix: DurationMatrix = places.map(() => []);
+    for (const block of matrixBlocks(places.length)) {
+      const origins = places.slice(block.originStart, block.originStart + block.originCount);
+      const destinations = places.slice(block.destinationStart, block.destinationStart + block.destinationCount);
+      const rows = await new Promise<any[]>((resolve, reject) => {
+        service.getDistanceMatrix({ origins, destinations, travelMode }, (result: any, status: any) => {
+          if (status === 'OK' && result) resolve(result.rows);
+          else reject(new Error(`Distance Matrix request failed: ${status}`));
+        });
+      });
+      rows.forEach((row: any, r: number) => {
+        const from = block.originStart + r;
+        row.elements.forEach((el: any, c: number) => {
+          const to = block.destinationStart + c;
+          // Unreachable pairs get a large time so the optimizer avoids them
+          matrix[from][to] = from === to ? 0 : el.status === 'OK' ? el.duration.value : 24 * 3600;
+        });
+      });
+    }
+    return matrix;
+  },
+});
+
+const EARTH_RADIUS_KM = 6371;
+
+const haversineKm = (a: GeoPoint, b: GeoPoint) => {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Local stand-in: straight-line distance at an average city speed. Places without
+ * coordinates are treated as an hour away from everything.
+ */
+export const createHaversineMatrixSource = (
+  coordinates: Record<string, GeoPoint>,
+  speedKmh = 20,
+): DistanceMatrixSource => ({
+  getDurations: async (places) => places.map(from => places.map(to => {
+    if (from === to) return 0;
+    const a = coordinates[from];
+    const b = coordinates[to];
+    return a && b ? Math.round(haversineKm(a, b) / speedKmh * 3600) : 3600;
+  })),
+});
+
+// Local stand-in backed by a fixed matrix over known place names
+export const createStaticMatrixSource = (places: string[], matrix: DurationMatrix): DistanceMatrixSource => ({
+  getDurations: async (queries) => queries.map(from => queries.map(to => {
+    const i = places.indexOf(from);
+    const j = places.indexOf(to);
+    if (i < 0 || j < 0) throw new Error(`No travel time for ${i < 0 ? from : to}`);
+    return matrix[i][j];
+  })),
+});
+
+/**
+ * Google's Distance Matrix when the Maps API has loaded, otherwise the straight-line
+ * stand-in over whatever coordinates (keyed by place query) are known.
+ */
+export const createMatrixSource = (coordinates: Record<string, GeoPoint> = {}): DistanceMatrixSource =>
+  typeof google !== 'undefined' && google.maps?.DistanceMatrixService
+    ? createGoogleMatrixSource(google.maps.TravelMode.DRIVING)
+    : createHaversineMatrixSource(coordinates);
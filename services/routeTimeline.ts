@@ -0,0 +1,77 @@
+import { ItineraryStop } from "../types";
+import { minutesToTime, stopDwellMinutes, timeToMinutes } from "./itinerary";
+
+// One Directions leg, between consecutive route stops
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+// Something to check about a stop; the UI words it (see the route.warning.* messages)
+export type TimelineWarning =
+  | { kind: 'lateForBooking' | 'offPlan'; arrival: string; planned: string }
+  | { kind: 'notOpenYet'; opens: string }
+  | { kind: 'closedOnArrival'; closes: string };
+
+export interface TimelineEntry {
+  stop: ItineraryStop;
+  legIn?: RouteLeg; // How we got here; missing for the first stop
+  arrival: number; // Minutes since midnight
+  departure: number;
+  warnings: TimelineWarning[];
+}
+
+export interface DayTimeline {
+  entries: TimelineEntry[];
+  end: number; // Departure from the last stop
+  overrunMinutes: number; // Past the latest end of day, or 0
+}
+
+// Arriving this far from the planned time gets flagged
+const PLAN_TOLERANCE_MINUTES = 30;
+
+export const DEFAULT_DAY_END = '22:00';
+
+// Default start: the first planned time of the day, or 09:00
+export const defaultStartTime = (stops: ItineraryStop[]): string => stops.find(s => s.time)?.time || '09:00';
+
+/**
+ * Walks the day from `startTime`: arrive, stay each stop's dwell time, then drive the
+ * next leg. Booked stops wait for their slot. Flags arrivals far off the planned time
+ * or outside opening hours, and how far the day runs past `dayEnd`.
+ */
+export const buildDayTimeline = (stops: ItineraryStop[], legs: RouteLeg[], startTime: string, dayEnd = DEFAULT_DAY_END): DayTimeline => {
+  let clock = timeToMinutes(startTime);
+  const entries = stops.map((stop, i): TimelineEntry => {
+    const legIn = i > 0 ? legs[i - 1] : undefined;
+    if (legIn) clock += legIn.durationSeconds / 60;
+    const arrival = clock;
+    const warnings: TimelineWarning[] = [];
+
+    const planned = stop.time ? timeToMinutes(stop.time) : null;
+    let visitStart = arrival;
+    if (planned !== null && stop.fixed) {
+      // Early for a booking just means waiting for it
+      if (arrival < planned) visitStart = planned;
+      else if (arrival > planned) warnings.push({ kind: 'lateForBooking', arrival: minutesToTime(arrival), planned: stop.time! });
+    } else if (planned !== null && Math.abs(arrival - planned) > PLAN_TOLERANCE_MINUTES) {
+      warnings.push({ kind: 'offPlan', arrival: minutesToTime(arrival), planned: stop.time! });
+    }
+
+    if (stop.openingHours) {
+      const open = timeToMinutes(stop.openingHours.open);
+      let close = timeToMinutes(stop.openingHours.close);
+      if (close <= open) close += 24 * 60;
+      if (visitStart < open) warnings.push({ kind: 'notOpenYet', opens: stop.openingHours.open });
+      else if (visitStart >= close) warnings.push({ kind: 'closedOnArrival', closes: stop.openingHours.close });
+    }
+
+    // Getting back to the hotel ends the day
+    const endsDay = stop.category === 'hotel' && i > 0 && i === stops.length - 1;
+    clock = endsDay ? visitStart : visitStart + stopDwellMinutes(stop);
+    return { stop, legIn, arrival, departure: clock, warnings };
+  });
+
+  const end = entries.length ? entries[entries.length - 1].departure : timeToMinutes(startTime);
+  return { entries, end, overrunMinutes: Math.max(0, Math.round(end - timeToMinutes(dayEnd))) };
+};
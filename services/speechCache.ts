@@ -0,0 +1,71 @@
+import { STORES, getOne, promisifyRequest, putOne, withStore } from "./db";
+
+// Synthesized speech kept in IndexedDB, so replaying a plan costs no TTS calls and works offline
+
+const MAX_CLIPS = 500; // Roughly 25 plans read aloud in full
+
+interface SpeechClip {
+  key: string;
+  pcm: ArrayBuffer;  // Raw PCM16, mono
+  sampleRate: number;
+  usedAt: string;
+}
+
+export const speechCacheKey = async (text: string, voiceName: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${voiceName}\n${text}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedSpeech = async (key: string): Promise<{ pcm: Uint8Array; sampleRate: number } | null> => {
+  try {
+    const clip = await getOne<SpeechClip>(STORES.speech, key);
+    if (!clip) return null;
+    // Remember the use so pruning drops the clips nobody plays any more
+    putOne(STORES.speech, { ...clip, usedAt: new Date().toISOString() }).catch(() => undefined);
+    return { pcm: new Uint8Array(clip.pcm), sampleRate: clip.sampleRate };
+  } catch (e) {
+    console.warn("Could not read cached speech", e);
+    return null;
+  }
+};
+
+// Whether a clip is stored, without counting it as played
+export const hasCachedSpeech = async (key: string): Promise<boolean> => {
+  try {
+    return await withStore(STORES.speech, 'readonly', store => store.count(key)) > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Stores a clip, then drops the least recently played ones beyond MAX_CLIPS.
+ * Failures are only logged: the cache is an optimisation.
+ */
+export const cacheSpeech = async (key: string, pcm: Uint8Array, sampleRate: number): Promise<void> => {
+  try {
+    const clip: SpeechClip = {
+      key,
+      pcm: pcm.slice().buffer,
+      sampleRate,
+      usedAt: new Date().toISOString(),
+    };
+    await putOne(STORES.speech, clip);
+    await withStore(STORES.speech, 'readwrite', async store => {
+      let excess = await promisifyRequest(store.count()) - MAX_CLIPS;
+      if (excess <= 0) return;
+      await new Promise<void>((resolve, reject) => {
+        const request = store.index('usedAt').openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || excess-- <= 0) return resolve();
+          cursor.delete();
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    });
+  } catch (e) {
+    console.warn("Could not cache speech", e);
+  }
+};
@@ -0,0 +1,120 @@
+import { BudgetLevel } from "../types";
+import { BUDGET_LABELS } from "./liveTripTools";
+
+// Who the traveler is: needs and preferences Somsri should keep in mind in every mode.
+// Kept in localStorage so prompts can read it synchronously, like the guide settings.
+
+const STORAGE_KEY = 'thai_guide_traveler_profile';
+
+export type DietaryNeed = 'vegetarian' | 'vegan' | 'halal' | 'noPork' | 'noBeef' | 'glutenFree' | 'mildSpice';
+export type Mobility = 'none' | 'limitedWalking' | 'noStairs' | 'wheelchair';
+export type TravelPace = 'relaxed' | 'moderate' | 'packed';
+export type Companion = 'kids' | 'elderly';
+
+export interface TravelerProfile {
+  diet: DietaryNeed[];
+  allergies: string;
+  mobility: Mobility;
+  pace: TravelPace | 'any';
+  budget: BudgetLevel | 'any';
+  companions: Companion[];
+  interests: string; // Standing interests; the planner's field adds to them per trip
+}
+
+export const DEFAULT_TRAVELER_PROFILE: TravelerProfile = {
+  diet: [],
+  allergies: '',
+  mobility: 'none',
+  pace: 'any',
+  budget: 'any',
+  companions: [],
+  interests: '',
+};
+
+export const DIETARY_OPTIONS: DietaryNeed[] = ['vegetarian', 'vegan', 'halal', 'noPork', 'noBeef', 'glutenFree', 'mildSpice'];
+export const MOBILITY_OPTIONS: Mobility[] = ['none', 'limitedWalking', 'noStairs', 'wheelchair'];
+export const TRAVEL_PACE_OPTIONS: TravelerProfile['pace'][] = ['any', 'relaxed', 'moderate', 'packed'];
+export const BUDGET_OPTIONS: TravelerProfile['budget'][] = ['any', 'budget', 'mid-range', 'luxury'];
+export const COMPANION_OPTIONS: Companion[] = ['kids', 'elderly'];
+
+const isOneOf = <T extends string>(options: T[], value: unknown): value is T => options.includes(value as T);
+const listOf = <T extends string>(options: T[], value: unknown): T[] =>
+  Array.isArray(value) ? options.filter(option => value.includes(option)) : [];
+const text = (value: unknown): string => typeof value === 'string' ? value.slice(0, 300) : '';
+
+export const loadTravelerProfile = (): TravelerProfile => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!raw || typeof raw !== 'object') return DEFAULT_TRAVELER_PROFILE;
+    return {
+      diet: listOf(DIETARY_OPTIONS, raw.diet),
+      allergies: text(raw.allergies),
+      mobility: isOneOf(MOBILITY_OPTIONS, raw.mobility) ? raw.mobility : DEFAULT_TRAVELER_PROFILE.mobility,
+      pace: isOneOf(TRAVEL_PACE_OPTIONS, raw.pace) ? raw.pace : DEFAULT_TRAVELER_PROFILE.pace,
+      budget: isOneOf(BUDGET_OPTIONS, raw.budget) ? raw.budget : DEFAULT_TRAVELER_PROFILE.budget,
+      companions: listOf(COMPANION_OPTIONS, raw.companions),
+      interests: text(raw.interests),
+    };
+  } catch {
+    return DEFAULT_TRAVELER_PROFILE;
+  }
+};
+
+export const saveTravelerProfile = (profile: TravelerProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("Could not save traveler profile", e);
+  }
+};
+
+const DIET_LABELS: Record<DietaryNeed, string> = {
+  vegetarian: 'vegetarian',
+  vegan: 'vegan',
+  halal: 'halal',
+  noPork: 'no pork',
+  noBeef: 'no beef',
+  glutenFree: 'gluten-free',
+  mildSpice: 'mild spice only',
+};
+
+const MOBILITY_RULES: Record<Exclude<Mobility, 'none'>, string> = {
+  limitedWalking: 'Can only walk short distances. Keep walking between stops short, prefer taxis or Grab over long walks, and plan regular places to sit.',
+  noStairs: 'Cannot manage stairs or steep climbs. Avoid hilltop temples and sights with many steps unless there is a lift or cable car.',
+  wheelchair: 'Uses a wheelchair. Only suggest step-free places and transport, and mention accessible entrances and toilets.',
+};
+
+const PACE_RULES: Record<TravelPace, string> = {
+  relaxed: 'Relaxed: at most three or four stops a day, late starts and time to rest.',
+  moderate: 'Moderate: a full day with a break in the afternoon heat.',
+  packed: 'Packed: make the most of every day, from early morning to night markets.',
+};
+
+const COMPANION_RULES: Record<Companion, string> = {
+  kids: 'Travelling with children: favour family-friendly places and food that kids will eat, and keep days shorter.',
+  elderly: 'Travelling with elderly relatives: favour comfortable transport, shade and frequent rest stops.',
+};
+
+/**
+ * The saved profile as prompt text for Somsri, or an empty string when nothing is set.
+ */
+export const travelerProfileInstructions = (profile: TravelerProfile): string => {
+  const allergies = profile.allergies.trim();
+  const interests = profile.interests.trim();
+  const rules = [
+    profile.diet.length > 0 && `- Diet: ${profile.diet.map(need => DIET_LABELS[need]).join(', ')}. Only suggest dishes and restaurants that fit, and say what to order or ask for.`,
+    allergies && `- Allergies: ${allergies}. Warn about dishes that commonly contain these and give the Thai phrase to tell the cook.`,
+    profile.mobility !== 'none' && `- Mobility: ${MOBILITY_RULES[profile.mobility]}`,
+    profile.pace !== 'any' && `- Pace: ${PACE_RULES[profile.pace]}`,
+    profile.budget !== 'any' && `- Budget: ${BUDGET_LABELS[profile.budget].toLowerCase()}. Pick restaurants, hotels and transport to match.`,
+    ...profile.companions.map(companion => `- ${COMPANION_RULES[companion]}`),
+    interests && `- Interests: ${interests}.`,
+  ].filter(Boolean);
+  if (!rules.length) return '';
+  return `
+TRAVELER PROFILE (saved by the traveler; respect it in every suggestion and don't ask for it again):
+${rules.join('\n')}
+`;
+};
+
+export const hasTravelerProfile = (profile: TravelerProfile): boolean => travelerProfileInstructions(profile) !== '';
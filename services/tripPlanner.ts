@@ -0,0 +1,157 @@
+import { Itinerary, TransferMode, TripRequest } from "../types";
+import { formatCost } from "./itinerary";
+
+export const CITIES = [
+  "Bangkok", "Ayutthaya", "Kanchanaburi", "Hua Hin", "Pattaya", "Chiang Mai", "Chiang Rai",
+  "Pai", "Sukhothai", "Phuket", "Krabi", "Koh Samui", "Koh Phangan", "Koh Lanta",
+];
+
+// Ferries aren't offered as a preference
+export const TRANSFER_PREFERENCES: Exclude<TripRequest['transferPreference'], 'ferry'>[] = ['any', 'flight', 'train', 'bus'];
+
+export const TRANSFER_ICONS: Record<TransferMode, string> = {
+  flight: '✈️',
+  train: '🚆',
+  bus: '🚌',
+  ferry: '⛴️',
+};
+
+// One calendar day of the trip and where the traveler is on it
+export interface PlannedDay {
+  day: number;
+  date: string;
+  city: string;
+  transferFrom?: string;
+}
+
+// Date math on ISO "YYYY-MM-DD" strings in UTC so timezones never shift the day
+export const addDays = (isoDate: string, days: number): string => {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (fromIso: string, toIso: string): number =>
+  Math.round((Date.parse(`${toIso}T00:00:00Z`) - Date.parse(`${fromIso}T00:00:00Z`)) / 86400000);
+
+export const totalNights = (request: TripRequest): number =>
+  request.legs.reduce((sum, leg) => sum + leg.nights, 0);
+
+export const tripEndDate = (request: TripRequest): string =>
+  addDays(request.startDate, totalNights(request));
+
+export const describeTripRoute = (request: TripRequest): string =>
+  request.legs.map(leg => leg.city).join(' → ');
+
+export const MAX_TRAVELERS = 20;
+
+export const tripTravelers = (request: TripRequest): number => request.travelers ?? 1;
+
+export const createDefaultTripRequest = (): TripRequest => ({
+  startDate: addDays(new Date().toISOString().slice(0, 10), 1),
+  legs: [{ city: CITIES[0], nights: 0 }], // A single day trip until the traveler adds nights
+  transferPreference: 'any',
+});
+
+/**
+ * Checks an untrusted trip request (e.g. from a share link). Unknown cities are
+ * allowed, but the shape, dates and night counts must make sense.
+ */
+export const normalizeTripRequest = (raw: unknown): TripRequest | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.startDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.startDate)) return undefined;
+  if (!Array.isArray(data.legs) || data.legs.length === 0) return undefined;
+  const legs = data.legs.map(leg => ({
+    city: typeof leg?.city === 'string' ? leg.city.trim() : '',
+    nights: Number.isInteger(leg?.nights) && leg.nights >= 0 ? leg.nights as number : -1,
+  }));
+  if (legs.some(leg => !leg.city || leg.nights < 0)) return undefined;
+  const preference = TRANSFER_PREFERENCES.find(p => p === data.transferPreference);
+  const travelers = Number.isInteger(data.travelers) && (data.travelers as number) >= 1 && (data.travelers as number) <= MAX_TRAVELERS ? data.travelers as number : undefined;
+  const budgetTHB = typeof data.budgetTHB === 'number' && data.budgetTHB > 0 ? data.budgetTHB : undefined;
+  return { startDate: data.startDate, legs, transferPreference: preference || 'any', travelers, budgetTHB };
+};
+
+// A lone city can be a day trip; once there are several, every city needs a night
+export const minNights = (request: TripRequest): number => request.legs.length === 1 ? 0 : 1;
+
+/**
+ * Moves the end of the trip by growing or shrinking the last city's stay.
+ */
+export const setTripEndDate = (request: TripRequest, endIso: string): TripRequest => {
+  const nightsBeforeLast = totalNights(request) - request.legs[request.legs.length - 1].nights;
+  const lastNights = Math.max(minNights(request), daysBetween(request.startDate, endIso) - nightsBeforeLast);
+  return {
+    ...request,
+    legs: request.legs.map((leg, i) => i === request.legs.length - 1 ? { ...leg, nights: lastNights } : leg),
+  };
+};
+
+/**
+ * Lays the legs out on the calendar. A new city is entered on the morning after the
+ * previous city's last night, which makes that day a transfer day. The trip ends
+ * with a departure day in the last city.
+ */
+export const planTripDays = (request: TripRequest): PlannedDay[] => {
+  const days: PlannedDay[] = [];
+  request.legs.forEach((leg, legIdx) => {
+    for (let night = 0; night < leg.nights; night++) {
+      days.push({
+        day: days.length + 1,
+        date: addDays(request.startDate, days.length),
+        city: leg.city,
+        transferFrom: night === 0 && legIdx > 0 ? request.legs[legIdx - 1].city : undefined,
+      });
+    }
+  });
+  const last = request.legs[request.legs.length - 1];
+  days.push({ day: days.length + 1, date: addDays(request.startDate, days.length), city: last.city });
+  return days;
+};
+
+export const buildTripPrompt = (request: TripRequest): string => {
+  const days = planTripDays(request);
+  const isSingleCity = request.legs.length === 1;
+
+  const skeleton = days.map(d => d.transferFrom
+    ? `Day ${d.day} (${d.date}): TRANSFER DAY ${d.transferFrom} → ${d.city}, then settle in and explore ${d.city} if time allows.`
+    : `Day ${d.day} (${d.date}): ${d.city}.`
+  ).join('\n');
+
+  const travelers = tripTravelers(request);
+  const who = travelers === 1 ? 'a tourist' : `a group of ${travelers} tourists`;
+
+  let prompt = `Plan a ${days.length}-day itinerary (${request.startDate} to ${tripEndDate(request)}) for ${who} visiting ${describeTripRoute(request)}.
+Follow this day-by-day outline exactly, one section per day with a "Day N" heading:
+${skeleton}
+`;
+  if (!isSingleCity) {
+    const preference = request.transferPreference === 'any'
+      ? 'Pick the most practical option (flight, overnight train or bus) for each hop.'
+      : `The traveler prefers to travel by ${request.transferPreference} where it is practical.`;
+    prompt += `For every transfer day, recommend a concrete connection with departure time, duration and approximate fare. ${preference}\n`;
+  }
+  if (request.budgetTHB) {
+    const perPerson = travelers === 1 ? '' : ` (about ${formatCost(Math.round(request.budgetTHB / travelers))} per person)`;
+    prompt += `The whole trip must cost no more than ${formatCost(request.budgetTHB)} for the group${perPerson}, counting meals, tickets, transfers and hotels. Estimate a cost for every stop.\n`;
+  }
+  prompt += `Also suggest popular tourist attractions in each city with brief descriptions and estimated time needed to visit.`;
+  return prompt;
+};
+
+/**
+ * Fills in the date and city of each generated day from the requested outline
+ * when the model left them out.
+ */
+export const applyTripSkeleton = (itinerary: Itinerary, request: TripRequest): Itinerary => {
+  const planned = planTripDays(request);
+  return {
+    ...itinerary,
+    days: itinerary.days.map(day => {
+      const plan = planned.find(p => p.day === day.day);
+      if (!plan) return day;
+      return { ...day, date: day.date || plan.date, city: day.city || plan.city };
+    }),
+  };
+};
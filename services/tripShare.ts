@@ -0,0 +1,133 @@
+import { GroundingChunk, ItineraryResponse, TripRequest } from "../types";
+import { decodeBase64, encodeBase64 } from "./audioUtils";
+import { normalizeItinerary } from "./itineraryParser";
+import { normalizeTripRequest } from "./tripPlanner";
+
+// Bump when the payload shape changes, and teach parseSharedPayload the old one
+export const SHARE_VERSION = 1;
+
+// URL fragment key: #trip=<payload>. Fragments never reach a server.
+const HASH_KEY = 'trip';
+// Marks downloaded trip files so we don't try to import any JSON as a trip
+const FILE_FORMAT = 'thaiguide-trip';
+
+export interface SharedTrip {
+  name: string;
+  trip?: TripRequest;
+  interests: string;
+  response: ItineraryResponse;
+}
+
+// What goes over the wire: the plan and its web sources, nothing app-local
+interface SharePayloadV1 {
+  v: 1;
+  name: string;
+  trip?: TripRequest;
+  interests: string;
+  text: string;
+  itinerary: ItineraryResponse['itinerary'];
+  sources?: { title: string; uri: string }[];
+}
+
+const toPayload = (shared: SharedTrip): SharePayloadV1 => ({
+  v: SHARE_VERSION,
+  name: shared.name,
+  trip: shared.trip,
+  interests: shared.interests,
+  text: shared.response.text,
+  itinerary: shared.response.itinerary,
+  sources: shared.response.groundingChunks
+    ?.filter(chunk => chunk.web?.uri)
+    .map(chunk => ({ title: chunk.web!.title, uri: chunk.web!.uri })),
+});
+
+// A web source from the payload, if it is a link we'd be willing to open
+const toSource = (raw: unknown): GroundingChunk | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  if (typeof source.uri !== 'string' || !/^https?:\/\//i.test(source.uri)) return null;
+  return { web: { uri: source.uri, title: typeof source.title === 'string' ? source.title : source.uri } };
+};
+
+/**
+ * Validates a decoded payload and turns it back into a trip. Returns null for anything
+ * malformed or written by a newer version of the app.
+ */
+export const parseSharedPayload = (raw: unknown): SharedTrip | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  if (data.v !== SHARE_VERSION) {
+    console.warn(`Unsupported shared trip version: ${data.v}`);
+    return null;
+  }
+  const itinerary = normalizeItinerary(data.itinerary);
+  if (!itinerary || typeof data.text !== 'string') return null;
+
+  const groundingChunks: GroundingChunk[] | undefined = Array.isArray(data.sources)
+    ? data.sources.map(toSource).filter((chunk): chunk is GroundingChunk => chunk !== null)
+    : undefined;
+
+  return {
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : itinerary.title,
+    trip: normalizeTripRequest(data.trip),
+    interests: typeof data.interests === 'string' ? data.interests : '',
+    response: { text: data.text, itinerary, groundingChunks },
+  };
+};
+
+// --- Compression + base64url ---
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeBase64(base64 + '='.repeat((4 - base64.length % 4) % 4));
+};
+
+export const encodeSharedTrip = async (shared: SharedTrip): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toPayload(shared)));
+  return toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSharedTrip = async (encoded: string): Promise<SharedTrip | null> => {
+  try {
+    const json = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    return parseSharedPayload(JSON.parse(new TextDecoder().decode(json)));
+  } catch (e) {
+    console.warn("Could not decode shared trip", e);
+    return null;
+  }
+};
+
+/**
+ * A link to this app that opens the trip, with the trip compressed into the fragment.
+ */
+export const buildShareUrl = async (shared: SharedTrip): Promise<string> => {
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_KEY}=${await encodeSharedTrip(shared)}`;
+  return url.toString();
+};
+
+// The encoded trip in a location hash, if there is one
+export const sharedTripFromHash = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+
+// --- Files ---
+
+export const sharedTripToFile = (shared: SharedTrip): string =>
+  JSON.stringify({ format: FILE_FORMAT, ...toPayload(shared) }, null, 2);
+
+export const sharedTripFromFile = (text: string): SharedTrip | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    const isTripFile = !!data && typeof data === 'object' && (data as Record<string, unknown>).format === FILE_FORMAT;
+    return isTripFile ? parseSharedPayload(data) : null;
+  } catch {
+    return null;
+  }
+};
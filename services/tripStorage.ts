@@ -0,0 +1,165 @@
+import { GroundingChunk, ItineraryResponse, SavedTrip, TripRequest } from "../types";
+import { STORES, deleteOne, getAll, getOne, putOne } from "./db";
+import { linkStopsToPlaces, normalizeItinerary, parseItineraryFromProse } from "./itineraryParser";
+import { normalizeTripRequest } from "./tripPlanner";
+
+export const TRIP_SCHEMA_VERSION = 2;
+
+// Where trips lived before IndexedDB; imported once, then removed
+const LEGACY_STORAGE_KEY = 'thai_guide_saved_trips';
+
+// A stored record of any version, as read back: nothing in it is trusted yet
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord => !!value && typeof value === 'object';
+
+const text = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+// Each entry upgrades a record from version (key) to the next version
+const MIGRATIONS: Record<number, (record: StoredRecord) => unknown> = {
+  // v1: the original localStorage entry written by the planner's Save button
+  // ({ id: number, destination, interests, text, itinerary, trip, groundingChunks, created })
+  1: (record): SavedTrip => {
+    const prose = text(record.text) || '';
+    const created = text(record.created) || new Date().toISOString();
+    const groundingChunks: GroundingChunk[] | undefined = Array.isArray(record.groundingChunks)
+      ? record.groundingChunks.filter(isRecord)
+      : undefined;
+    return {
+      schemaVersion: 2,
+      id: String(record.id),
+      name: text(record.destination) || 'Untitled trip',
+      createdAt: created,
+      updatedAt: created,
+      trip: normalizeTripRequest(record.trip),
+      interests: text(record.interests) || '',
+      response: {
+        text: prose,
+        groundingChunks,
+        // Entries saved before the structured model only have prose
+        itinerary: normalizeItinerary(record.itinerary) || linkStopsToPlaces(parseItineraryFromProse(prose), groundingChunks),
+      },
+    };
+  },
+};
+
+// Enough of the current shape for My Trips to list, sort and open it
+const isSavedTrip = (record: StoredRecord): record is StoredRecord & SavedTrip =>
+  record.schemaVersion === TRIP_SCHEMA_VERSION &&
+  typeof record.id === 'string' &&
+  typeof record.name === 'string' &&
+  typeof record.createdAt === 'string' &&
+  typeof record.updatedAt === 'string' &&
+  isRecord(record.response) &&
+  typeof record.response.text === 'string' &&
+  isRecord(record.response.itinerary) &&
+  Array.isArray(record.response.itinerary.days);
+
+/**
+ * Upgrades a stored record of any known version to the current SavedTrip shape.
+ * Returns null for records that are unreadable or written by a newer app version.
+ */
+export const migrateTripRecord = (raw: unknown): SavedTrip | null => {
+  if (!isRecord(raw)) return null;
+  let record = raw;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  if (version > TRIP_SCHEMA_VERSION) {
+    console.warn(`Skipping saved trip ${record.id} from a newer schema (v${version})`);
+    return null;
+  }
+  try {
+    while (version < TRIP_SCHEMA_VERSION) {
+      const upgraded = MIGRATIONS[version](record);
+      if (!isRecord(upgraded)) return null;
+      record = upgraded;
+      version++;
+    }
+  } catch (e) {
+    console.error("Failed to migrate saved trip", e);
+    return null;
+  }
+  return isSavedTrip(record) ? record : null;
+};
+
+const newTripId = (): string => `trip_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+let legacyImport: Promise<void> | null = null;
+
+// Moves trips saved by older versions out of localStorage, once per page load
+const importLegacyTrips = (): Promise<void> => {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      const existingData = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!existingData) return;
+      try {
+        const history = JSON.parse(existingData);
+        if (Array.isArray(history)) {
+          for (const entry of history) {
+            const trip = migrateTripRecord(entry);
+            if (trip) await putOne(STORES.trips, trip);
+          }
+        }
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      } catch (e) {
+        console.error("Failed to import legacy saved trips", e);
+      }
+    })();
+  }
+  return legacyImport;
+};
+
+export const listTrips = async (): Promise<SavedTrip[]> => {
+  await importLegacyTrips();
+  const records = await getAll<unknown>(STORES.trips);
+  return records
+    .map(migrateTripRecord)
+    .filter((t): t is SavedTrip => t !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getTrip = async (id: string): Promise<SavedTrip | null> => {
+  await importLegacyTrips();
+  return migrateTripRecord(await getOne(STORES.trips, id));
+};
+
+/**
+ * Creates a new saved trip, or overwrites the one with `id` when given.
+ */
+export const saveTrip = async (
+  data: { name?: string; trip?: TripRequest; interests: string; response: ItineraryResponse },
+  id?: string
+): Promise<SavedTrip> => {
+  const now = new Date().toISOString();
+  const existing = id ? await getTrip(id) : null;
+  const { name, ...plan } = data;
+  const record: SavedTrip = {
+    schemaVersion: TRIP_SCHEMA_VERSION,
+    id: existing?.id || newTripId(),
+    // Saving over an entry keeps the name it was given in My Trips
+    name: name || existing?.name || data.response.itinerary.title,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    ...plan,
+  };
+  await putOne(STORES.trips, record);
+  return record;
+};
+
+export const renameTrip = async (id: string, name: string): Promise<SavedTrip | null> => {
+  const trip = await getTrip(id);
+  if (!trip) return null;
+  const renamed = { ...trip, name, updatedAt: new Date().toISOString() };
+  await putOne(STORES.trips, renamed);
+  return renamed;
+};
+
+export const duplicateTrip = async (id: string): Promise<SavedTrip | null> => {
+  const trip = await getTrip(id);
+  if (!trip) return null;
+  const now = new Date().toISOString();
+  const copy: SavedTrip = { ...trip, id: newTripId(), name: `${trip.name} (copy)`, createdAt: now, updatedAt: now };
+  await putOne(STORES.trips, copy);
+  return copy;
+};
+
+export const deleteTrip = (id: string): Promise<undefined> => deleteOne(STORES.trips, id);
@@ -0,0 +1,36 @@
+// WAV files from raw PCM16, for audio guides that play anywhere without the app
+
+const WAV_HEADER_BYTES = 44;
+
+// Silent PCM16 of the given length, to space out clips
+export function pcm16Silence(ms: number, sampleRate: number, numChannels: number = 1): Uint8Array {
+  return new Uint8Array(Math.round((sampleRate * ms) / 1000) * numChannels * 2);
+}
+
+/**
+ * Wraps little-endian PCM16 clips, played one after another, in a RIFF/WAVE container.
+ */
+export function encodeWav(clips: Uint8Array[], sampleRate: number, numChannels: number = 1): Blob {
+  const dataBytes = clips.reduce((sum, clip) => sum + clip.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) header.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  const blockAlign = numChannels * 2;
+
+  writeTag(0, 'RIFF');
+  header.setUint32(4, WAV_HEADER_BYTES - 8 + dataBytes, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  header.setUint32(16, 16, true);           // fmt chunk size
+  header.setUint16(20, 1, true);            // PCM
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true);
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, 16, true);           // Bits per sample
+  writeTag(36, 'data');
+  header.setUint32(40, dataBytes, true);
+
+  return new Blob([header.buffer, ...clips], { type: 'audio/wav' });
+}
@@ -2,8 +2,11 @@ import React from 'react';
 
 export enum AppMode {
   PLANNER = 'PLANNER',
+  TRIPS = 'TRIPS',
   CHAT = 'CHAT',
   LIVE = 'LIVE',
+  PHRASEBOOK = 'PHRASEBOOK',
+  SETTINGS = 'SETTINGS',
 }
 
 export interface GroundingChunk {
@@ -22,16 +25,139 @@ export interface GroundingChunk {
   };
 }
 
+export type StopCategory = 'attraction' | 'meal' | 'activity' | 'shopping' | 'transfer' | 'hotel';
+
+export interface StopCost {
+  amount: number;
+  currency: string;
+  note?: string;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// The grounding (Google Maps) place a stop resolves to
+export interface StopPlace {
+  title: string;
+  uri?: string;
+}
+
+export interface OpeningHours {
+  open: string; // 24h "HH:MM"
+  close: string;
+}
+
+export interface ItineraryStop {
+  id: string;
+  name: string;
+  category: StopCategory;
+  time?: string; // 24h "HH:MM"
+  durationMinutes?: number;
+  description?: string;
+  cost?: StopCost;
+  place?: StopPlace;
+  openingHours?: OpeningHours;
+  fixed?: boolean; // Booked / pinned: keeps its position and time when the route is optimized
+}
+
+export type TransferMode = 'flight' | 'train' | 'bus' | 'ferry';
+
+// Inter-city move made on a transfer day
+export interface DayTransfer {
+  from: string;
+  to: string;
+  mode: TransferMode;
+  departureTime?: string;
+  durationMinutes?: number;
+  cost?: StopCost; // Fare per person
+}
+
+export interface ItineraryDay {
+  day: number;
+  title: string;
+  date?: string; // ISO "YYYY-MM-DD"
+  city?: string;
+  transfer?: DayTransfer;
+  stops: ItineraryStop[];
+}
+
+// A cost the traveler added to the cost sheet that no stop or transfer covers (SIM card, tips...)
+export interface ExtraCost {
+  id: string;
+  label: string;
+  amount: number; // THB per person
+  day?: number; // Unset for costs that belong to the whole trip
+}
+
+export interface Itinerary {
+  title: string;
+  summary?: string;
+  days: ItineraryDay[];
+  extraCosts?: ExtraCost[];
+}
+
+export interface TripLeg {
+  city: string;
+  nights: number;
+}
+
+// What the traveler asked for in the trip builder
+export interface TripRequest {
+  startDate: string; // ISO "YYYY-MM-DD"
+  legs: TripLeg[];
+  transferPreference: TransferMode | 'any';
+  travelers?: number; // Defaults to one
+  budgetTHB?: number; // Cap for the whole trip and group; the cost sheet warns when the plan goes over
+}
+
+export type BudgetLevel = 'budget' | 'mid-range' | 'luxury';
+
+// What Somsri has learned about the trip so far in a Live voice chat
+export interface LiveTripDraft {
+  legs: { city: string; nights?: number }[];
+  startDate?: string; // ISO "YYYY-MM-DD"
+  endDate?: string;
+  interests: string[];
+  budget?: { level: BudgetLevel; dailyTHB?: number }; // Per person
+}
+
 export interface ItineraryResponse {
   text: string;
+  itinerary: Itinerary;
   groundingChunks?: GroundingChunk[];
 }
 
+// A trip in the "My Trips" library, stored in IndexedDB
+export interface SavedTrip {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  trip?: TripRequest;
+  interests: string;
+  response: ItineraryResponse;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   isThinking?: boolean;
+  isError?: boolean; // A failed reply; shown, but never sent back to the model as history
+  planEdits?: string[]; // Changes this reply made to the open itinerary, for the traveler
+}
+
+// A saved chat thread with Somsri
+export interface Conversation {
+  schemaVersion: number;
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
 }
 
 export interface LiveConnectionState {
@@ -72,6 +198,10 @@ declare global {
         PlacesService: typeof google.maps.places.PlacesService;
       }
 
+      class DistanceMatrixService {
+        getDistanceMatrix(request: any, callback: (result: any, status: any) => void): void;
+      }
+
       class DirectionsService {
         route(request: any, callback: (result: any, status: any) => void): void;
       }